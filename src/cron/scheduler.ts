@@ -3,71 +3,202 @@ import {
   runSearchBatchWithAI,
   getProviderName,
 } from "../services/ai/index.js";
-import { getSearchQueries } from "../services/ai/queries.js";
 import { completeFetchLog, createFetchLog, failFetchLog, storeScholarships } from "../services/scholarshipService.js";
+import { sendNewMatchDigests, sendDeadlineReminders } from "../services/savedSearchService.js";
+import { collectRejections, summarizeRejections } from "../services/validation/index.js";
+import { quarantineRejections, purgeQuarantine } from "../services/quarantineService.js";
+import { runLinkHealthCheck } from "../services/linkHealthService.js";
+import { claimProgramQueries, rolloverExpiredCycles } from "../services/programService.js";
+import { claimNextQuerySet } from "../services/querySetService.js";
+import { normalizeStoredAmounts } from "../services/amountService.js";
+import { recordFixture, type RecordedCycle } from "../services/ai/fixtures.js";
+import {
+  enqueueJob,
+  registerJobHandler,
+  startJobWorker,
+  type JobContext,
+} from "../services/jobService.js";
+import type { ClaimedQuerySet, JobType, QueryRunStats } from "../types/index.js";
+
 
+/** What a fetch cycle claimed on its first attempt */
+interface FetchCyclePlan {
+  querySet: ClaimedQuerySet | null;
+  programQueries: string[];
+}
 
-let runIndex = 0;
+function isFetchCyclePlan(state: unknown): state is FetchCyclePlan {
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    Array.isArray((state as FetchCyclePlan).programQueries)
+  );
+}
+
+/**
+ * Claim the queries for a fetch cycle: the next query set plus
+ * programs due to reopen. Both are marked as run when claimed.
+ */
+async function claimFetchCycle(): Promise<FetchCyclePlan> {
+  // Archive closed cycles first, so their programs can be searched right away
+  await rolloverExpiredCycles().catch((err) =>
+    console.error("[CRON] Cycle rollover error:", err)
+  );
+  const programQueries = await claimProgramQueries().catch((err) => {
+    console.error("[CRON] Program query error:", err);
+    return [] as string[];
+  });
+  const querySet = await claimNextQuerySet().catch((err) => {
+    console.error("[CRON] Query set error:", err);
+    return null;
+  });
+  return { querySet, programQueries };
+}
 
 /**
  * Execute a single scholarship fetch cycle.
- * Each run uses a different batch of queries to rotate through regions.
+ * Each run uses the next stored query set (see QUERY_STRATEGY), plus
+ * targeted queries for recurring programs due to reopen. Results are
+ * counted per query so the query sets can be tuned on their yield.
+ * When run as a job, progress is reported per query and the cycle
+ * stops between queries once cancelled. The claimed queries are saved
+ * on the job, so a retry searches the same ones instead of claiming
+ * the next set. Errors are logged on the fetch log and rethrown so the
+ * job can be retried.
  */
-export async function runFetchCycle(): Promise<void> {
-  const queries = getSearchQueries(runIndex);
-  const logId = await createFetchLog(queries);
+export async function runFetchCycle(ctx?: JobContext): Promise<{ found: number; added: number }> {
+  const saved = ctx?.state;
+  let plan: FetchCyclePlan;
+  if (isFetchCyclePlan(saved)) {
+    plan = saved;
+  } else {
+    plan = await claimFetchCycle();
+    await ctx?.saveState(plan);
+  }
+  const { querySet, programQueries } = plan;
+
+  const queries = [...(querySet?.queries ?? []), ...programQueries];
+  if (queries.length === 0) {
+    console.warn("[CRON] No enabled query sets and no programs due — skipping fetch cycle");
+    return { found: 0, added: 0 };
+  }
+
+  // Lets fixture playback replay exactly these queries (AI_FIXTURES=record)
+  await recordFixture<RecordedCycle>("cycle", `${querySet?.name ?? "programs"} ${new Date().toISOString()}`, {
+    query_set: querySet?.name,
+    queries,
+  });
+
+  const logId = await createFetchLog(queries, querySet?.name);
   const provider = getProviderName();
+  const setLabel = querySet
+    ? querySet.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+    : "programs";
 
   console.log(
-    `\n${"═".repeat(60)}\n[CRON] Scholarship fetch cycle #${runIndex + 1} started\n[CRON] AI Provider: ${provider}\n[CRON] Batch: ${runIndex % 5 + 1}/5\n[CRON] Queries: ${queries.length}\n${"═".repeat(60)}`
+    `\n${"═".repeat(60)}\n[CRON] Scholarship fetch cycle started\n[CRON] AI Provider: ${provider}\n[CRON] Query set: ${querySet ? `${querySet.name} (${querySet.strategy})` : "none"}\n[CRON] Queries: ${queries.length} (${programQueries.length} for reopening programs)\n${"═".repeat(60)}`
   );
 
   try {
-    const scholarships = await runSearchBatchWithAI(queries);
+    // Every validation rejection in the cycle ends up on the fetch log
+    const { result, rejections } = await collectRejections(async () => {
+      const counts: Omit<QueryRunStats, "rejected">[] = [];
+      for (const [i, query] of queries.entries()) {
+        await ctx?.progress(i, queries.length, query);
+        const scholarships = await runSearchBatchWithAI([query]);
+        const added = await storeScholarships(
+          scholarships,
+          `${provider.toLowerCase()}-web-search-${setLabel}`,
+          logId,
+          query
+        );
+        counts.push({ query, found: scholarships.length, added });
+      }
+      return counts;
+    });
+
+    const queryStats: QueryRunStats[] = result.map((c) => ({
+      ...c,
+      rejected: rejections.filter((r) => r.query === c.query).length,
+    }));
+    const found = queryStats.reduce((sum, q) => sum + q.found, 0);
+    const added = queryStats.reduce((sum, q) => sum + q.added, 0);
 
     console.log(
-      `[CRON] Found ${scholarships.length} scholarships from ${provider} web search`
+      `[CRON] Found ${found} scholarships from ${provider} web search`
     );
 
-    const added = await storeScholarships(
-      scholarships,
-      `${provider.toLowerCase()}-web-search-batch-${runIndex % 5 + 1}`
-    );
+    await completeFetchLog(logId, found, added, summarizeRejections(rejections), queryStats);
 
-    await completeFetchLog(logId, scholarships.length, added);
+    // Keep rejected candidates for review instead of dropping them
+    await quarantineRejections(rejections)
+      .then(() => purgeQuarantine())
+      .catch((err) => console.error("[CRON] Quarantine error:", err));
 
     console.log(
-      `[CRON] ✓ Added ${added} new scholarships (${scholarships.length - added} duplicates skipped)\n${"═".repeat(60)}\n`
+      `[CRON] ✓ Added ${added} new scholarships (${found - added} duplicates skipped, ${rejections.length} rejected)\n${"═".repeat(60)}\n`
     );
+
+    if (added > 0) {
+      await sendNewMatchDigests().catch((err) =>
+        console.error("[CRON] Digest delivery error:", err)
+      );
+    }
+    await ctx?.progress(queries.length, queries.length);
+    return { found, added };
   } catch (error: any) {
     console.error(`[CRON] ✗ Fetch cycle failed:`, error.message);
     await failFetchLog(logId, error.message);
+    throw error;
   }
+}
 
-  runIndex++;
+/**
+ * Queue a job from a cron trigger. A job of the same type that is
+ * still queued or running is left to finish instead.
+ */
+function enqueueFromCron(type: JobType): void {
+  enqueueJob(type, { requestedBy: "cron" })
+    .then(({ job, created }) => {
+      if (!created) console.log(`[CRON] ${type} skipped — job ${job.id} is still ${job.status}`);
+    })
+    .catch((err) => console.error(`[CRON] Failed to queue ${type}:`, err));
 }
 
 /**
- * Start the cron scheduler.
+ * Start the cron scheduler and the job worker. Scheduled runs are
+ * queued as jobs, so they never overlap a manual run of the same kind.
  */
 export function startScheduler(): void {
   const schedule = process.env.CRON_SCHEDULE || "0 */6 * * *";
 
+  registerJobHandler("fetch_cycle", (ctx) => runFetchCycle(ctx));
+  registerJobHandler("link_check", (ctx) => runLinkHealthCheck(ctx));
+  registerJobHandler("deadline_reminders", (ctx) => sendDeadlineReminders(ctx));
+  registerJobHandler("amount_normalization", (ctx) => normalizeStoredAmounts(ctx));
+  startJobWorker();
+
   console.log(`[CRON] Scheduler started with schedule: ${schedule}`);
-  console.log(`[CRON] Next batches will rotate through 5 regional query sets`);
+  console.log(`[CRON] Query set strategy: ${process.env.QUERY_STRATEGY === "coverage" ? "coverage" : "rotation"}`);
 
   // Schedule recurring job
-  cron.schedule(schedule, () => {
-    runFetchCycle().catch((err) =>
-      console.error("[CRON] Unhandled error:", err)
-    );
-  });
+  cron.schedule(schedule, () => enqueueFromCron("fetch_cycle"));
+
+  // Daily deadline reminders for followed scholarships
+  const reminderSchedule = process.env.REMINDER_SCHEDULE || "0 8 * * *";
+  cron.schedule(reminderSchedule, () => enqueueFromCron("deadline_reminders"));
+  console.log(`[CRON] Deadline reminders scheduled: ${reminderSchedule}`);
+
+  // Re-check stored application links
+  const linkCheckSchedule = process.env.LINK_CHECK_SCHEDULE || "0 3 * * *";
+  cron.schedule(linkCheckSchedule, () => enqueueFromCron("link_check"));
+  console.log(`[CRON] Link health checks scheduled: ${linkCheckSchedule}`);
 
   // Run first fetch immediately on startup (after a small delay for DB setup)
   setTimeout(() => {
-    console.log("[CRON] Running initial fetch on startup...");
-    runFetchCycle().catch((err) =>
-      console.error("[CRON] Initial fetch error:", err)
-    );
+    console.log("[CRON] Queueing initial fetch on startup...");
+    enqueueFromCron("fetch_cycle");
+    // Parse amounts of records stored before they were normalized
+    enqueueFromCron("amount_normalization");
   }, 3000);
 }
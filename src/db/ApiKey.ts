@@ -0,0 +1,22 @@
+import mongoose from "mongoose";
+
+/**
+ * API keys for write and admin routes.
+ * Only a SHA-256 hash of the key is stored; the plaintext is shown once on creation.
+ */
+const ApiKeySchema = new mongoose.Schema({
+  name: { type: String, required: true }, // Who/what the key belongs to, recorded on audit trails
+  key_hash: { type: String, required: true, unique: true },
+  key_prefix: { type: String, required: true }, // First characters, to recognise a key in listings
+  role: {
+    type: String,
+    enum: ["viewer", "editor", "admin"],
+    required: true,
+  },
+  created_by: { type: String },
+  last_used_at: { type: Date },
+  revoked_at: { type: Date },
+  created_at: { type: Date, default: Date.now },
+});
+
+export const ApiKey = mongoose.model("ApiKey", ApiKeySchema);
@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+
+/**
+ * User-submitted "report incorrect info" corrections.
+ * Kept after review so each scholarship has a full correction history.
+ */
+const CorrectionSchema = new mongoose.Schema({
+  scholarship_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Scholarship",
+    required: true,
+  },
+  field: { type: String, required: true }, // Scholarship field being disputed
+  current_value: { type: String }, // Value at the time of submission
+  proposed_value: { type: String, required: true },
+  evidence_quote: { type: String }, // Quote copied from the official page
+  evidence_url: { type: String },
+  submitter_name: { type: String },
+  submitter_email: { type: String },
+  status: {
+    type: String,
+    enum: ["pending", "accepted", "rejected"],
+    default: "pending",
+  },
+  reviewer: { type: String },
+  review_notes: { type: String },
+  reviewed_at: { type: Date },
+  created_at: { type: Date, default: Date.now },
+});
+
+CorrectionSchema.index({ status: 1, created_at: 1 });
+CorrectionSchema.index({ scholarship_id: 1, created_at: -1 });
+
+export const Correction = mongoose.model("Correction", CorrectionSchema);
@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+
+/**
+ * Domain policy entry, edited through the admin API. Block rules keep
+ * links out at ingestion and hide stored records; allow rules override
+ * broader blocks and set the domain's trust tier.
+ */
+const DomainRuleSchema = new mongoose.Schema({
+  pattern: { type: String, required: true, unique: true }, // example.com, *.example.com or .edu
+  action: { type: String, enum: ["block", "allow"], required: true },
+  tier: { type: String, enum: ["official", "trusted", "neutral", "low"] }, // Allow rules only
+  note: { type: String },
+  created_by: { type: String },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+});
+
+export const DomainRule = mongoose.model("DomainRule", DomainRuleSchema);
@@ -0,0 +1,15 @@
+import mongoose from "mongoose";
+
+/**
+ * Locally stored exchange rates against USD, used to compare and
+ * convert scholarship amounts. Edited through the admin API; nothing
+ * is fetched from outside.
+ */
+const ExchangeRateSchema = new mongoose.Schema({
+  currency: { type: String, required: true, unique: true }, // ISO 4217 code
+  per_usd: { type: Number, required: true }, // Units of the currency for 1 USD
+  updated_by: { type: String },
+  updated_at: { type: Date, default: Date.now },
+});
+
+export const ExchangeRate = mongoose.model("ExchangeRate", ExchangeRateSchema);
@@ -0,0 +1,47 @@
+import mongoose from "mongoose";
+
+/**
+ * Persisted background job (fetch cycle, link check, reminders,
+ * amount normalization). Jobs survive restarts; a worker claims a
+ * queued job by flipping it to `running`. `active` is set while queued or running, and the partial
+ * unique index on `lock_key` keeps a single active job per lock.
+ */
+const JobSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ["fetch_cycle", "link_check", "deadline_reminders", "amount_normalization"],
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["queued", "running", "completed", "failed", "cancelled"],
+    default: "queued",
+  },
+  lock_key: { type: String, required: true }, // Jobs sharing a key never overlap
+  active: { type: Boolean }, // true while queued or running, unset afterwards
+  attempts: { type: Number, default: 0 },
+  max_attempts: { type: Number, default: 3 },
+  run_after: { type: Date, default: Date.now }, // Retry backoff
+  progress: {
+    current: { type: Number },
+    total: { type: Number },
+    message: { type: String },
+  },
+  result: { type: mongoose.Schema.Types.Mixed },
+  state: { type: mongoose.Schema.Types.Mixed }, // Saved by the handler, kept across retries
+  error: { type: String },
+  cancel_requested: { type: Boolean, default: false },
+  requested_by: { type: String },
+  worker_id: { type: String }, // Process running the job
+  heartbeat_at: { type: Date }, // Refreshed while running; stale jobs are requeued
+  started_at: { type: Date },
+  finished_at: { type: Date },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+});
+
+JobSchema.index({ lock_key: 1 }, { unique: true, partialFilterExpression: { active: true } });
+JobSchema.index({ status: 1, run_after: 1 });
+JobSchema.index({ created_at: -1 });
+
+export const Job = mongoose.model("Job", JobSchema);
@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+
+/**
+ * A recurring award (Chevening, Fulbright, DAAD EPOS, ...). Each yearly
+ * cycle is its own Scholarship record pointing here via `program_id`.
+ * Created when a cycle's deadline passes, so the program can be
+ * re-searched for its next cycle instead of disappearing.
+ */
+const ProgramSchema = new mongoose.Schema({
+  key: { type: String, required: true, unique: true }, // Organization key + normalised title words
+  name: { type: String, required: true }, // Title of the latest cycle
+  organization: { type: String, required: true },
+  country: { type: String },
+  link: { type: String }, // Official page of the latest cycle
+  status: {
+    type: String,
+    enum: ["open", "expected_to_reopen"],
+    default: "expected_to_reopen",
+  },
+  current_scholarship_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Scholarship",
+  }, // Latest cycle
+  cycle_count: { type: Number, default: 0 },
+  last_deadline: { type: Date },
+  // Estimated from past cycles, only while expected to reopen
+  expected_open_from: { type: Date },
+  expected_open_to: { type: Date },
+  expected_deadline: { type: Date },
+  last_checked_at: { type: Date }, // Last targeted search for the next cycle
+  check_count: { type: Number, default: 0 }, // Targeted searches since the last cycle closed
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+});
+
+ProgramSchema.index({ status: 1, expected_open_from: 1 });
+
+export const Program = mongoose.model("Program", ProgramSchema);
@@ -0,0 +1,50 @@
+import mongoose from "mongoose";
+
+const QuarantineFailureSchema = new mongoose.Schema(
+  {
+    stage: { type: String, required: true }, // Pipeline: provider, store, link_check
+    rule: { type: String, required: true }, // Rule that rejected it, e.g. deadline_past
+    reason: { type: String, required: true },
+    source: { type: String }, // Provider that returned the candidate
+    query: { type: String }, // Search query it came from
+    failed_at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+/**
+ * Candidates rejected during ingestion, kept so an editor can fix and
+ * promote the ones that failed on a technicality (dead HEAD request,
+ * malformed deadline, ...). One document per candidate; repeated
+ * failures are appended and counted.
+ */
+const QuarantinedCandidateSchema = new mongoose.Schema({
+  fingerprint: { type: String, required: true, unique: true }, // Normalised title + organization (or link)
+  candidate: { type: mongoose.Schema.Types.Mixed, required: true }, // Latest raw item as returned
+  title: { type: String },
+  organization: { type: String },
+  link: { type: String },
+  failures: { type: [QuarantineFailureSchema], default: [] }, // Most recent failures, oldest first
+  failure_count: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: ["quarantined", "promoted"],
+    default: "quarantined",
+  },
+  promoted_scholarship_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Scholarship",
+  },
+  promoted_by: { type: String },
+  promoted_at: { type: Date },
+  first_seen_at: { type: Date, default: Date.now },
+  last_seen_at: { type: Date, default: Date.now },
+});
+
+QuarantinedCandidateSchema.index({ status: 1, last_seen_at: -1 });
+QuarantinedCandidateSchema.index({ "failures.rule": 1 });
+
+export const QuarantinedCandidate = mongoose.model(
+  "QuarantinedCandidate",
+  QuarantinedCandidateSchema
+);
@@ -0,0 +1,30 @@
+import mongoose from "mongoose";
+
+const QuerySchema = new mongoose.Schema({
+  text: { type: String, required: true },
+  enabled: { type: Boolean, default: true },
+}, { _id: false });
+
+/**
+ * Search queries for the fetch cycles, grouped in sets. Each cycle runs
+ * one set; `last_run_at` is the persisted rotation state. Query yield
+ * is read from the fetch logs, not stored here.
+ */
+const QuerySetSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true },
+  tags: {
+    regions: { type: [String], default: [] },
+    levels: { type: [String], default: [] },
+    fields: { type: [String], default: [] },
+  },
+  enabled: { type: Boolean, default: true },
+  queries: { type: [QuerySchema], default: [] },
+  run_count: { type: Number, default: 0 },
+  last_run_at: { type: Date },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+});
+
+QuerySetSchema.index({ enabled: 1, last_run_at: 1 });
+
+export const QuerySet = mongoose.model("QuerySet", QuerySetSchema);
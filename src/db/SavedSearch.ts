@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+
+/**
+ * A saved ApiFilters query with a delivery subscription.
+ * Subscribers get a digest of new matches after each fetch cycle and
+ * deadline reminders for the scholarships they follow.
+ */
+const SavedSearchSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  filters: { type: mongoose.Schema.Types.Mixed, default: {} }, // ApiFilters without paging/sorting
+  channel: {
+    type: String,
+    enum: ["email", "webhook", "file", "console"],
+    required: true,
+  },
+  target: { type: String, required: true }, // Email address or webhook URL
+  token_hash: { type: String, required: true }, // Manage/unsubscribe token (SHA-256)
+  confirmed: { type: Boolean, default: true }, // False until an email subscriber opts in
+  confirm_token_hash: { type: String }, // Emailed double opt-in token (SHA-256)
+  unsubscribe_token: { type: String }, // Only unsubscribes; sent in every message
+  reminder_offsets: { type: [Number], default: [30, 7, 1] }, // Days before deadline
+  followed_scholarships: [{ type: mongoose.Schema.Types.ObjectId, ref: "Scholarship" }],
+  reminders_sent: [{
+    _id: false,
+    scholarship_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+    offset_days: { type: Number, required: true },
+    sent_at: { type: Date, default: Date.now },
+  }],
+  active: { type: Boolean, default: true },
+  last_digest_at: { type: Date, default: Date.now },
+  created_at: { type: Date, default: Date.now },
+});
+
+SavedSearchSchema.index({ active: 1 });
+
+export const SavedSearch = mongoose.model("SavedSearch", SavedSearchSchema);
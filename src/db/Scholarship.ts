@@ -1,5 +1,88 @@
 import mongoose from "mongoose";
 
+const LanguageTestSchema = new mongoose.Schema({
+  test: { type: String, required: true },
+  min_score: { type: Number },
+}, { _id: false });
+
+// Structured eligibility, extracted from the official page
+const EligibilitySchema = new mongoose.Schema({
+  allowed_nationalities: { type: [String], default: [] }, // Empty = open to all
+  excluded_nationalities: { type: [String], default: [] },
+  min_gpa: { type: Number }, // On a 4.0 scale
+  language_test_required: { type: Boolean },
+  language_tests: { type: [LanguageTestSchema], default: [] },
+  min_age: { type: Number },
+  max_age: { type: Number },
+  required_documents: { type: [String], default: [] },
+  coverage: {
+    type: [String],
+    enum: ["tuition", "stipend", "travel", "insurance", "accommodation"],
+    default: [],
+  },
+}, { _id: false });
+
+// A record that was merged into this one, kept whole for provenance
+const MergedFromSchema = new mongoose.Schema({
+  scholarship_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+  title: { type: String, required: true },
+  organization: { type: String, required: true },
+  link: { type: String },
+  deadline: { type: Date },
+  source: { type: String },
+  merged_by: { type: String, required: true },
+  merged_at: { type: Date, default: Date.now },
+  snapshot: { type: mongoose.Schema.Types.Mixed }, // Full document at merge time
+}, { _id: false });
+
+// One periodic check of the application link
+const LinkCheckSchema = new mongoose.Schema({
+  checked_at: { type: Date, required: true },
+  ok: { type: Boolean, required: true },
+  status_code: { type: Number },
+  final_url: { type: String }, // Redirect target
+  error: { type: String },
+}, { _id: false });
+
+// One part of the parsed amount (see services/amountParser)
+const AmountComponentSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ["full_tuition", "partial_tuition", "stipend", "award"],
+    required: true,
+  },
+  min: { type: Number },
+  max: { type: Number }, // Only max = "up to"
+  currency: { type: String },
+  period: { type: String, enum: ["one_off", "per_month", "per_year"], required: true },
+  percent: { type: Number }, // Share of tuition covered
+}, { _id: false });
+
+// Parsed `amount`, recomputed when it or the exchange rates change
+const AmountDetailsSchema = new mongoose.Schema({
+  components: { type: [AmountComponentSchema], default: [] },
+  coverage: {
+    type: String,
+    enum: ["full_tuition", "partial", "stipend", "unknown"],
+    default: "unknown",
+  },
+  fully_funded: { type: Boolean, default: false },
+  annual_usd: { type: Number }, // Yearly cash value in USD (lower bound of a range)
+  one_off_usd: { type: Number }, // One-off payments in USD, kept out of annual_usd
+}, { _id: false });
+
+// Result of the scheduled link re-checks (see services/linkHealthService)
+const LinkHealthSchema = new mongoose.Schema({
+  last_checked_at: { type: Date },
+  last_ok_at: { type: Date },
+  status_code: { type: Number },
+  final_url: { type: String }, // Redirect target on the last check
+  consecutive_failures: { type: Number, default: 0 },
+  broken: { type: Boolean, default: false }, // Hidden from listings while true
+  broken_since: { type: Date },
+  history: { type: [LinkCheckSchema], default: [] }, // Most recent checks, oldest first
+}, { _id: false });
+
 const ScholarshipSchema = new mongoose.Schema({
   title: { type: String, required: true },
   organization: { type: String, required: true },
@@ -12,13 +95,44 @@ const ScholarshipSchema = new mongoose.Schema({
   link: { type: String, required: true },
   amount: { type: String },
   currency: { type: String },
+  amount_details: { type: AmountDetailsSchema },
+  eligibility: { type: EligibilitySchema },
   is_verified: { type: Boolean, default: false }, // True = manually verified by admin
   verification_notes: { type: String }, // Admin notes about verification
+  verification_status: {
+    type: String,
+    enum: ["pending", "approved", "rejected", "changes_requested"],
+    default: "pending",
+  },
+  verified_by: { type: String }, // Reviewer who made the last verification decision
+  verified_at: { type: Date },
+  evidence: { type: Map, of: String }, // Field → verbatim snippet from the official page
+  evidence_captured_at: { type: Date },
   source: { type: String }, // How it was added: 'openai-web-search', 'manual', etc.
+  merged_from: { type: [MergedFromSchema], default: undefined }, // Duplicates merged into this record
+  link_health: { type: LinkHealthSchema },
+  program_id: { type: mongoose.Schema.Types.ObjectId, ref: "Program" }, // Recurring program this cycle belongs to
+  archived_at: { type: Date }, // Set once the deadline has passed
+  blocked_domain: { type: String }, // Domain rule blocking the link; hidden from listings while set
   created_at: { type: Date, default: Date.now },
   updated_at: { type: Date, default: Date.now },
 }, { timestamps: true });
 
 ScholarshipSchema.index({ title: 1, organization: 1, deadline: 1 }, { unique: true });
+ScholarshipSchema.index({ verification_status: 1, deadline: 1 });
+ScholarshipSchema.index(
+  { title: "text", organization: "text", description: "text" },
+  { name: "scholarship_text", weights: { title: 10, organization: 5, description: 1 } }
+);
+ScholarshipSchema.index({ "eligibility.allowed_nationalities": 1 });
+ScholarshipSchema.index({ "eligibility.coverage": 1 });
+ScholarshipSchema.index({ "link_health.last_checked_at": 1 });
+ScholarshipSchema.index({ program_id: 1, deadline: -1 });
+ScholarshipSchema.index({ archived_at: 1, deadline: 1 });
+ScholarshipSchema.index({ "link_health.broken": 1, "link_health.consecutive_failures": -1 });
+ScholarshipSchema.index({ blocked_domain: 1 }, { sparse: true });
+ScholarshipSchema.index({ "amount_details.annual_usd": -1 });
+ScholarshipSchema.index({ "amount_details.fully_funded": 1, deadline: 1 });
+ScholarshipSchema.index({ updated_at: -1 });
 
 export const Scholarship = mongoose.model("Scholarship", ScholarshipSchema);
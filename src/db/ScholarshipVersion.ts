@@ -0,0 +1,47 @@
+import mongoose from "mongoose";
+
+const FieldChangeSchema = new mongoose.Schema({
+  field: { type: String, required: true },
+  from: { type: mongoose.Schema.Types.Mixed },
+  to: { type: mongoose.Schema.Types.Mixed },
+}, { _id: false });
+
+/**
+ * Change history of scholarship records.
+ * One document per write that changed a versioned field, numbered per
+ * scholarship, with the diff, who made it and the resulting state.
+ */
+const ScholarshipVersionSchema = new mongoose.Schema({
+  scholarship_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Scholarship",
+    required: true,
+  },
+  version: { type: Number, required: true }, // 1, 2, … per scholarship
+  changes: { type: [FieldChangeSchema], default: [] },
+  source: {
+    type: {
+      type: String,
+      enum: [
+        "initial",
+        "ai",
+        "admin",
+        "correction",
+        "review",
+        "merge",
+        "quarantine",
+        "revert",
+        "import",
+      ],
+      required: true,
+    },
+    actor: { type: String }, // Admin user, or the provider batch for AI changes
+    ref: { type: String }, // Fetch log, correction, candidate or reverted version
+  },
+  snapshot: { type: mongoose.Schema.Types.Mixed }, // Versioned fields after the change
+  created_at: { type: Date, default: Date.now },
+});
+
+ScholarshipVersionSchema.index({ scholarship_id: 1, version: -1 }, { unique: true });
+
+export const ScholarshipVersion = mongoose.model("ScholarshipVersion", ScholarshipVersionSchema);
@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+
+/**
+ * Audit trail of admin verification decisions.
+ * One document per approve / reject / request-changes action.
+ */
+const VerificationEventSchema = new mongoose.Schema({
+  scholarship_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Scholarship",
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: ["approve", "reject", "request_changes"],
+    required: true,
+  },
+  reviewer: { type: String, required: true },
+  notes: { type: String },
+  changes: { type: mongoose.Schema.Types.Mixed }, // Field fixes applied with an approval
+  previous_status: { type: String },
+  new_status: { type: String, required: true },
+  created_at: { type: Date, default: Date.now },
+});
+
+VerificationEventSchema.index({ scholarship_id: 1, created_at: -1 });
+
+export const VerificationEvent = mongoose.model("VerificationEvent", VerificationEventSchema);
@@ -10,8 +10,15 @@ import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
 import scholarshipRoutes from "./routes/scholarships.js";
-import { startScheduler, runFetchCycle } from "./cron/scheduler.js";
+import adminRoutes from "./routes/admin.js";
+import savedSearchRoutes from "./routes/savedSearches.js";
+import jobRoutes from "./routes/jobs.js";
+import { startScheduler } from "./cron/scheduler.js";
+import { enqueueJob, stopJobWorker } from "./services/jobService.js";
+import { refreshDomainPolicy } from "./services/domainPolicyService.js";
+import { refreshExchangeRates } from "./services/amountService.js";
 import { connectMongo, disconnectMongo } from "./db/mongo.js";
+import { requireRole } from "./middleware/auth.js";
 
 const app = express();
 const PORT = parseInt(process.env.PORT || "3001");
@@ -27,20 +34,28 @@ app.use(
   })
 );
 app.use(morgan("short"));
-app.use(express.json());
+// Bulk imports parse their own, larger bodies once the API key is checked
+const jsonParser = express.json();
+app.use((req, res, next) =>
+  /^\/api\/scholarships\/import\/?$/i.test(req.path) ? next() : jsonParser(req, res, next)
+);
 
 // ── Routes ──────────────────────────────────────────────────────────
 app.use("/api/scholarships", scholarshipRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/saved-searches", savedSearchRoutes);
+app.use("/api/jobs", jobRoutes);
 
-// Manual trigger for fetching (protected in production)
-app.post("/api/fetch-now", async (_req, res) => {
+// Manual trigger for fetching (admin only); track it at /api/jobs/:id
+app.post("/api/fetch-now", requireRole("admin"), async (req, res) => {
   try {
     console.log("[API] Manual fetch triggered");
-    // Run in background, don't block the response
-    runFetchCycle().catch((err) =>
-      console.error("[API] Manual fetch error:", err)
-    );
-    res.json({ message: "Fetch cycle started in background" });
+    const { job, created } = await enqueueJob("fetch_cycle", { requestedBy: req.auth!.name });
+    if (!created) {
+      res.status(409).json({ error: `A fetch cycle is already ${job.status}`, job_id: job.id, job });
+      return;
+    }
+    res.status(202).json({ message: "Fetch cycle queued", job_id: job.id, job });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -60,6 +75,16 @@ connectMongo()
   .then(() => {
     console.log("[MongoDB] Connected successfully");
 
+    // Load the stored domain policy before links get checked
+    refreshDomainPolicy().catch((err) =>
+      console.error("[DomainPolicy] Load error:", err.message)
+    );
+
+    // Load the stored exchange rates before amounts get compared
+    refreshExchangeRates().catch((err) =>
+      console.error("[Amounts] Rate load error:", err.message)
+    );
+
     const server = app.listen(PORT, () => {
       console.log(`
 ╔══════════════════════════════════════════════════════╗
@@ -76,6 +101,7 @@ connectMongo()
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n[${signal}] Graceful shutdown initiated...`);
+      stopJobWorker();
       
       server.close(async () => {
         console.log('[Server] HTTP server closed');
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from "express";
+import { resolveApiKey } from "../services/apiKeyService.js";
+import { ROLES, type AuthContext, type Role } from "../types/index.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Read the API key from `Authorization: Bearer <key>` or `X-API-Key`.
+ */
+function readApiKey(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  const apiKey = req.headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+/**
+ * Require an API key with at least the given role.
+ * Roles are ordered viewer < editor < admin.
+ * Responds 401 when no valid key is presented, 403 when the role is too low.
+ */
+export function requireRole(role: Role) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = readApiKey(req);
+      if (!key) {
+        res.status(401).json({ error: "Authentication required" });
+        return;
+      }
+
+      const auth = await resolveApiKey(key);
+      if (!auth) {
+        res.status(401).json({ error: "Invalid or revoked API key" });
+        return;
+      }
+
+      if (ROLES.indexOf(auth.role) < ROLES.indexOf(role)) {
+        res.status(403).json({ error: `Requires ${role} role` });
+        return;
+      }
+
+      req.auth = auth;
+      next();
+    } catch (error: any) {
+      console.error("[Auth] Error resolving API key:", error.message);
+      res.status(500).json({ error: "Failed to authenticate request" });
+    }
+  };
+}
@@ -0,0 +1,948 @@
+import { Router, Request, Response } from "express";
+import {
+  getReviewQueue,
+  reviewScholarship,
+  getVerificationHistory,
+} from "../services/verificationService.js";
+import {
+  listCorrections,
+  getCorrectionById,
+  getCorrectionDiff,
+  acceptCorrection,
+  rejectCorrection,
+} from "../services/correctionService.js";
+import {
+  listQuarantine,
+  getQuarantined,
+  promoteCandidate,
+  dismissCandidate,
+} from "../services/quarantineService.js";
+import { findDuplicateClusters, mergeDuplicates } from "../services/duplicateService.js";
+import { listBrokenLinks } from "../services/linkHealthService.js";
+import { enqueueJob } from "../services/jobService.js";
+import {
+  getDomainVerdict,
+  listDomainRules,
+  createDomainRule,
+  updateDomainRule,
+  deleteDomainRule,
+} from "../services/domainPolicyService.js";
+import { listExchangeRates, updateExchangeRates } from "../services/amountService.js";
+import { getProgram, listPrograms, rolloverExpiredCycles } from "../services/programService.js";
+import {
+  listQuerySets,
+  getQuerySet,
+  createQuerySet,
+  updateQuerySet,
+  deleteQuerySet,
+} from "../services/querySetService.js";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../services/apiKeyService.js";
+import {
+  getAvailableProviders,
+  getProviderChain,
+  switchAIProvider,
+  setAIProviderModel,
+  testAIProvider,
+} from "../services/ai/index.js";
+import { getProviderDefinition } from "../services/ai/registry.js";
+import {
+  ScholarshipValidationError,
+  previewScholarships,
+} from "../services/scholarshipService.js";
+import { requireRole } from "../middleware/auth.js";
+import {
+  ReviewDecisionSchema,
+  ReviewAction,
+  CreateApiKeySchema,
+  SwitchProviderSchema,
+  SetProviderModelSchema,
+  TestProviderSchema,
+  PromoteCandidateSchema,
+  MergeDuplicatesSchema,
+  LINK_REPORT_STATUSES,
+  LinkReportStatus,
+  PROGRAM_STATUSES,
+  ProgramStatus,
+  QuerySetSchema,
+  UpdateQuerySetSchema,
+  DomainRuleSchema,
+  UpdateDomainRuleSchema,
+  DOMAIN_ACTIONS,
+  DomainAction,
+  UpdateExchangeRatesSchema,
+} from "../types/index.js";
+
+const router = Router();
+
+// Every admin route needs at least an editor key
+router.use(requireRole("editor"));
+
+// ── GET /api/admin/review-queue ─────────────────────────────────────
+// Unverified scholarships, nearest deadline first
+router.get("/review-queue", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as "pending" | "changes_requested" | undefined;
+    if (status && status !== "pending" && status !== "changes_requested") {
+      res.status(400).json({ error: "status must be 'pending' or 'changes_requested'" });
+      return;
+    }
+
+    const result = await getReviewQueue({
+      status,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching review queue:", error.message);
+    res.status(500).json({ error: "Failed to fetch review queue" });
+  }
+});
+
+/**
+ * Build a handler for one review action. Reject and request-changes
+ * must say why; approve may optionally carry field fixes.
+ */
+function reviewHandler(action: ReviewAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const parsed = ReviewDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: "Validation failed",
+          details: parsed.error.flatten(),
+        });
+        return;
+      }
+      if (action !== "approve" && !parsed.data.notes) {
+        res.status(400).json({ error: "Notes are required to explain this decision" });
+        return;
+      }
+
+      const event = await reviewScholarship(id, action, {
+        ...parsed.data,
+        reviewer: req.auth!.name,
+      });
+      if (!event) {
+        res.status(404).json({ error: "Scholarship not found" });
+        return;
+      }
+
+      res.json(event);
+    } catch (error: any) {
+      // Fixes sent with an approval that fail the stored-record checks
+      if (error instanceof ScholarshipValidationError) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+      console.error(`[API] Error recording ${action}:`, error.message);
+      res.status(500).json({ error: "Failed to record review decision" });
+    }
+  };
+}
+
+// ── POST /api/admin/scholarships/:id/approve ────────────────────────
+router.post("/scholarships/:id/approve", reviewHandler("approve"));
+
+// ── POST /api/admin/scholarships/:id/reject ─────────────────────────
+router.post("/scholarships/:id/reject", reviewHandler("reject"));
+
+// ── POST /api/admin/scholarships/:id/request-changes ────────────────
+router.post("/scholarships/:id/request-changes", reviewHandler("request_changes"));
+
+// ── GET /api/admin/scholarships/:id/verification-history ────────────
+router.get("/scholarships/:id/verification-history", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const history = await getVerificationHistory(id);
+    if (!history) {
+      res.status(404).json({ error: "Scholarship not found" });
+      return;
+    }
+
+    res.json(history);
+  } catch (error: any) {
+    console.error("[API] Error fetching verification history:", error.message);
+    res.status(500).json({ error: "Failed to fetch verification history" });
+  }
+});
+
+// ── GET /api/admin/corrections ──────────────────────────────────────
+// List user-submitted corrections (default: pending)
+router.get("/corrections", async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string | undefined) || "pending";
+    if (status !== "pending" && status !== "accepted" && status !== "rejected") {
+      res.status(400).json({ error: "status must be 'pending', 'accepted' or 'rejected'" });
+      return;
+    }
+
+    const result = await listCorrections({
+      status,
+      scholarshipId: req.query.scholarship_id as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching corrections:", error.message);
+    res.status(500).json({ error: "Failed to fetch corrections" });
+  }
+});
+
+// ── GET /api/admin/corrections/:id ──────────────────────────────────
+// Correction with a diff against the live record
+router.get("/corrections/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const diff = await getCorrectionDiff(id);
+    if (!diff) {
+      res.status(404).json({ error: "Correction not found" });
+      return;
+    }
+
+    res.json(diff);
+  } catch (error: any) {
+    console.error("[API] Error fetching correction:", error.message);
+    res.status(500).json({ error: "Failed to fetch correction" });
+  }
+});
+
+/**
+ * Build a handler that accepts or rejects a pending correction.
+ */
+function correctionHandler(decision: "accept" | "reject") {
+  return async (req: Request, res: Response) => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const parsed = ReviewDecisionSchema.pick({ notes: true }).safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: "Validation failed",
+          details: parsed.error.flatten(),
+        });
+        return;
+      }
+
+      const correction = await getCorrectionById(id);
+      if (!correction) {
+        res.status(404).json({ error: "Correction not found" });
+        return;
+      }
+      if (correction.status !== "pending") {
+        res.status(409).json({ error: `Correction already ${correction.status}` });
+        return;
+      }
+
+      const reviewer = req.auth!.name;
+      const { notes } = parsed.data;
+      const result =
+        decision === "accept"
+          ? await acceptCorrection(id, reviewer, notes)
+          : await rejectCorrection(id, reviewer, notes);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ScholarshipValidationError) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+      console.error(`[API] Error trying to ${decision} correction:`, error.message);
+      res.status(500).json({ error: `Failed to ${decision} correction` });
+    }
+  };
+}
+
+// ── POST /api/admin/corrections/:id/accept ──────────────────────────
+router.post("/corrections/:id/accept", correctionHandler("accept"));
+
+// ── POST /api/admin/corrections/:id/reject ──────────────────────────
+router.post("/corrections/:id/reject", correctionHandler("reject"));
+
+// ── GET /api/admin/quarantine ───────────────────────────────────────
+// Candidates rejected during ingestion (default: still quarantined)
+router.get("/quarantine", async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string | undefined) || "quarantined";
+    if (status !== "quarantined" && status !== "promoted") {
+      res.status(400).json({ error: "status must be 'quarantined' or 'promoted'" });
+      return;
+    }
+
+    const result = await listQuarantine({
+      status,
+      rule: req.query.rule as string | undefined,
+      source: req.query.source as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching quarantine:", error.message);
+    res.status(500).json({ error: "Failed to fetch quarantine" });
+  }
+});
+
+// ── GET /api/admin/quarantine/:id ───────────────────────────────────
+router.get("/quarantine/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const candidate = await getQuarantined(id);
+    if (!candidate) {
+      res.status(404).json({ error: "Candidate not found" });
+      return;
+    }
+
+    res.json(candidate);
+  } catch (error: any) {
+    console.error("[API] Error fetching quarantined candidate:", error.message);
+    res.status(500).json({ error: "Failed to fetch candidate" });
+  }
+});
+
+// ── POST /api/admin/quarantine/:id/promote ──────────────────────────
+// Fix fields and store the candidate as a (pending) scholarship
+router.post("/quarantine/:id/promote", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const parsed = PromoteCandidateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const candidate = await getQuarantined(id);
+    if (!candidate) {
+      res.status(404).json({ error: "Candidate not found" });
+      return;
+    }
+    if (candidate.status !== "quarantined") {
+      res.status(409).json({ error: `Candidate already ${candidate.status}` });
+      return;
+    }
+
+    const result = await promoteCandidate(id, parsed.data, req.auth!.name);
+    if (result.status === "invalid") {
+      res.status(400).json({
+        error: "Candidate still fails validation",
+        rule: result.rule,
+        reason: result.reason,
+      });
+      return;
+    }
+    if (result.status === "duplicate") {
+      res.status(409).json({
+        error: "A scholarship with this title and organization already exists",
+        existing_id: result.existing_id,
+      });
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("[API] Error promoting candidate:", error.message);
+    res.status(500).json({ error: "Failed to promote candidate" });
+  }
+});
+
+// ── DELETE /api/admin/quarantine/:id ────────────────────────────────
+// Discard a candidate
+router.delete("/quarantine/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const dismissed = await dismissCandidate(id);
+    if (!dismissed) {
+      res.status(404).json({ error: "Candidate not found" });
+      return;
+    }
+
+    res.json({ message: "Candidate dismissed" });
+  } catch (error: any) {
+    console.error("[API] Error dismissing candidate:", error.message);
+    res.status(500).json({ error: "Failed to dismiss candidate" });
+  }
+});
+
+// ── GET /api/admin/duplicates ───────────────────────────────────────
+// Clusters of records that look like the same award
+router.get("/duplicates", async (req: Request, res: Response) => {
+  try {
+    const clusters = await findDuplicateClusters({
+      minScore: req.query.min_score ? parseFloat(req.query.min_score as string) : 0,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 200)
+        : 50,
+    });
+    res.json({ clusters, total: clusters.length });
+  } catch (error: any) {
+    console.error("[API] Error finding duplicates:", error.message);
+    res.status(500).json({ error: "Failed to find duplicates" });
+  }
+});
+
+// ── POST /api/admin/duplicates/merge ────────────────────────────────
+// Merge records into one, keeping the others as provenance
+router.post("/duplicates/merge", async (req: Request, res: Response) => {
+  try {
+    const parsed = MergeDuplicatesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const { keep_id, merge_ids, fields } = parsed.data;
+    if (merge_ids.includes(keep_id) || new Set(merge_ids).size !== merge_ids.length) {
+      res.status(400).json({ error: "merge_ids must be distinct and must not include keep_id" });
+      return;
+    }
+    const ids = [keep_id, ...merge_ids];
+    const unknownWinner = Object.values(fields ?? {}).find((id) => !ids.includes(id));
+    if (unknownWinner) {
+      res.status(400).json({ error: `Field winner ${unknownWinner} is not one of the merged records` });
+      return;
+    }
+
+    const result = await mergeDuplicates(parsed.data, req.auth!.name);
+    if (!result) {
+      res.status(404).json({ error: "Scholarship not found" });
+      return;
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error merging duplicates:", error.message);
+    res.status(500).json({ error: "Failed to merge duplicates" });
+  }
+});
+
+// ── GET /api/admin/links/broken ─────────────────────────────────────
+// Records whose application link fails or redirects (default: broken)
+router.get("/links/broken", async (req: Request, res: Response) => {
+  try {
+    const status = ((req.query.status as string | undefined) || "broken") as LinkReportStatus;
+    if (!LINK_REPORT_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${LINK_REPORT_STATUSES.join(", ")}` });
+      return;
+    }
+
+    const result = await listBrokenLinks({
+      status,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching broken links:", error.message);
+    res.status(500).json({ error: "Failed to fetch broken links" });
+  }
+});
+
+// ── POST /api/admin/links/check ─────────────────────────────────────
+// Queue the link health check now; track it at /api/jobs/:id
+router.post("/links/check", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const { job, created } = await enqueueJob("link_check", { requestedBy: req.auth!.name });
+    if (!created) {
+      res.status(409).json({ error: `Link health check already ${job.status}`, job_id: job.id, job });
+      return;
+    }
+
+    res.status(202).json({ message: "Link health check queued", job_id: job.id, job });
+  } catch (error: any) {
+    console.error("[API] Error starting link health check:", error.message);
+    res.status(500).json({ error: "Failed to start link health check" });
+  }
+});
+
+// ── GET /api/admin/programs ─────────────────────────────────────────
+// Recurring programs, next expected opening first
+router.get("/programs", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as ProgramStatus | undefined;
+    if (status && !PROGRAM_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${PROGRAM_STATUSES.join(", ")}` });
+      return;
+    }
+
+    const result = await listPrograms({
+      status,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching programs:", error.message);
+    res.status(500).json({ error: "Failed to fetch programs" });
+  }
+});
+
+// ── POST /api/admin/programs/rollover ───────────────────────────────
+// Archive closed cycles now (also runs before every fetch cycle)
+router.post("/programs/rollover", requireRole("admin"), async (_req: Request, res: Response) => {
+  try {
+    const summary = await rolloverExpiredCycles();
+    res.json(summary);
+  } catch (error: any) {
+    console.error("[API] Error rolling over cycles:", error.message);
+    res.status(500).json({ error: "Failed to roll over cycles" });
+  }
+});
+
+// ── GET /api/admin/programs/:id ─────────────────────────────────────
+// A program with all of its cycles
+router.get("/programs/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const program = await getProgram(id);
+    if (!program) {
+      res.status(404).json({ error: "Program not found" });
+      return;
+    }
+
+    res.json(program);
+  } catch (error: any) {
+    console.error("[API] Error fetching program:", error.message);
+    res.status(500).json({ error: "Failed to fetch program" });
+  }
+});
+
+// ── GET /api/admin/query-sets ───────────────────────────────────────
+// Search query sets in rotation order, with per-query yield from the fetch logs
+router.get("/query-sets", async (_req: Request, res: Response) => {
+  try {
+    const sets = await listQuerySets();
+    res.json(sets);
+  } catch (error: any) {
+    console.error("[API] Error fetching query sets:", error.message);
+    res.status(500).json({ error: "Failed to fetch query sets" });
+  }
+});
+
+// ── GET /api/admin/query-sets/:id ───────────────────────────────────
+router.get("/query-sets/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const set = await getQuerySet(id);
+    if (!set) {
+      res.status(404).json({ error: "Query set not found" });
+      return;
+    }
+
+    res.json(set);
+  } catch (error: any) {
+    console.error("[API] Error fetching query set:", error.message);
+    res.status(500).json({ error: "Failed to fetch query set" });
+  }
+});
+
+// ── POST /api/admin/query-sets ──────────────────────────────────────
+router.post("/query-sets", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = QuerySetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const set = await createQuerySet(parsed.data);
+    res.status(201).json(set);
+  } catch (error: any) {
+    if (error.code === 11000) {
+      res.status(409).json({ error: "A query set with this name already exists" });
+      return;
+    }
+    console.error("[API] Error creating query set:", error.message);
+    res.status(500).json({ error: "Failed to create query set" });
+  }
+});
+
+// ── PUT /api/admin/query-sets/:id ───────────────────────────────────
+// Partial update; `queries` replaces the whole list
+router.put("/query-sets/:id", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = UpdateQuerySetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const set = await updateQuerySet(id, parsed.data);
+    if (!set) {
+      res.status(404).json({ error: "Query set not found" });
+      return;
+    }
+
+    res.json(set);
+  } catch (error: any) {
+    if (error.code === 11000) {
+      res.status(409).json({ error: "A query set with this name already exists" });
+      return;
+    }
+    console.error("[API] Error updating query set:", error.message);
+    res.status(500).json({ error: "Failed to update query set" });
+  }
+});
+
+// ── DELETE /api/admin/query-sets/:id ────────────────────────────────
+router.delete("/query-sets/:id", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const deleted = await deleteQuerySet(id);
+    if (!deleted) {
+      res.status(404).json({ error: "Query set not found" });
+      return;
+    }
+
+    res.json({ message: "Query set deleted" });
+  } catch (error: any) {
+    console.error("[API] Error deleting query set:", error.message);
+    res.status(500).json({ error: "Failed to delete query set" });
+  }
+});
+
+// ── GET /api/admin/domains ──────────────────────────────────────────
+// Domain policy rules (block/allow with trust tiers)
+router.get("/domains", async (req: Request, res: Response) => {
+  try {
+    const action = req.query.action as DomainAction | undefined;
+    if (action && !DOMAIN_ACTIONS.includes(action)) {
+      res.status(400).json({ error: `action must be one of: ${DOMAIN_ACTIONS.join(", ")}` });
+      return;
+    }
+
+    const rules = await listDomainRules(action);
+    res.json(rules);
+  } catch (error: any) {
+    console.error("[API] Error fetching domain rules:", error.message);
+    res.status(500).json({ error: "Failed to fetch domain rules" });
+  }
+});
+
+// ── GET /api/admin/domains/check ────────────────────────────────────
+// How the current policy treats a link
+router.get("/domains/check", async (req: Request, res: Response) => {
+  try {
+    const url = req.query.url as string | undefined;
+    if (!url) {
+      res.status(400).json({ error: "url is required" });
+      return;
+    }
+
+    res.json(getDomainVerdict(url));
+  } catch (error: any) {
+    console.error("[API] Error checking domain:", error.message);
+    res.status(500).json({ error: "Failed to check domain" });
+  }
+});
+
+// ── POST /api/admin/domains ─────────────────────────────────────────
+// Add a rule; stored records it blocks are hidden right away
+router.post("/domains", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = DomainRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const result = await createDomainRule(parsed.data, req.auth!.name);
+    res.status(201).json(result);
+  } catch (error: any) {
+    if (error.code === 11000) {
+      res.status(409).json({ error: "A rule for this pattern already exists" });
+      return;
+    }
+    console.error("[API] Error creating domain rule:", error.message);
+    res.status(500).json({ error: "Failed to create domain rule" });
+  }
+});
+
+// ── PUT /api/admin/domains/:id ──────────────────────────────────────
+// Change a rule's action, tier or note
+router.put("/domains/:id", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = UpdateDomainRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const result = await updateDomainRule(id, parsed.data, req.auth!.name);
+    if (!result) {
+      res.status(404).json({ error: "Domain rule not found" });
+      return;
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error updating domain rule:", error.message);
+    res.status(500).json({ error: "Failed to update domain rule" });
+  }
+});
+
+// ── DELETE /api/admin/domains/:id ───────────────────────────────────
+router.delete("/domains/:id", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const result = await deleteDomainRule(id, req.auth!.name);
+    if (!result) {
+      res.status(404).json({ error: "Domain rule not found" });
+      return;
+    }
+
+    res.json({ message: "Domain rule deleted", ...result });
+  } catch (error: any) {
+    console.error("[API] Error deleting domain rule:", error.message);
+    res.status(500).json({ error: "Failed to delete domain rule" });
+  }
+});
+
+// ── GET /api/admin/exchange-rates ───────────────────────────────────
+// Exchange rates used to compare amounts (units per USD)
+router.get("/exchange-rates", async (_req: Request, res: Response) => {
+  try {
+    const rates = await listExchangeRates();
+    res.json(rates);
+  } catch (error: any) {
+    console.error("[API] Error fetching exchange rates:", error.message);
+    res.status(500).json({ error: "Failed to fetch exchange rates" });
+  }
+});
+
+// ── PUT /api/admin/exchange-rates ───────────────────────────────────
+// Set rates; stored yearly USD values are recomputed by a queued
+// amount_normalization job (tracked at /api/jobs/:id)
+router.put("/exchange-rates", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = UpdateExchangeRatesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const rates = await updateExchangeRates(parsed.data.rates, req.auth!.name);
+    // An already queued run picks up the new rates when it starts
+    const { job } = await enqueueJob("amount_normalization", { requestedBy: req.auth!.name });
+    res.json({ rates, job_id: job.id });
+  } catch (error: any) {
+    console.error("[API] Error updating exchange rates:", error.message);
+    res.status(500).json({ error: "Failed to update exchange rates" });
+  }
+});
+
+// ── GET /api/admin/ai/health ────────────────────────────────────────
+// Provider chain order and per-provider health
+router.get("/ai/health", async (_req: Request, res: Response) => {
+  try {
+    const chain = getProviderChain();
+    res.json({
+      primary: chain.provider,
+      fallback: chain.fallbackProviders,
+      providers: getAvailableProviders(),
+    });
+  } catch (error: any) {
+    console.error("[API] Error fetching AI provider health:", error.message);
+    res.status(500).json({ error: "Failed to fetch AI provider health" });
+  }
+});
+
+// ── GET /api/admin/ai/providers ─────────────────────────────────────
+// Registered providers with configured/current status and model
+router.get("/ai/providers", async (_req: Request, res: Response) => {
+  try {
+    res.json(getAvailableProviders());
+  } catch (error: any) {
+    console.error("[API] Error fetching AI providers:", error.message);
+    res.status(500).json({ error: "Failed to fetch AI providers" });
+  }
+});
+
+// ── PUT /api/admin/ai/provider ──────────────────────────────────────
+// Switch the primary provider (until restart)
+router.put("/ai/provider", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = SwitchProviderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const definition = getProviderDefinition(parsed.data.provider);
+    if (!definition) {
+      res.status(404).json({ error: "Provider not found" });
+      return;
+    }
+    if (!definition.isConfigured()) {
+      res.status(409).json({ error: `Provider ${definition.name} is not configured` });
+      return;
+    }
+
+    switchAIProvider(definition.name);
+    console.log(`[API] ${req.auth!.name} switched AI provider to ${definition.name}`);
+    res.json({ message: `Switched to ${definition.name}`, chain: getProviderChain() });
+  } catch (error: any) {
+    console.error("[API] Error switching AI provider:", error.message);
+    res.status(500).json({ error: "Failed to switch AI provider" });
+  }
+});
+
+// ── PUT /api/admin/ai/providers/:name/model ─────────────────────────
+// Set the model a provider uses (until restart)
+router.put("/ai/providers/:name/model", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const name = Array.isArray(req.params.name) ? req.params.name[0] : req.params.name;
+    const parsed = SetProviderModelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+    if (!getProviderDefinition(name)) {
+      res.status(404).json({ error: "Provider not found" });
+      return;
+    }
+
+    setAIProviderModel(name, parsed.data.model);
+    console.log(`[API] ${req.auth!.name} set ${name} model to ${parsed.data.model}`);
+    res.json({ message: `${name} now uses ${parsed.data.model}` });
+  } catch (error: any) {
+    console.error("[API] Error setting AI provider model:", error.message);
+    res.status(500).json({ error: "Failed to set AI provider model" });
+  }
+});
+
+// ── POST /api/admin/ai/providers/:name/test ─────────────────────────
+// Dry run: what this provider would store for a query (nothing is written)
+router.post("/ai/providers/:name/test", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const name = Array.isArray(req.params.name) ? req.params.name[0] : req.params.name;
+    const parsed = TestProviderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const definition = getProviderDefinition(name);
+    if (!definition) {
+      res.status(404).json({ error: "Provider not found" });
+      return;
+    }
+    if (!definition.isConfigured()) {
+      res.status(409).json({ error: `Provider ${name} is not configured` });
+      return;
+    }
+
+    const scholarships = await testAIProvider(name, parsed.data.query);
+    const preview = await previewScholarships(scholarships);
+    res.json({
+      provider: name,
+      query: parsed.data.query,
+      found: scholarships.length,
+      results: preview,
+    });
+  } catch (error: any) {
+    console.error("[API] Error testing AI provider:", error.message);
+    res.status(500).json({ error: "Failed to test AI provider" });
+  }
+});
+
+// ── GET /api/admin/api-keys ─────────────────────────────────────────
+router.get("/api-keys", requireRole("admin"), async (_req: Request, res: Response) => {
+  try {
+    const keys = await listApiKeys();
+    res.json(keys);
+  } catch (error: any) {
+    console.error("[API] Error fetching API keys:", error.message);
+    res.status(500).json({ error: "Failed to fetch API keys" });
+  }
+});
+
+// ── POST /api/admin/api-keys ────────────────────────────────────────
+// Create a key; the plaintext is only returned in this response
+router.post("/api-keys", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const parsed = CreateApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const { key, record } = await createApiKey(
+      parsed.data.name,
+      parsed.data.role,
+      req.auth!.name
+    );
+    res.status(201).json({ ...record, key });
+  } catch (error: any) {
+    console.error("[API] Error creating API key:", error.message);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+// ── DELETE /api/admin/api-keys/:id ──────────────────────────────────
+// Revoke a key
+router.delete("/api-keys/:id", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const revoked = await revokeApiKey(id);
+    if (!revoked) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+
+    res.json({ message: "API key revoked" });
+  } catch (error: any) {
+    console.error("[API] Error revoking API key:", error.message);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
+
+export default router;
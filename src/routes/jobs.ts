@@ -0,0 +1,119 @@
+import { Router, Request, Response } from "express";
+import { cancelJob, getJob, listJobs, retryJob } from "../services/jobService.js";
+import { requireRole } from "../middleware/auth.js";
+import { JOB_STATUSES, JOB_TYPES, JobStatus, JobType } from "../types/index.js";
+
+const router = Router();
+
+// Job status is for editors; cancelling and retrying is admin-only
+router.use(requireRole("editor"));
+
+// ── GET /api/jobs ───────────────────────────────────────────────────
+// Background jobs, newest first
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as JobStatus | undefined;
+    if (status && !JOB_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(", ")}` });
+      return;
+    }
+    const type = req.query.type as JobType | undefined;
+    if (type && !JOB_TYPES.includes(type)) {
+      res.status(400).json({ error: `type must be one of: ${JOB_TYPES.join(", ")}` });
+      return;
+    }
+
+    const result = await listJobs({
+      status,
+      type,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string), 100)
+        : 20,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching jobs:", error.message);
+    res.status(500).json({ error: "Failed to fetch jobs" });
+  }
+});
+
+// ── GET /api/jobs/:id ───────────────────────────────────────────────
+// Status, progress, attempts and result of one job
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const job = await getJob(id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+
+    res.json(job);
+  } catch (error: any) {
+    console.error("[API] Error fetching job:", error.message);
+    res.status(500).json({ error: "Failed to fetch job" });
+  }
+});
+
+// ── POST /api/jobs/:id/cancel ───────────────────────────────────────
+// Queued jobs stop at once, running ones at their next checkpoint
+router.post("/:id/cancel", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const job = await getJob(id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    if (job.status !== "queued" && job.status !== "running") {
+      res.status(409).json({ error: `Job already ${job.status}` });
+      return;
+    }
+
+    const cancelled = await cancelJob(id);
+    if (!cancelled) {
+      res.status(409).json({ error: "Job finished before it could be cancelled" });
+      return;
+    }
+
+    res.json(cancelled);
+  } catch (error: any) {
+    console.error("[API] Error cancelling job:", error.message);
+    res.status(500).json({ error: "Failed to cancel job" });
+  }
+});
+
+// ── POST /api/jobs/:id/retry ────────────────────────────────────────
+// Queue a failed or cancelled job again with fresh attempts
+router.post("/:id/retry", requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const job = await getJob(id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      res.status(409).json({ error: `Only failed or cancelled jobs can be retried (job is ${job.status})` });
+      return;
+    }
+
+    const retried = await retryJob(id);
+    if (!retried) {
+      res.status(409).json({ error: "Job changed status before it could be retried" });
+      return;
+    }
+
+    res.status(202).json(retried);
+  } catch (error: any) {
+    if (error.code === 11000) {
+      res.status(409).json({ error: "Another job of this type is already queued or running" });
+      return;
+    }
+    console.error("[API] Error retrying job:", error.message);
+    res.status(500).json({ error: "Failed to retry job" });
+  }
+});
+
+export default router;
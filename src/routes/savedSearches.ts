@@ -0,0 +1,207 @@
+import { Router, Request, Response, NextFunction } from "express";
+import {
+  createSavedSearch,
+  confirmSavedSearch,
+  getSavedSearch,
+  deleteSavedSearch,
+  unsubscribeSavedSearch,
+  setFollowing,
+} from "../services/savedSearchService.js";
+import { checkWebhookTarget } from "../services/notifications/index.js";
+import {
+  CALENDAR_CONTENT_TYPE,
+  getSavedSearchCalendar,
+  parseCalendarReminders,
+} from "../services/calendarService.js";
+import { requireRole } from "../middleware/auth.js";
+import { CreateSavedSearchSchema } from "../types/index.js";
+
+const router = Router();
+
+/**
+ * Read the manage token from `X-Subscription-Token` or `?token=`
+ * (the query form is what unsubscribe links use).
+ */
+function readToken(req: Request): string | undefined {
+  const header = req.headers["x-subscription-token"];
+  if (header) return Array.isArray(header) ? header[0] : header;
+  return req.query.token as string | undefined;
+}
+
+/**
+ * Webhook subscriptions make the server POST to a caller-chosen URL, so
+ * they need an API key; email subscriptions are public (double opt-in).
+ */
+function requireKeyForWebhooks(req: Request, res: Response, next: NextFunction) {
+  if (req.body?.channel === "webhook") return requireRole("viewer")(req, res, next);
+  next();
+}
+
+// ── POST /api/saved-searches ────────────────────────────────────────
+// Save a filter query and subscribe to it
+router.post("/", requireKeyForWebhooks, async (req: Request, res: Response) => {
+  try {
+    const parsed = CreateSavedSearchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    if (parsed.data.channel === "webhook") {
+      const rejected = await checkWebhookTarget(parsed.data.target);
+      if (rejected) {
+        res.status(400).json({ error: rejected });
+        return;
+      }
+    }
+
+    const { token, record, confirmation_sent } = await createSavedSearch(parsed.data);
+    res.status(201).json({ ...record, token, confirmation_sent });
+  } catch (error: any) {
+    console.error("[API] Error creating saved search:", error.message);
+    res.status(500).json({ error: "Failed to create saved search" });
+  }
+});
+
+// ── GET /api/saved-searches/:id/confirm ─────────────────────────────
+// Double opt-in link from the confirmation email
+router.get("/:id/confirm", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const confirmed = await confirmSavedSearch(id, req.query.token as string | undefined);
+    if (!confirmed) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.json({ message: "Subscription confirmed" });
+  } catch (error: any) {
+    console.error("[API] Error confirming saved search:", error.message);
+    res.status(500).json({ error: "Failed to confirm saved search" });
+  }
+});
+
+/**
+ * Unsubscribe with the token from a message. GET for the link in the
+ * text, POST for one-click unsubscribe from mail clients (RFC 8058).
+ */
+async function unsubscribeHandler(req: Request, res: Response) {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const deleted = await unsubscribeSavedSearch(id, req.query.token as string | undefined);
+    if (!deleted) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.json({ message: "Unsubscribed" });
+  } catch (error: any) {
+    console.error("[API] Error unsubscribing saved search:", error.message);
+    res.status(500).json({ error: "Failed to unsubscribe" });
+  }
+}
+
+// ── GET /api/saved-searches/:id/unsubscribe ─────────────────────────
+router.get("/:id/unsubscribe", unsubscribeHandler);
+
+// ── POST /api/saved-searches/:id/unsubscribe ────────────────────────
+router.post("/:id/unsubscribe", unsubscribeHandler);
+
+// ── GET /api/saved-searches/:id ─────────────────────────────────────
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const search = await getSavedSearch(id, readToken(req));
+    if (!search) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.json(search);
+  } catch (error: any) {
+    console.error("[API] Error fetching saved search:", error.message);
+    res.status(500).json({ error: "Failed to fetch saved search" });
+  }
+});
+
+// ── GET /api/saved-searches/:id/calendar.ics ────────────────────────
+// iCalendar feed of the followed scholarships, subscribable with ?token=
+router.get("/:id/calendar.ics", async (req: Request, res: Response) => {
+  try {
+    const reminders = parseCalendarReminders(req.query.reminders as string | undefined);
+    if (reminders === null) {
+      res.status(400).json({
+        error: "reminders must be up to 5 comma-separated day counts (0–365), or none",
+      });
+      return;
+    }
+
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const calendar = await getSavedSearchCalendar(id, readToken(req), reminders);
+    if (!calendar) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.setHeader("Content-Type", CALENDAR_CONTENT_TYPE);
+    res.setHeader("Content-Disposition", 'inline; filename="saved-search.ics"');
+    res.send(calendar);
+  } catch (error: any) {
+    console.error("[API] Error building saved search calendar:", error.message);
+    res.status(500).json({ error: "Failed to build calendar" });
+  }
+});
+
+// ── DELETE /api/saved-searches/:id ──────────────────────────────────
+// Unsubscribe
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const deleted = await deleteSavedSearch(id, readToken(req));
+    if (!deleted) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.json({ message: "Unsubscribed" });
+  } catch (error: any) {
+    console.error("[API] Error deleting saved search:", error.message);
+    res.status(500).json({ error: "Failed to delete saved search" });
+  }
+});
+
+/**
+ * Build a handler that follows or unfollows a scholarship.
+ */
+function followHandler(follow: boolean) {
+  return async (req: Request, res: Response) => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const scholarshipId = Array.isArray(req.params.scholarshipId)
+        ? req.params.scholarshipId[0]
+        : req.params.scholarshipId;
+      const search = await setFollowing(id, readToken(req), scholarshipId, follow);
+      if (!search) {
+        res.status(404).json({ error: "Saved search or scholarship not found" });
+        return;
+      }
+
+      res.json(search);
+    } catch (error: any) {
+      console.error("[API] Error updating followed scholarships:", error.message);
+      res.status(500).json({ error: "Failed to update followed scholarships" });
+    }
+  };
+}
+
+// ── PUT /api/saved-searches/:id/follow/:scholarshipId ───────────────
+// Get deadline reminders for a scholarship
+router.put("/:id/follow/:scholarshipId", followHandler(true));
+
+// ── DELETE /api/saved-searches/:id/follow/:scholarshipId ────────────
+router.delete("/:id/follow/:scholarshipId", followHandler(false));
+
+export default router;
@@ -1,37 +1,134 @@
-import { Router, Request, Response } from "express";
+import express, { Router, Request, Response } from "express";
 import {
   getScholarships,
   getScholarshipById,
   getFilterOptions,
   getStats,
+  getArchiveStats,
   addScholarship,
   updateScholarship,
   deleteScholarship,
   getFetchLogs,
+  ScholarshipValidationError,
 } from "../services/scholarshipService.js";
-import { InsertScholarshipSchema } from "../types/index.js";
+import { submitCorrection } from "../services/correctionService.js";
+import { getHistory, revertToVersion } from "../services/historyService.js";
+import { matchScholarships } from "../services/matchService.js";
+import { hasExchangeRate } from "../services/amountService.js";
+import {
+  IMPORT_BODY_LIMIT,
+  exportScholarships,
+  importScholarships,
+  readImportFile,
+} from "../services/importExportService.js";
+import { XLSX_CONTENT_TYPE } from "../services/spreadsheet.js";
+import {
+  CALENDAR_CONTENT_TYPE,
+  getListingCalendar,
+  getScholarshipCalendar,
+  parseCalendarReminders,
+} from "../services/calendarService.js";
+import { getFeedSnapshot, renderFeed } from "../services/feedService.js";
+import { requireRole } from "../middleware/auth.js";
+import {
+  ApiFilters,
+  EXPORT_FORMATS,
+  ExportFormat,
+  FEED_FORMATS,
+  FeedFormat,
+  INCLUDE_MODES,
+  IncludeMode,
+  InsertScholarshipSchema,
+  CorrectionSubmissionSchema,
+  StudentProfileSchema,
+} from "../types/index.js";
 
 const router = Router();
 
+/** `include` query parameter, or an error message if it is not a known mode */
+function parseInclude(req: Request): { include?: IncludeMode; error?: string } {
+  const include = req.query.include as IncludeMode | undefined;
+  if (include && !INCLUDE_MODES.includes(include)) {
+    return { error: `include must be one of: ${INCLUDE_MODES.join(", ")}` };
+  }
+  return { include };
+}
+
+/** `currency` query parameter, or an error message if it has no exchange rate */
+function parseCurrency(req: Request): { currency?: string; error?: string } {
+  const currency = (req.query.currency as string | undefined)?.trim().toUpperCase();
+  if (currency && !hasExchangeRate(currency)) {
+    return { error: `No exchange rate for currency: ${currency}` };
+  }
+  return { currency: currency || undefined };
+}
+
+/** Format of an import: `format` query parameter, else from the Content-Type */
+function importFormat(req: Request): ExportFormat | undefined {
+  const format = req.query.format as ExportFormat | undefined;
+  if (format) return EXPORT_FORMATS.includes(format) ? format : undefined;
+  if (req.is("json")) return "json";
+  if (req.is(XLSX_CONTENT_TYPE)) return "xlsx";
+  return "csv";
+}
+
+/** `reminders` query parameter of calendar feeds, or an error message */
+function parseReminders(req: Request): { reminders?: number[]; error?: string } {
+  const reminders = parseCalendarReminders(req.query.reminders as string | undefined);
+  if (reminders === null) {
+    return { error: "reminders must be up to 5 comma-separated day counts (0–365), or none" };
+  }
+  return { reminders };
+}
+
+/** Listing filters shared by the live listing and the archive */
+function parseListFilters(req: Request): ApiFilters {
+  return {
+    country: req.query.country as string | undefined,
+    level: req.query.level as string | undefined,
+    field: req.query.field as string | undefined,
+    category: req.query.category as string | undefined,
+    search: req.query.search as string | undefined,
+    nationality: req.query.nationality as string | undefined,
+    gpa: req.query.gpa ? parseFloat(req.query.gpa as string) : undefined,
+    age: req.query.age ? parseInt(req.query.age as string) : undefined,
+    noLanguageTest: req.query.noLanguageTest as string | undefined,
+    coverage: req.query.coverage
+      ? (req.query.coverage as string).split(",").map((c) => c.trim()).filter(Boolean)
+      : undefined,
+    minAmount: req.query.minAmount ? parseFloat(req.query.minAmount as string) : undefined,
+    fullyFunded: req.query.fullyFunded === "true",
+    page: req.query.page ? parseInt(req.query.page as string) : 1,
+    limit: req.query.limit
+      ? Math.min(parseInt(req.query.limit as string), 100)
+      : 20,
+    sort: req.query.sort as string | undefined,
+    order: req.query.order as "asc" | "desc" | undefined,
+    year: req.query.year ? parseInt(req.query.year as string) : undefined,
+  };
+}
+
 // ── GET /api/scholarships ───────────────────────────────────────────
 // List scholarships with filters, search, pagination
+// (include=expired|only-expired also shows past deadlines;
+// minAmount/fullyFunded filter on the parsed amount, sort=amount
+// sorts on its yearly value, currency picks the display currency)
 router.get("/", async (req: Request, res: Response) => {
   try {
-    const filters = {
-      country: req.query.country as string | undefined,
-      level: req.query.level as string | undefined,
-      field: req.query.field as string | undefined,
-      category: req.query.category as string | undefined,
-      search: req.query.search as string | undefined,
-      page: req.query.page ? parseInt(req.query.page as string) : 1,
-      limit: req.query.limit
-        ? Math.min(parseInt(req.query.limit as string), 100)
-        : 20,
-      sort: req.query.sort as string | undefined,
-      order: (req.query.order as "asc" | "desc") || "asc",
-    };
+    const { include, error } = parseInclude(req);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const { currency, error: currencyError } = parseCurrency(req);
+    if (currencyError) {
+      res.status(400).json({ error: currencyError });
+      return;
+    }
 
-    const result = await getScholarships(filters);
+    const filters = parseListFilters(req);
+    const result = await getScholarships({ ...filters, include, currency });
     res.json(result);
   } catch (error: any) {
     console.error("[API] Error fetching scholarships:", error.message);
@@ -41,9 +138,15 @@ router.get("/", async (req: Request, res: Response) => {
 
 // ── GET /api/scholarships/filters ───────────────────────────────────
 // Get available filter options
-router.get("/filters", async (_req: Request, res: Response) => {
+router.get("/filters", async (req: Request, res: Response) => {
   try {
-    const options = await getFilterOptions();
+    const { include, error } = parseInclude(req);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const options = await getFilterOptions(include);
     res.json(options);
   } catch (error: any) {
     console.error("[API] Error fetching filters:", error.message);
@@ -53,9 +156,15 @@ router.get("/filters", async (_req: Request, res: Response) => {
 
 // ── GET /api/scholarships/stats ─────────────────────────────────────
 // Get dashboard stats
-router.get("/stats", async (_req: Request, res: Response) => {
+router.get("/stats", async (req: Request, res: Response) => {
   try {
-    const stats = await getStats();
+    const { include, error } = parseInclude(req);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const stats = await getStats(include);
     res.json(stats);
   } catch (error: any) {
     console.error("[API] Error fetching stats:", error.message);
@@ -65,7 +174,7 @@ router.get("/stats", async (_req: Request, res: Response) => {
 
 // ── GET /api/scholarships/logs ──────────────────────────────────────
 // Get fetch logs
-router.get("/logs", async (req: Request, res: Response) => {
+router.get("/logs", requireRole("viewer"), async (req: Request, res: Response) => {
   try {
     const limit = req.query?.limit
       ? parseInt(req.query.limit as string)
@@ -78,6 +187,183 @@ router.get("/logs", async (req: Request, res: Response) => {
   }
 });
 
+// ── GET /api/scholarships/archive ───────────────────────────────────
+// Expired scholarships (past cycles), latest deadline first
+router.get("/archive", async (req: Request, res: Response) => {
+  try {
+    const { currency, error } = parseCurrency(req);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const filters = parseListFilters(req);
+    const result = await getScholarships({
+      ...filters,
+      include: "only-expired",
+      currency,
+      // Latest first by default; an explicit sort keeps its own default order
+      order: filters.order || (filters.sort ? undefined : "desc"),
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error fetching archive:", error.message);
+    res.status(500).json({ error: "Failed to fetch archive" });
+  }
+});
+
+// ── GET /api/scholarships/archive/stats ─────────────────────────────
+// Year-over-year number of awards per country and level
+router.get("/archive/stats", async (req: Request, res: Response) => {
+  try {
+    const currentYear = new Date().getUTCFullYear();
+    const to = req.query.to ? parseInt(req.query.to as string) : currentYear;
+    const from = req.query.from ? parseInt(req.query.from as string) : to - 4;
+    if (isNaN(from) || isNaN(to) || from > to || to - from > 20) {
+      res.status(400).json({ error: "from and to must be years, at most 20 apart, with from <= to" });
+      return;
+    }
+
+    const stats = await getArchiveStats({
+      from,
+      to,
+      country: req.query.country as string | undefined,
+      level: req.query.level as string | undefined,
+    });
+    res.json(stats);
+  } catch (error: any) {
+    console.error("[API] Error fetching archive stats:", error.message);
+    res.status(500).json({ error: "Failed to fetch archive stats" });
+  }
+});
+
+// ── GET /api/scholarships/export ────────────────────────────────────
+// Download the listing as CSV, JSON or XLSX (same filters as the list)
+router.get("/export", requireRole("viewer"), async (req: Request, res: Response) => {
+  try {
+    const format = ((req.query.format as string | undefined) || "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+      return;
+    }
+
+    const { include, error } = parseInclude(req);
+    const { currency, error: currencyError } = parseCurrency(req);
+    if (error || currencyError) {
+      res.status(400).json({ error: error || currencyError });
+      return;
+    }
+
+    const filters = parseListFilters(req);
+    const file = await exportScholarships({ ...filters, include, currency }, format);
+    res.setHeader("Content-Type", file.content_type);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.setHeader("X-Total-Count", String(file.total));
+    res.send(file.body);
+  } catch (error: any) {
+    console.error("[API] Error exporting scholarships:", error.message);
+    res.status(500).json({ error: "Failed to export scholarships" });
+  }
+});
+
+// ── POST /api/scholarships/import ───────────────────────────────────
+// Import a CSV, JSON or XLSX file sent as the request body, with a
+// row-level report (dry_run=true only reports what would happen)
+router.post(
+  "/import",
+  requireRole("editor"),
+  express.json({ limit: IMPORT_BODY_LIMIT }),
+  express.text({ type: ["text/csv", "application/csv", "text/plain"], limit: IMPORT_BODY_LIMIT }),
+  express.raw({ type: XLSX_CONTENT_TYPE, limit: IMPORT_BODY_LIMIT }),
+  async (req: Request, res: Response) => {
+    try {
+      const format = importFormat(req);
+      if (!format) {
+        res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+        return;
+      }
+
+      const { rows, error } = readImportFile(format, req.body);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+
+      const report = await importScholarships(rows!, {
+        actor: req.auth!.name,
+        dryRun: req.query.dry_run === "true",
+      });
+      res.json(report);
+    } catch (error: any) {
+      console.error("[API] Error importing scholarships:", error.message);
+      res.status(500).json({ error: "Failed to import scholarships" });
+    }
+  }
+);
+
+// ── GET /api/scholarships/calendar.ics ──────────────────────────────
+// Subscribable iCalendar feed of the deadlines matching the list filters
+router.get("/calendar.ics", async (req: Request, res: Response) => {
+  try {
+    const { include, error } = parseInclude(req);
+    const { reminders, error: remindersError } = parseReminders(req);
+    if (error || remindersError) {
+      res.status(400).json({ error: error || remindersError });
+      return;
+    }
+
+    const calendar = await getListingCalendar({ ...parseListFilters(req), include }, reminders);
+    res.setHeader("Content-Type", CALENDAR_CONTENT_TYPE);
+    res.setHeader("Content-Disposition", 'inline; filename="scholarships.ics"');
+    res.send(calendar);
+  } catch (error: any) {
+    console.error("[API] Error building calendar:", error.message);
+    res.status(500).json({ error: "Failed to build calendar" });
+  }
+});
+
+// ── GET /api/scholarships/feed.:format ──────────────────────────────
+// Recently added or updated scholarships as RSS, Atom or JSON Feed
+// (conditional GET via ETag / Last-Modified)
+router.get("/feed.:format", async (req: Request, res: Response) => {
+  try {
+    const format = req.params.format as FeedFormat;
+    if (!FEED_FORMATS.includes(format)) {
+      res.status(404).json({ error: `Feed format must be one of: ${FEED_FORMATS.join(", ")}` });
+      return;
+    }
+
+    const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string), 100) : 50;
+    if (isNaN(limit) || limit < 1) {
+      res.status(400).json({ error: "limit must be a positive integer" });
+      return;
+    }
+
+    const filters = {
+      country: req.query.country as string | undefined,
+      level: req.query.level as string | undefined,
+      field: req.query.field as string | undefined,
+      category: req.query.category as string | undefined,
+    };
+    const snapshot = await getFeedSnapshot(filters, format, limit);
+    res.setHeader("ETag", snapshot.etag);
+    if (snapshot.last_modified) res.setHeader("Last-Modified", snapshot.last_modified.toUTCString());
+    res.setHeader("Cache-Control", "public, no-cache");
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    const selfUrl = `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+    const feed = renderFeed(format, snapshot, filters, selfUrl);
+    res.setHeader("Content-Type", feed.content_type);
+    res.send(feed.body);
+  } catch (error: any) {
+    console.error("[API] Error building feed:", error.message);
+    res.status(500).json({ error: "Failed to build feed" });
+  }
+});
+
 // ── GET /api/scholarships/:id ───────────────────────────────────────
 // Get single scholarship
 router.get("/:id", async (req: Request, res: Response) => {
@@ -96,9 +382,111 @@ router.get("/:id", async (req: Request, res: Response) => {
   }
 });
 
+// ── GET /api/scholarships/:id/calendar.ics ──────────────────────────
+// Deadline of one scholarship as an iCalendar event
+router.get("/:id/calendar.ics", async (req: Request, res: Response) => {
+  try {
+    const { reminders, error } = parseReminders(req);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const calendar = await getScholarshipCalendar(id, reminders);
+    if (!calendar) {
+      res.status(404).json({ error: "Scholarship not found" });
+      return;
+    }
+
+    res.setHeader("Content-Type", CALENDAR_CONTENT_TYPE);
+    res.setHeader("Content-Disposition", `inline; filename="scholarship-${id}.ics"`);
+    res.send(calendar);
+  } catch (error: any) {
+    console.error("[API] Error building scholarship calendar:", error.message);
+    res.status(500).json({ error: "Failed to build calendar" });
+  }
+});
+
+// ── GET /api/scholarships/:id/history ───────────────────────────────
+// Versioned change history: diff, source and time of every change
+router.get("/:id/history", requireRole("viewer"), async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const history = await getHistory(id);
+    if (!history) {
+      res.status(404).json({ error: "Scholarship not found" });
+      return;
+    }
+
+    res.json(history);
+  } catch (error: any) {
+    console.error("[API] Error fetching scholarship history:", error.message);
+    res.status(500).json({ error: "Failed to fetch scholarship history" });
+  }
+});
+
+// ── POST /api/scholarships/:id/history/:version/revert ──────────────
+// Restore the record as it was after a past version
+router.post(
+  "/:id/history/:version/revert",
+  requireRole("editor"),
+  async (req: Request, res: Response) => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const rawVersion = Array.isArray(req.params.version)
+        ? req.params.version[0]
+        : req.params.version;
+      const version = parseInt(rawVersion);
+      if (isNaN(version) || version < 1) {
+        res.status(400).json({ error: "version must be a positive integer" });
+        return;
+      }
+
+      const result = await revertToVersion(id, version, req.auth!.name);
+      if (!result) {
+        res.status(404).json({ error: "Scholarship or version not found" });
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({
+          error: "Another scholarship already has this title, organization and deadline",
+        });
+        return;
+      }
+      console.error("[API] Error reverting scholarship:", error.message);
+      res.status(500).json({ error: "Failed to revert scholarship" });
+    }
+  }
+);
+
+// ── POST /api/scholarships/match ────────────────────────────────────
+// Rank scholarships for a student profile, with per-criterion reasons
+router.post("/match", async (req: Request, res: Response) => {
+  try {
+    const parsed = StudentProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const result = await matchScholarships(parsed.data);
+    res.json(result);
+  } catch (error: any) {
+    console.error("[API] Error matching scholarships:", error.message);
+    res.status(500).json({ error: "Failed to match scholarships" });
+  }
+});
+
 // ── POST /api/scholarships ──────────────────────────────────────────
 // Add a scholarship manually
-router.post("/", async (req: Request, res: Response) => {
+router.post("/", requireRole("editor"), async (req: Request, res: Response) => {
   try {
     const parsed = InsertScholarshipSchema.safeParse(req.body);
     if (!parsed.success) {
@@ -109,20 +497,64 @@ router.post("/", async (req: Request, res: Response) => {
       return;
     }
 
-    const id = await addScholarship(parsed.data);
+    const id = await addScholarship(parsed.data, { type: "admin", actor: req.auth!.name });
     res.status(201).json({ id, message: "Scholarship added" });
   } catch (error: any) {
+    if (error instanceof ScholarshipValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error("[API] Error adding scholarship:", error.message);
     res.status(500).json({ error: "Failed to add scholarship" });
   }
 });
 
+// ── POST /api/scholarships/:id/corrections ──────────────────────────
+// Report incorrect info (public, reviewed by an admin before applying)
+router.post("/:id/corrections", async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const parsed = CorrectionSubmissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
+    const correction = await submitCorrection(id, parsed.data);
+    if (!correction) {
+      res.status(404).json({ error: "Scholarship not found" });
+      return;
+    }
+
+    res.status(201).json({ id: correction.id, message: "Correction submitted for review" });
+  } catch (error: any) {
+    console.error("[API] Error submitting correction:", error.message);
+    res.status(500).json({ error: "Failed to submit correction" });
+  }
+});
+
 // ── PUT /api/scholarships/:id ───────────────────────────────────────
 // Update a scholarship
-router.put("/:id", async (req: Request, res: Response) => {
+router.put("/:id", requireRole("editor"), async (req: Request, res: Response) => {
   try {
+    // Unknown and review-owned fields (is_verified, evidence, ...) are dropped
+    const parsed = InsertScholarshipSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.error.flatten(),
+      });
+      return;
+    }
+
     const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-    const updated = await updateScholarship(id, req.body);
+    const updated = await updateScholarship(id, parsed.data, {
+      type: "admin",
+      actor: req.auth!.name,
+    });
     if (!updated) {
       res.status(404).json({ error: "Scholarship not found" });
       return;
@@ -130,6 +562,10 @@ router.put("/:id", async (req: Request, res: Response) => {
 
     res.json({ message: "Scholarship updated" });
   } catch (error: any) {
+    if (error instanceof ScholarshipValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error("[API] Error updating scholarship:", error.message);
     res.status(500).json({ error: "Failed to update scholarship" });
   }
@@ -137,7 +573,7 @@ router.put("/:id", async (req: Request, res: Response) => {
 
 // ── DELETE /api/scholarships/:id ────────────────────────────────────
 // Delete a scholarship
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", requireRole("admin"), async (req: Request, res: Response) => {
   try {
     const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const deleted = await deleteScholarship(id);
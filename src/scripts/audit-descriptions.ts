@@ -21,9 +21,20 @@ async function auditDescriptions() {
       issues_found.push(`Short description (${desc.length} chars)`);
     }
     
-    // Check if eligibility criteria is mentioned
-    if (!desc.toLowerCase().includes("eligib") && !desc.toLowerCase().includes("requir") && !desc.toLowerCase().includes("must")) {
-      issues_found.push("No eligibility criteria mentioned");
+    // Check if eligibility criteria is captured (structured, or at least mentioned)
+    const eligibility = s.eligibility || {};
+    const hasStructuredEligibility =
+      (eligibility.allowed_nationalities?.length ?? 0) > 0 ||
+      (eligibility.excluded_nationalities?.length ?? 0) > 0 ||
+      eligibility.min_gpa != null ||
+      (eligibility.language_tests?.length ?? 0) > 0 ||
+      (eligibility.required_documents?.length ?? 0) > 0;
+    if (!hasStructuredEligibility) {
+      if (!desc.toLowerCase().includes("eligib") && !desc.toLowerCase().includes("requir") && !desc.toLowerCase().includes("must")) {
+        issues_found.push("No eligibility criteria mentioned");
+      } else {
+        issues_found.push("Eligibility only in free text (no structured eligibility)");
+      }
     }
     
     // Check if it's too generic
@@ -0,0 +1,95 @@
+/**
+ * Fixture script: runs fetch cycles while recording provider and HTTP
+ * responses, or replays recorded ones with no network access.
+ * Usage: npm run fixtures -- record [batches] | playback
+ *
+ * Recording runs real fetch cycles (live APIs, MongoDB) and saves the
+ * queries each cycle searched. Playback searches exactly those queries
+ * again, from the fixtures only, and runs the results through the same
+ * checks as storeScholarships without touching the query rotation or
+ * the database, so it can run in CI.
+ */
+import { config } from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { connectMongo, disconnectMongo } from "../db/mongo.js";
+import { runFetchCycle } from "../cron/scheduler.js";
+import { runSearchBatchWithAI } from "../services/ai/index.js";
+import { getFixtureDir, listFixtures, type RecordedCycle } from "../services/ai/fixtures.js";
+import {
+  STORE_PIPELINE,
+  checkScholarship,
+  collectRejections,
+  summarizeRejections,
+} from "../services/validation/index.js";
+
+async function record(batches: number): Promise<void> {
+  await connectMongo();
+  for (let i = 0; i < batches; i++) {
+    await runFetchCycle();
+  }
+  await disconnectMongo();
+}
+
+/**
+ * Replay every recorded cycle. Returns false if there was nothing to replay.
+ */
+async function playback(): Promise<boolean> {
+  const cycles = await listFixtures<RecordedCycle>("cycle");
+  if (cycles.length === 0) {
+    console.error(`[FIXTURES] No recorded fetch cycles in ${getFixtureDir()} — run "record" first`);
+    return false;
+  }
+
+  for (const { value: cycle, recorded_at } of cycles) {
+    console.log(
+      `\n[FIXTURES] Cycle recorded ${recorded_at} — ${cycle.query_set ?? "programs"} — ${cycle.queries.length} queries`
+    );
+    const { result, rejections } = await collectRejections(() => runSearchBatchWithAI(cycle.queries));
+
+    // The database-free part of storeScholarships
+    const storeRules: Record<string, number> = {};
+    let storable = 0;
+    for (const s of result) {
+      const outcome = checkScholarship(STORE_PIPELINE, s);
+      if (outcome.valid) storable++;
+      else storeRules[outcome.rule] = (storeRules[outcome.rule] ?? 0) + 1;
+    }
+
+    const summary = summarizeRejections(rejections);
+    console.log(
+      `[FIXTURES] Found ${result.length}, storable ${storable}, rejected ${summary.total} while searching ${JSON.stringify(summary.by_rule)}, ${result.length - storable} before storing ${JSON.stringify(storeRules)}`
+    );
+  }
+  return true;
+}
+
+async function main() {
+  const [mode = "playback", batchArg = "1"] = process.argv.slice(2);
+  if (mode !== "record" && mode !== "playback") {
+    console.error("Usage: npm run fixtures -- record [batches] | playback");
+    process.exit(1);
+  }
+
+  // Read lazily by the AI service, so setting it here is early enough
+  process.env.AI_FIXTURES = mode;
+  console.log(`[FIXTURES] ${mode} — ${getFixtureDir()}\n`);
+
+  if (mode === "record") {
+    await record(Math.max(1, parseInt(batchArg) || 1));
+  } else if (!(await playback())) {
+    process.exit(1);
+  }
+
+  console.log(`\n[FIXTURES] ✓ ${mode} complete`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("[FIXTURES] Fatal error:", err);
+  process.exit(1);
+});
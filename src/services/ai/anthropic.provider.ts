@@ -0,0 +1,119 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { ParsedScholarship } from "../../types/index.js";
+import { AIServiceProvider } from "./types.js";
+import { recordFixture } from "./fixtures.js";
+import {
+  buildPageExtractionPrompt,
+  parseGroundedExtraction,
+} from "./utils.js";
+import { parseScholarshipResponse } from "./parser.js";
+import { SCHOLARSHIP_EXTRACTION_RULES, buildSearchUserPrompt } from "./prompts.js";
+
+// Server-side web search tool. This SDK version only types client tools
+// (which need an input_schema), so search requests use this request type.
+interface WebSearchTool {
+  type: "web_search_20250305";
+  name: "web_search";
+  max_uses?: number;
+}
+
+type WebSearchRequest = Omit<Anthropic.MessageCreateParamsNonStreaming, "tools"> & {
+  tools: WebSearchTool[];
+};
+
+const WEB_SEARCH_TOOL: WebSearchTool = { type: "web_search_20250305", name: "web_search", max_uses: 5 };
+
+export class AnthropicProvider implements AIServiceProvider {
+  private client: Anthropic | null = null;
+
+  constructor(
+    private apiKey: string,
+    private model: string = "claude-sonnet-4-20250514"
+  ) {}
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  /** Concatenate the text blocks of a response (tool-use blocks are skipped) */
+  private static textOf(message: Anthropic.Message): string {
+    return message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim();
+  }
+
+  getProviderName(): string {
+    return "Claude";
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey.length > 0;
+  }
+
+  async searchScholarships(query: string): Promise<ParsedScholarship[]> {
+    const systemPrompt = `You are a scholarship data extractor. You MUST use the web search tool to find real scholarship pages and extract data ONLY from what you find on those pages.
+
+${SCHOLARSHIP_EXTRACTION_RULES}`;
+
+    try {
+      // Same endpoint as messages.create, with the request typed to allow the tool
+      const message = await this.getClient().post<WebSearchRequest, Anthropic.Message>("/v1/messages", {
+        body: {
+          model: this.model,
+          max_tokens: 4096,
+          system: systemPrompt,
+          tools: [WEB_SEARCH_TOOL],
+          messages: [{ role: "user", content: buildSearchUserPrompt(query) }],
+        },
+      });
+
+      const rawText = AnthropicProvider.textOf(message);
+      await recordFixture("search", query, rawText, this);
+      if (!rawText) {
+        console.warn(`[Claude] Empty response for: "${query}"`);
+        return [];
+      }
+      return parseScholarshipResponse(rawText, query, "Claude");
+    } catch (error: any) {
+      console.error(`[Claude] API error for "${query}":`, error.message);
+      throw error;
+    }
+  }
+
+  async extractFromPage(
+    candidate: ParsedScholarship,
+    pageText: string
+  ): Promise<ParsedScholarship | null> {
+    try {
+      const message = await this.getClient().messages.create({
+        model: this.model,
+        max_tokens: 4096,
+        messages: [
+          {
+            role: "user",
+            content: buildPageExtractionPrompt(candidate, pageText),
+          },
+        ],
+      });
+      const rawText = AnthropicProvider.textOf(message);
+      await recordFixture("extract", candidate.link, rawText, this);
+
+      if (!rawText) {
+        console.warn(`[Claude] Empty extraction response for: "${candidate.title}"`);
+        return null;
+      }
+      return parseGroundedExtraction(rawText, candidate, pageText, "Claude");
+    } catch (error: any) {
+      console.error(`[Claude] Extraction error for "${candidate.title}":`, error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { fileURLToPath } from "url";
+import { listFixtures, loadFixture, type RecordedCycle } from "./fixtures.js";
+import { parseScholarshipResponse } from "./parser.js";
+import { PlaybackProvider } from "./playback.provider.js";
+import { runSearchBatch } from "./utils.js";
+import { STORE_PIPELINE, checkScholarship, collectRejections } from "../validation/index.js";
+
+// Regression tests over a recorded fetch cycle: parser, validation, link
+// checks and grounding must keep producing the same outcome for it.
+const FIXTURE_DIR = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..", "..", "..", "fixtures", "sample"
+);
+
+describe("recorded fetch cycle playback", () => {
+  let cycle: RecordedCycle;
+
+  before(async () => {
+    process.env.AI_FIXTURES = "playback";
+    process.env.AI_FIXTURE_DIR = FIXTURE_DIR;
+    // Deadlines are judged as of the recording, not as of today
+    mock.timers.enable({ apis: ["Date"], now: new Date("2026-10-19T12:00:00Z") });
+
+    const cycles = await listFixtures<RecordedCycle>("cycle");
+    assert.equal(cycles.length, 1);
+    cycle = cycles[0].value;
+  });
+
+  after(() => {
+    mock.timers.reset();
+  });
+
+  test("the cycle keeps the queries it searched", () => {
+    assert.equal(cycle.query_set, "Germany masters");
+    assert.deepEqual(cycle.queries, [
+      "fully funded master scholarships germany international students",
+      "phd scholarships netherlands 2027",
+    ]);
+  });
+
+  test("the parser keeps valid entries and records why the others were rejected", async () => {
+    const [query] = cycle.queries;
+    const rawText = await loadFixture<string>("search", query);
+    assert.ok(rawText);
+
+    const { result, rejections } = await collectRejections(async () =>
+      parseScholarshipResponse(rawText, query, "Playback")
+    );
+    assert.deepEqual(
+      result.map((s) => s.organization),
+      ["German Academic Exchange Service (DAAD)", "University of Amsterdam"]
+    );
+    assert.deepEqual(
+      rejections.map((r) => r.rule),
+      ["official_link", "schema"]
+    );
+
+    // Free-text coverage is mapped onto the known items
+    assert.deepEqual(result[0].eligibility?.coverage, ["stipend", "travel", "insurance"]);
+  });
+
+  test("an answer that is not JSON is rejected as json_parse", async () => {
+    const query = cycle.queries[1];
+    const rawText = await loadFixture<string>("search", query);
+    assert.ok(rawText);
+
+    const { result, rejections } = await collectRejections(async () =>
+      parseScholarshipResponse(rawText, query, "Playback")
+    );
+    assert.deepEqual(result, []);
+    assert.deepEqual(
+      rejections.map((r) => [r.rule, r.query]),
+      [["json_parse", query]]
+    );
+  });
+
+  test("the full batch checks links and grounds results in their pages", async () => {
+    const provider = new PlaybackProvider(FIXTURE_DIR);
+    const { result, rejections } = await collectRejections(() =>
+      runSearchBatch(
+        cycle.queries,
+        (q) => provider.searchScholarships(q),
+        provider.getProviderName(),
+        (candidate, pageText) => provider.extractFromPage(candidate, pageText)
+      )
+    );
+
+    assert.deepEqual(
+      rejections.map((r) => r.rule),
+      ["official_link", "schema", "json_parse", "link_unreachable"]
+    );
+    assert.equal(result.length, 1);
+
+    const [daad] = result;
+    assert.equal(daad.link, "https://www.daad.de/en/study-and-research-in-germany/scholarships/epos/");
+    assert.match(daad.description, /at least two years of professional experience/);
+    // Evidence that does not occur in the page text is dropped
+    assert.deepEqual(Object.keys(daad.evidence ?? {}).sort(), ["amount", "deadline"]);
+
+    assert.equal(checkScholarship(STORE_PIPELINE, daad).valid, true);
+  });
+});
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { AIServiceProvider } from "./types.js";
+
+/**
+ * Record/playback fixtures for everything the ingestion pipeline fetches
+ * from the outside world: raw provider answers, link checks and page HTML.
+ *
+ *   AI_FIXTURES=record    — run normally and write every response to disk
+ *   AI_FIXTURES=playback  — answer from disk only; no network calls
+ *   AI_FIXTURE_DIR        — where fixtures live (default: fixtures/ai)
+ *
+ * Fixtures store the raw response, not the parsed result, so replaying
+ * them exercises the current parsers and validation rules.
+ */
+
+export type FixtureMode = "record" | "playback";
+
+/**
+ * search  — raw provider text for a search query
+ * extract — raw provider text for the grounded extraction of a link
+ * link    — result of verifyLinkReachable for a link
+ * page    — raw HTML of a link (null if it was not fetchable HTML)
+ * cycle   — queries a recorded fetch cycle searched, so playback can
+ *           replay exactly those instead of claiming new ones
+ */
+export type FixtureKind = "search" | "extract" | "link" | "page" | "cycle";
+
+/** Value of a `cycle` fixture */
+export interface RecordedCycle {
+  query_set?: string;
+  queries: string[];
+}
+
+export interface Fixture<T = unknown> {
+  kind: FixtureKind;
+  key: string;
+  provider?: string;
+  model?: string;
+  recorded_at: string;
+  value: T;
+}
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/**
+ * One file per key: a readable slug plus a hash so long or similar
+ * queries never collide.
+ */
+function fixturePath(kind: FixtureKind, key: string): string {
+  const slug = key
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 60);
+  const hash = crypto.createHash("sha1").update(key).digest("hex").substring(0, 10);
+  return path.join(getFixtureDir(), kind, `${slug}-${hash}.json`);
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.AI_FIXTURES;
+  return mode === "record" || mode === "playback" ? mode : null;
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.env.AI_FIXTURE_DIR || path.join("fixtures", "ai"));
+}
+
+/**
+ * Write a response to disk when recording; a no-op otherwise.
+ * Recording failures are logged and never break the live call.
+ */
+export async function recordFixture<T>(
+  kind: FixtureKind,
+  key: string,
+  value: T,
+  source?: Pick<AIServiceProvider, "getProviderName" | "getModelName">
+): Promise<void> {
+  if (getFixtureMode() !== "record") return;
+
+  const file = fixturePath(kind, key);
+  const fixture: Fixture<T> = {
+    kind,
+    key,
+    provider: source?.getProviderName(),
+    model: source?.getModelName(),
+    recorded_at: new Date().toISOString(),
+    value,
+  };
+
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+  } catch (error: any) {
+    console.warn(`[Fixtures] Failed to record ${kind} "${key}": ${error.message}`);
+  }
+}
+
+/**
+ * Load a recorded response, or undefined if none was recorded for the key.
+ */
+export async function loadFixture<T>(kind: FixtureKind, key: string): Promise<T | undefined> {
+  try {
+    const raw = await fs.readFile(fixturePath(kind, key), "utf8");
+    return (JSON.parse(raw) as Fixture<T>).value;
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.warn(`[Fixtures] Unreadable ${kind} fixture for "${key}": ${error.message}`);
+    } else {
+      console.warn(`[Fixtures] No ${kind} fixture for "${key}"`);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Every recorded fixture of a kind, oldest recording first.
+ */
+export async function listFixtures<T>(kind: FixtureKind): Promise<Fixture<T>[]> {
+  const dir = path.join(getFixtureDir(), kind);
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const fixtures = await Promise.all(
+    files.map(async (f) => JSON.parse(await fs.readFile(path.join(dir, f), "utf8")) as Fixture<T>)
+  );
+  return fixtures.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+}
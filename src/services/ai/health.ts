@@ -0,0 +1,72 @@
+import { ProviderHealth } from "./types.js";
+
+// Consecutive failures before a provider is skipped
+const FAILURE_THRESHOLD = 3;
+
+// How long a failing provider is skipped before it is tried again
+const COOLDOWN_MS = 10 * 60 * 1000;
+
+type HealthState = Omit<ProviderHealth, "provider" | "configured" | "current" | "model" | "status">;
+
+/**
+ * Tracks call outcomes per provider and decides when a provider should
+ * be skipped by the fallback chain (a simple circuit breaker).
+ * Only errors count as failures; a search that finds nothing is a
+ * successful call.
+ */
+export class ProviderHealthTracker {
+  private states = new Map<string, HealthState>();
+
+  private get(name: string): HealthState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = {
+        consecutive_failures: 0,
+        total_calls: 0,
+        total_failures: 0,
+      };
+      this.states.set(name, state);
+    }
+    return state;
+  }
+
+  recordSuccess(name: string): void {
+    const state = this.get(name);
+    state.total_calls++;
+    state.consecutive_failures = 0;
+    state.last_success_at = new Date().toISOString();
+    state.cooldown_until = undefined;
+  }
+
+  recordFailure(name: string, error: string): void {
+    const state = this.get(name);
+    state.total_calls++;
+    state.total_failures++;
+    state.consecutive_failures++;
+    state.last_failure_at = new Date().toISOString();
+    state.last_error = error;
+    if (state.consecutive_failures >= FAILURE_THRESHOLD) {
+      state.cooldown_until = new Date(Date.now() + COOLDOWN_MS).toISOString();
+    }
+  }
+
+  /**
+   * True if the provider is cooling down after repeated failures
+   */
+  isCoolingDown(name: string): boolean {
+    const until = this.states.get(name)?.cooldown_until;
+    return !!until && new Date(until).getTime() > Date.now();
+  }
+
+  /**
+   * Snapshot of a provider's health
+   */
+  getHealth(name: string): HealthState & { status: ProviderHealth["status"] } {
+    const state = { ...this.get(name) };
+    let status: ProviderHealth["status"] = "unknown";
+    if (this.isCoolingDown(name)) status = "down";
+    else if (state.consecutive_failures > 0) status = "degraded";
+    else if (state.total_calls > 0) status = "healthy";
+    return { ...state, status };
+  }
+}
@@ -1,168 +1,285 @@
 import { ParsedScholarship } from "../../types/index.js";
-import { AIServiceProvider, AIServiceConfig } from "./types.js";
-import { OpenAIProvider } from "./openai.provider.js";
-import { GeminiProvider } from "./gemini.provider.js";
-import { GrokProvider } from "./grok.provider.js";
+import { AIServiceProvider, AIServiceConfig, ProviderHealth } from "./types.js";
+import {
+  createProvider,
+  getProviderDefinition,
+  listProviderDefinitions,
+  registerProvider,
+} from "./registry.js";
+import { ProviderHealthTracker } from "./health.js";
 import { runSearchBatch } from "./utils.js";
+import { getFixtureMode } from "./fixtures.js";
 
 /**
  * AI Service Manager
- * Manages multiple AI providers and allows easy switching between them
+ * Manages multiple AI providers and allows easy switching between them.
+ * Queries go to the primary provider first and fall back through the
+ * configured chain when a provider errors.
  */
 class AIServiceManager {
-  private currentProvider: AIServiceProvider | null = null;
+  private providers = new Map<string, AIServiceProvider>();
+  private modelOverrides = new Map<string, string>();
+  private health = new ProviderHealthTracker();
   private config: AIServiceConfig;
 
   constructor() {
+    // Playback answers from recorded fixtures only; never fall back to a live API
+    if (getFixtureMode() === "playback") {
+      this.config = { provider: "playback", fallbackProviders: [] };
+      this.initializeProvider();
+      return;
+    }
+
     // Load configuration from environment variables
+    const provider = process.env.AI_PROVIDER || "grok";
+    const explicitFallbacks = (process.env.AI_FALLBACK_PROVIDERS || "")
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean);
+
     this.config = {
-      provider: (process.env.AI_PROVIDER as any) || "grok",
-      openaiApiKey: process.env.OPENAI_API_KEY,
-      grokApiKey: process.env.GROK_API_KEY,
-      geminiApiKey: process.env.GEMINI_API_KEY,
+      provider,
+      // Default fallback: every other registered provider that is configured
+      fallbackProviders:
+        explicitFallbacks.length > 0
+          ? explicitFallbacks
+          : listProviderDefinitions()
+              .map((d) => d.name)
+              .filter((name) => name !== provider && name !== "playback"),
     };
 
     this.initializeProvider();
   }
 
   /**
-   * Initialize the provider based on configuration
+   * Initialize every provider in the chain that is configured
    */
   private initializeProvider(): void {
     const { provider } = this.config;
 
-    switch (provider) {
-      case "openai":
-        if (this.config.openaiApiKey) {
-          this.currentProvider = new OpenAIProvider(this.config.openaiApiKey);
-          console.log("[AI Service] ✓ Initialized with OpenAI provider");
-        } else {
-          console.warn("[AI Service] ⚠ OpenAI API key not found");
-        }
-        break;
-
-      case "gemini":
-        if (this.config.geminiApiKey) {
-          this.currentProvider = new GeminiProvider(this.config.geminiApiKey);
-          console.log("[AI Service] ✓ Initialized with Gemini provider");
-        } else {
-          console.warn("[AI Service] ⚠ Gemini API key not found");
-        }
-        break;
-
-      case "grok":
-        if (this.config.grokApiKey) {
-          this.currentProvider = new GrokProvider(this.config.grokApiKey);
-          console.log("[AI Service] ✓ Initialized with Grok provider");
-        } else {
-          console.warn("[AI Service] ⚠ Grok API key not found");
-        }
-        break;
-
-      default:
-        console.error(`[AI Service] ✗ Unknown provider: ${provider}`);
+    if (!getProviderDefinition(provider)) {
+      console.error(`[AI Service] ✗ Unknown provider: ${provider}`);
+    }
+
+    for (const name of this.getChain()) {
+      if (this.providers.has(name)) continue;
+      const instance = createProvider(name, this.modelOverrides.get(name));
+      if (instance) {
+        this.providers.set(name, instance);
+        console.log(`[AI Service] ✓ Initialized ${instance.getProviderName()} provider`);
+      }
     }
 
-    if (!this.currentProvider) {
-      const availableKeys = [];
-      if (this.config.openaiApiKey) availableKeys.push('openai');
-      if (this.config.geminiApiKey) availableKeys.push('gemini');
-      if (this.config.grokApiKey) availableKeys.push('grok');
-      
-      const errorMsg = `[AI Service] Failed to initialize provider: ${provider}. ` +
-        (availableKeys.length > 0 
-          ? `Available providers: ${availableKeys.join(', ')}. Consider switching to one of them in your .env file.`
-          : `No API keys found. Please add an API key to your .env file.`);
-      
-      throw new Error(errorMsg);
+    if (!this.providers.has(provider)) {
+      console.warn(`[AI Service] ⚠ ${provider} is not configured`);
     }
+
+    if (this.providers.size === 0) {
+      const known = listProviderDefinitions().map((d) => d.name);
+      throw new Error(
+        `[AI Service] Failed to initialize provider: ${provider}. ` +
+          `No provider in the chain is configured. Add an API key to your .env file ` +
+          `(registered providers: ${known.join(", ")}).`
+      );
+    }
+
+    console.log(`[AI Service] Provider chain: ${this.getChain().join(" → ")}`);
+  }
+
+  /**
+   * Primary provider followed by the fallbacks, without duplicates
+   */
+  private getChain(): string[] {
+    return Array.from(new Set([this.config.provider, ...this.config.fallbackProviders]));
+  }
+
+  /**
+   * Providers to try, in order. Cooling-down providers go last rather
+   * than being dropped, so a fully degraded chain still makes an attempt.
+   */
+  private getAttemptOrder(): [string, AIServiceProvider][] {
+    // Pick up providers registered or configured after start-up
+    for (const name of this.getChain()) {
+      if (!this.providers.has(name)) {
+        const instance = createProvider(name, this.modelOverrides.get(name));
+        if (instance) this.providers.set(name, instance);
+      }
+    }
+
+    const available = this.getChain()
+      .filter((name) => this.providers.has(name))
+      .map((name) => [name, this.providers.get(name)!] as [string, AIServiceProvider]);
+    return [
+      ...available.filter(([name]) => !this.health.isCoolingDown(name)),
+      ...available.filter(([name]) => this.health.isCoolingDown(name)),
+    ];
   }
 
   /**
    * Switch to a different AI provider
-   * @param provider - The provider to switch to
+   * @param provider - The registered name of the provider to switch to
    */
-  switchProvider(provider: "openai" | "grok" | "gemini"): void {
+  switchProvider(provider: string): void {
+    if (!getProviderDefinition(provider)) {
+      throw new Error(`[AI Service] Unknown provider: ${provider}`);
+    }
+    if (!this.providers.has(provider)) {
+      const instance = createProvider(provider, this.modelOverrides.get(provider));
+      if (!instance) {
+        throw new Error(`[AI Service] Provider ${provider} is not configured`);
+      }
+      this.providers.set(provider, instance);
+    }
+
+    const previous = this.config.provider;
     this.config.provider = provider;
-    this.currentProvider = null;
-    this.initializeProvider();
+    this.config.fallbackProviders = [
+      previous,
+      ...this.config.fallbackProviders.filter((p) => p !== provider && p !== previous),
+    ];
     console.log(`[AI Service] Switched to ${this.getProviderName()} provider`);
   }
 
   /**
-   * Get the current provider instance
+   * Set the model a provider sends requests to. Takes effect immediately;
+   * runtime overrides are not persisted across restarts.
+   * @param provider - The registered name of the provider
+   * @param model - Model identifier, e.g. "gemini-2.5-pro"
+   */
+  setProviderModel(provider: string, model: string): void {
+    if (!getProviderDefinition(provider)) {
+      throw new Error(`[AI Service] Unknown provider: ${provider}`);
+    }
+    this.modelOverrides.set(provider, model);
+
+    // Recreate the instance so the next call uses the new model
+    if (this.providers.has(provider)) {
+      const instance = createProvider(provider, model);
+      if (instance) this.providers.set(provider, instance);
+    }
+    console.log(`[AI Service] ${provider} model set to ${model}`);
+  }
+
+  /**
+   * Run one query through a single provider, including link checks and
+   * the grounded extraction pass, without fallback or health tracking.
+   * Nothing is stored; the caller decides what to do with the results.
+   */
+  async testProvider(provider: string, query: string): Promise<ParsedScholarship[]> {
+    const instance =
+      this.providers.get(provider) ?? createProvider(provider, this.modelOverrides.get(provider));
+    if (!instance) {
+      throw new Error(`[AI Service] Provider ${provider} is unknown or not configured`);
+    }
+
+    return runSearchBatch(
+      [query],
+      (q) => instance.searchScholarships(q),
+      instance.getProviderName(),
+      (candidate, pageText) => instance.extractFromPage(candidate, pageText)
+    );
+  }
+
+  /**
+   * Get the provider currently answering: the first healthy one in the chain
    */
   getProvider(): AIServiceProvider {
-    if (!this.currentProvider) {
+    const first = this.getAttemptOrder()[0];
+    if (!first) {
       throw new Error("[AI Service] No provider initialized");
     }
-    return this.currentProvider;
+    return first[1];
   }
 
   /**
    * Get the name of the current provider
    */
   getProviderName(): string {
-    return this.currentProvider?.getProviderName() || "None";
+    return this.getAttemptOrder()[0]?.[1].getProviderName() || "None";
   }
 
   /**
    * Check if the current provider is configured
    */
   isConfigured(): boolean {
-    return this.currentProvider?.isConfigured() || false;
+    return this.getAttemptOrder()[0]?.[1].isConfigured() || false;
   }
 
   /**
-   * Search for scholarships using the current provider
+   * Search through the provider chain until one answers without an
+   * error. An empty answer is final: the query simply found nothing.
+   * Returns the results and the provider that produced them.
    */
-  async searchScholarships(query: string): Promise<ParsedScholarship[]> {
-    if (!this.currentProvider) {
+  private async searchWithFallback(
+    query: string
+  ): Promise<{ results: ParsedScholarship[]; provider?: AIServiceProvider }> {
+    const attempts = this.getAttemptOrder();
+    if (attempts.length === 0) {
       throw new Error("[AI Service] No provider initialized");
     }
-    return this.currentProvider.searchScholarships(query);
+
+    for (const [name, provider] of attempts) {
+      try {
+        const results = await provider.searchScholarships(query);
+        this.health.recordSuccess(name);
+        return { results, provider };
+      } catch (error: any) {
+        this.health.recordFailure(name, error.message);
+        console.warn(`[AI Service] ${provider.getProviderName()} failed (${error.message}) — trying next provider`);
+      }
+    }
+    console.error(`[AI Service] Every provider failed for "${query}"`);
+    return { results: [] };
   }
 
   /**
-   * Run a batch of search queries
+   * Search for scholarships, falling back through the provider chain
+   * when a provider errors
    */
-  async runSearchBatch(queries: string[]): Promise<ParsedScholarship[]> {
-    if (!this.currentProvider) {
-      throw new Error("[AI Service] No provider initialized");
-    }
+  async searchScholarships(query: string): Promise<ParsedScholarship[]> {
+    return (await this.searchWithFallback(query)).results;
+  }
 
+  /**
+   * Run a batch of search queries. Each result is grounded by the
+   * provider that found it.
+   */
+  async runSearchBatch(queries: string[]): Promise<ParsedScholarship[]> {
+    const foundBy = new Map<ParsedScholarship, AIServiceProvider>();
     return runSearchBatch(
       queries,
-      (query) => this.currentProvider!.searchScholarships(query),
-      this.getProviderName()
+      async (query) => {
+        const { results, provider } = await this.searchWithFallback(query);
+        if (provider) results.forEach((s) => foundBy.set(s, provider));
+        return results;
+      },
+      this.getProviderName(),
+      (candidate, pageText) =>
+        (foundBy.get(candidate) ?? this.getProvider()).extractFromPage(candidate, pageText)
     );
   }
 
   /**
-   * Get available providers and their configuration status
+   * Get registered providers with configuration and health status
    */
-  getAvailableProviders(): {
-    provider: string;
-    configured: boolean;
-    current: boolean;
-  }[] {
-    return [
-      {
-        provider: "openai",
-        configured: !!this.config.openaiApiKey,
-        current: this.config.provider === "openai",
-      },
-      {
-        provider: "gemini",
-        configured: !!this.config.geminiApiKey,
-        current: this.config.provider === "gemini",
-      },
-      {
-        provider: "grok",
-        configured: !!this.config.grokApiKey,
-        current: this.config.provider === "grok",
-      },
-    ];
+  getAvailableProviders(): ProviderHealth[] {
+    return listProviderDefinitions().map((definition) => ({
+      provider: definition.name,
+      configured: definition.isConfigured(),
+      current: this.config.provider === definition.name,
+      model:
+        this.providers.get(definition.name)?.getModelName() ??
+        this.modelOverrides.get(definition.name) ??
+        definition.defaultModel,
+      ...this.health.getHealth(definition.name),
+    }));
+  }
+
+  /**
+   * Get the primary provider and fallback order
+   */
+  getChainConfig(): AIServiceConfig {
+    return { ...this.config, fallbackProviders: [...this.config.fallbackProviders] };
   }
 }
 
@@ -192,9 +309,19 @@ export const runSearchBatchWithAI = (queries: string[]) =>
 
 export const getProviderName = () => getAIService().getProviderName();
 
-export const switchAIProvider = (provider: "openai" | "grok" | "gemini") =>
+export const switchAIProvider = (provider: string) =>
   getAIService().switchProvider(provider);
 
 export const getAvailableProviders = () => getAIService().getAvailableProviders();
 
+export const getProviderChain = () => getAIService().getChainConfig();
+
+export const setAIProviderModel = (provider: string, model: string) =>
+  getAIService().setProviderModel(provider, model);
+
+export const testAIProvider = (provider: string, query: string) =>
+  getAIService().testProvider(provider, query);
+
+export { registerProvider as registerAIProvider };
+
 export const getCurrentProvider = () => getAIService().getProviderName();
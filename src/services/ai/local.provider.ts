@@ -0,0 +1,94 @@
+import OpenAI from "openai";
+import { ParsedScholarship } from "../../types/index.js";
+import { AIServiceProvider } from "./types.js";
+import { recordFixture } from "./fixtures.js";
+import {
+  buildPageExtractionPrompt,
+  parseGroundedExtraction,
+} from "./utils.js";
+import { parseScholarshipResponse } from "./parser.js";
+import { SCHOLARSHIP_EXTRACTION_RULES, buildSearchUserPrompt } from "./prompts.js";
+
+/**
+ * Provider for local OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...).
+ * Local models have no web search, so results rely entirely on link
+ * verification and the grounded page-extraction pass to filter out
+ * anything invented.
+ */
+export class LocalProvider implements AIServiceProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    private baseURL: string,
+    private model: string,
+    private apiKey: string = "local"
+  ) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ baseURL: this.baseURL, apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  private async complete(system: string | null, user: string): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      messages: [
+        ...(system ? [{ role: "system" as const, content: system }] : []),
+        { role: "user" as const, content: user },
+      ],
+    });
+    return completion.choices[0]?.message?.content?.trim() || "";
+  }
+
+  getProviderName(): string {
+    return "Local";
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseURL && !!this.model;
+  }
+
+  async searchScholarships(query: string): Promise<ParsedScholarship[]> {
+    const systemPrompt = `You are a scholarship data extractor. Only return scholarships you are certain exist, with their official page URL.
+
+${SCHOLARSHIP_EXTRACTION_RULES}`;
+
+    try {
+      const rawText = await this.complete(systemPrompt, buildSearchUserPrompt(query));
+      await recordFixture("search", query, rawText, this);
+      if (!rawText) {
+        console.warn(`[Local] Empty response for: "${query}"`);
+        return [];
+      }
+      return parseScholarshipResponse(rawText, query, "Local");
+    } catch (error: any) {
+      console.error(`[Local] API error for "${query}":`, error.message);
+      throw error;
+    }
+  }
+
+  async extractFromPage(
+    candidate: ParsedScholarship,
+    pageText: string
+  ): Promise<ParsedScholarship | null> {
+    try {
+      const rawText = await this.complete(null, buildPageExtractionPrompt(candidate, pageText));
+      await recordFixture("extract", candidate.link, rawText, this);
+      if (!rawText) {
+        console.warn(`[Local] Empty extraction response for: "${candidate.title}"`);
+        return null;
+      }
+      return parseGroundedExtraction(rawText, candidate, pageText, "Local");
+    } catch (error: any) {
+      console.error(`[Local] Extraction error for "${candidate.title}":`, error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { ParsedScholarship } from "../../types/index.js";
+import {
+  PROVIDER_PIPELINE,
+  recordRejection,
+  runPipeline,
+  type ValidationPipeline,
+} from "../validation/index.js";
+import { stripCodeFence } from "./utils.js";
+
+/**
+ * Parse a provider's raw JSON answer into validated scholarships.
+ * Strips code fences, parses the JSON array (or single object) and runs
+ * every entry through the validation pipeline. Shared by all providers.
+ */
+export function parseScholarshipResponse(
+  rawText: string,
+  query: string,
+  providerName: string,
+  pipeline: ValidationPipeline = PROVIDER_PIPELINE
+): ParsedScholarship[] {
+  let items: unknown[];
+  try {
+    const data = JSON.parse(stripCodeFence(rawText));
+    items = Array.isArray(data) ? data : [data];
+  } catch {
+    console.warn(`[${providerName}] Raw (first 400 chars): ${rawText.substring(0, 400)}`);
+    recordRejection({
+      stage: pipeline.name,
+      rule: "json_parse",
+      reason: `Response is not valid JSON for query "${query}"`,
+      source: providerName,
+      query,
+    });
+    return [];
+  }
+
+  const valid = runPipeline(pipeline, items, providerName, query);
+  console.log(
+    `[${providerName}] ${valid.length}/${items.length} passed validation for: "${query.substring(0, 60)}"`
+  );
+  return valid;
+}
@@ -0,0 +1,42 @@
+import { ParsedScholarship } from "../../types/index.js";
+import { AIServiceProvider } from "./types.js";
+import { loadFixture } from "./fixtures.js";
+import { parseGroundedExtraction } from "./utils.js";
+import { parseScholarshipResponse } from "./parser.js";
+
+/**
+ * Answers from recorded fixtures instead of a live API (AI_FIXTURES=playback).
+ * Raw responses go through the same parsers as live ones, so a fetch
+ * cycle can run offline and parser changes can be checked against
+ * real historical outputs.
+ */
+export class PlaybackProvider implements AIServiceProvider {
+  constructor(private fixtureDir: string) {}
+
+  getProviderName(): string {
+    return "Playback";
+  }
+
+  getModelName(): string {
+    return `fixtures:${this.fixtureDir}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async searchScholarships(query: string): Promise<ParsedScholarship[]> {
+    const rawText = await loadFixture<string>("search", query);
+    if (!rawText) return [];
+    return parseScholarshipResponse(rawText, query, "Playback");
+  }
+
+  async extractFromPage(
+    candidate: ParsedScholarship,
+    pageText: string
+  ): Promise<ParsedScholarship | null> {
+    const rawText = await loadFixture<string>("extract", candidate.link);
+    if (!rawText) return null;
+    return parseGroundedExtraction(rawText, candidate, pageText, "Playback");
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Prompt text shared by every provider that searches the web, so the
+ * extraction rules and the JSON template stay the same across them.
+ */
+
+export const SCHOLARSHIP_EXTRACTION_RULES = `ABSOLUTE RULES — violating any of these means the entry must be excluded:
+1. Every field you return MUST come from an official page you found via web search. DO NOT guess, infer, or make up ANY detail.
+2. The "link" field MUST be the URL of the official scholarship/application page on the university or organisation's own website (domain ending in .edu, .ac.uk, .gov, .org, .edu.au, etc.). It must NOT be a scholarship aggregator, social media post, blog, news article, or PDF.
+3. The "deadline" MUST be the exact date stated on the official page. If you cannot find a specific deadline on the page, set it to "2026-12-31" and add "(rolling/unconfirmed)" in the description.
+4. The "description" MUST include ONLY facts stated on the official page: coverage (tuition, stipend amounts, travel, insurance), eligibility requirements (GPA, nationality restrictions, field of study, degree required), required documents, and selection criteria.
+5. The "amount" MUST be the exact figure or range stated on the official page (e.g., "AUD $10,000 per year", "Full tuition + €934/month stipend"). If the page says "varies" or does not state a figure, write "Varies".
+6. If you are not 100% certain a scholarship is real and currently accepting applications, DO NOT include it.
+7. DO NOT include scholarships whose deadlines have already passed.
+8. Return 3-6 scholarships maximum — accuracy is more important than quantity.
+9. The "eligibility" object MUST only contain requirements stated on the official page. Use [] or null for anything the page does not state.
+
+For "level": Bachelor | Master | PhD | Postdoctoral | Any
+For "category": Merit-Based | Need-Based | Research | Sports | Women in STEM | International | Government | Private`;
+
+/**
+ * User prompt asking for scholarships matching a search query
+ */
+export function buildSearchUserPrompt(query: string): string {
+  return `Search the web for: "${query}"
+
+For each real scholarship you find on an OFFICIAL page, extract the data and return a JSON array:
+[
+  {
+    "title": "exact scholarship name from the official page",
+    "organization": "exact university / organisation name",
+    "country": "country",
+    "level": "Bachelor|Master|PhD|Postdoctoral|Any",
+    "field": "field of study or Any",
+    "category": "one of the allowed categories",
+    "deadline": "YYYY-MM-DD exactly as stated on the page",
+    "description": "ONLY facts from the official page: what is covered, eligibility, required documents, selection criteria",
+    "link": "the official page URL you found (NOT an aggregator)",
+    "amount": "exact value from the page",
+    "currency": "USD|EUR|GBP|AUD|CAD|JPY|CNY|KRW|TRY|SEK|NOK|DKK|CHF|NZD|SGD|HKD|INR|Other",
+    "eligibility": {
+      "allowed_nationalities": ["countries whose citizens may apply — [] if open to all"],
+      "excluded_nationalities": ["countries whose citizens may NOT apply"],
+      "min_gpa": "minimum GPA converted to a 4.0 scale as a number, or null",
+      "language_test_required": "true | false | null if the page does not say",
+      "language_tests": [{ "test": "IELTS|TOEFL|...", "min_score": "number or null" }],
+      "min_age": "number or null",
+      "max_age": "number or null",
+      "required_documents": ["documents the page lists"],
+      "coverage": ["tuition|stipend|travel|insurance|accommodation"]
+    }
+  }
+]
+
+Return ONLY the JSON array. No commentary. If you cannot find any qualifying scholarships, return [].`;
+}
@@ -0,0 +1,108 @@
+import { AIServiceProvider, AIProviderDefinition } from "./types.js";
+import { OpenAIProvider } from "./openai.provider.js";
+import { GeminiProvider } from "./gemini.provider.js";
+import { GrokProvider } from "./grok.provider.js";
+import { AnthropicProvider } from "./anthropic.provider.js";
+import { LocalProvider } from "./local.provider.js";
+import { PlaybackProvider } from "./playback.provider.js";
+import { getFixtureDir, getFixtureMode } from "./fixtures.js";
+
+/**
+ * Provider Registry
+ * Maps provider names (as used in AI_PROVIDER / AI_FALLBACK_PROVIDERS)
+ * to factories. New providers register here instead of editing the manager.
+ */
+const registry = new Map<string, AIProviderDefinition>();
+
+/**
+ * Register a provider. Registering an existing name replaces it.
+ */
+export function registerProvider(definition: AIProviderDefinition): void {
+  if (registry.has(definition.name)) {
+    console.warn(`[AI Registry] Replacing provider: ${definition.name}`);
+  }
+  registry.set(definition.name, definition);
+}
+
+/**
+ * Get a registered provider definition by name
+ */
+export function getProviderDefinition(name: string): AIProviderDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * All registered providers, in registration order
+ */
+export function listProviderDefinitions(): AIProviderDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Create a provider instance, or null if it is unknown or not configured
+ * @param model - Model override; the provider's env/default model otherwise
+ */
+export function createProvider(name: string, model?: string): AIServiceProvider | null {
+  const definition = registry.get(name);
+  if (!definition || !definition.isConfigured()) return null;
+  return definition.create(model);
+}
+
+// ── Built-in providers ──────────────────────────────────────────────
+
+registerProvider({
+  name: "openai",
+  defaultModel: "gpt-4o",
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  create: (model) =>
+    new OpenAIProvider(process.env.OPENAI_API_KEY!, model || process.env.OPENAI_MODEL || "gpt-4o"),
+});
+
+registerProvider({
+  name: "gemini",
+  defaultModel: "gemini-2.5-flash",
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  create: (model) =>
+    new GeminiProvider(process.env.GEMINI_API_KEY!, model || process.env.GEMINI_MODEL || "gemini-2.5-flash"),
+});
+
+registerProvider({
+  name: "grok",
+  defaultModel: "grok-beta",
+  isConfigured: () => !!process.env.GROK_API_KEY,
+  create: (model) =>
+    new GrokProvider(process.env.GROK_API_KEY!, model || process.env.GROK_MODEL || "grok-beta"),
+});
+
+registerProvider({
+  name: "anthropic",
+  defaultModel: "claude-sonnet-4-20250514",
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  create: (model) =>
+    new AnthropicProvider(
+      process.env.ANTHROPIC_API_KEY!,
+      model || process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514"
+    ),
+});
+
+// Ollama: LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+// llama.cpp server: LOCAL_LLM_BASE_URL=http://localhost:8080/v1
+registerProvider({
+  name: "local",
+  defaultModel: "llama3.1",
+  isConfigured: () => !!process.env.LOCAL_LLM_BASE_URL && !!process.env.LOCAL_LLM_MODEL,
+  create: (model) =>
+    new LocalProvider(
+      process.env.LOCAL_LLM_BASE_URL!,
+      model || process.env.LOCAL_LLM_MODEL!,
+      process.env.LOCAL_LLM_API_KEY || undefined
+    ),
+});
+
+// Recorded fixtures instead of a live API: AI_FIXTURES=playback
+registerProvider({
+  name: "playback",
+  defaultModel: "fixtures",
+  isConfigured: () => getFixtureMode() === "playback",
+  create: () => new PlaybackProvider(getFixtureDir()),
+});
@@ -8,27 +8,76 @@ export interface AIServiceProvider {
   /**
    * Search for scholarships using the AI model's web search capability
    * @param query - The search query string
-   * @returns Array of parsed scholarships
+   * @returns Array of parsed scholarships; empty if the search found nothing
+   * @throws If the API call fails, so the caller can fall back to another provider
    */
   searchScholarships(query: string): Promise<ParsedScholarship[]>;
 
+  /**
+   * Re-extract a scholarship from the text of its official page only
+   * @param candidate - The scholarship as found by web search
+   * @param pageText - Readable text of the candidate's link
+   * @returns The grounded scholarship with per-field evidence, or null if extraction failed
+   */
+  extractFromPage(
+    candidate: ParsedScholarship,
+    pageText: string
+  ): Promise<ParsedScholarship | null>;
+
   /**
    * Get the name of the provider for logging
    */
   getProviderName(): string;
 
+  /**
+   * Get the model identifier requests are sent to
+   */
+  getModelName(): string;
+
   /**
    * Check if the provider is configured (has valid API key)
    */
   isConfigured(): boolean;
 }
 
+/**
+ * A provider that can be registered with the AI service
+ */
+export interface AIProviderDefinition {
+  /** Name used in AI_PROVIDER / AI_FALLBACK_PROVIDERS, e.g. "openai" */
+  name: string;
+  /** Model used when none is set at runtime or in the environment */
+  defaultModel: string;
+  /** True if the environment has what this provider needs (API key, URL, ...) */
+  isConfigured(): boolean;
+  /** Create a provider instance; only called when configured */
+  create(model?: string): AIServiceProvider;
+}
+
 /**
  * Configuration for the AI service
  */
 export interface AIServiceConfig {
-  provider: "openai" | "grok" | "gemini";
-  openaiApiKey?: string;
-  grokApiKey?: string;
-  geminiApiKey?: string;
+  /** Primary provider */
+  provider: string;
+  /** Providers tried in order when the primary errors or returns nothing */
+  fallbackProviders: string[];
+}
+
+/**
+ * Health of a provider, as tracked by the fallback chain
+ */
+export interface ProviderHealth {
+  provider: string;
+  configured: boolean;
+  current: boolean;
+  model: string;
+  status: "healthy" | "degraded" | "down" | "unknown";
+  consecutive_failures: number;
+  total_calls: number;
+  total_failures: number;
+  last_success_at?: string;
+  last_failure_at?: string;
+  last_error?: string;
+  cooldown_until?: string;
 }
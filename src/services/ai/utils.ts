@@ -1,63 +1,3 @@
-// ── Blocked domains — aggregators, social media, blogs, wikis ───────
-export const BLOCKED_DOMAINS = new Set([
-  // Scholarship aggregators
-  "scholarshiptab.com",
-  "studentscholarships.org",
-  "scholarshipnext.com",
-  "scholaropportunity.com",
-  "scholarships.com",
-  "fastweb.com",
-  "scholarshipowl.com",
-  "scholarshipportal.com",
-  "findaid.org",
-  "internationalscholarships.com",
-  "scholars4dev.com",
-  "afterschool.my",
-  "opportunitiesforafricans.com",
-  "oyaop.com",
-  "aseanop.com",
-  "marj3.com",
-  "opportunitydesk.org",
-  "scholarshipsads.com",
-  "scholarshipscorner.website",
-  "grantfinder.com",
-  "scholarshipslab.com",
-  "uscholarships.us",
-  "scholarshipau.com",
-  "happyfacetravels.com",
-  "worldscholarshipforum.com",
-  "scholarshipscafe.com",
-  "scholarsme.com",
-  "myschoolscholarship.com",
-  // Social media
-  "facebook.com",
-  "twitter.com",
-  "x.com",
-  "linkedin.com",
-  "instagram.com",
-  "youtube.com",
-  "tiktok.com",
-  "reddit.com",
-  "quora.com",
-  "pinterest.com",
-  // Blogs / news / generic
-  "medium.com",
-  "wordpress.com",
-  "blogspot.com",
-  "tumblr.com",
-  "substack.com",
-  "wikipedia.org",
-  "wikidata.org",
-  "bbc.com",
-  "cnn.com",
-  "theguardian.com",
-  // Fake / test
-  "example.com",
-  "example.org",
-  "test.com",
-  "localhost",
-]);
-
 /**
  * Returns true if the link points to an official, direct source.
  */
@@ -68,13 +8,8 @@ export function isOfficialDirectLink(link: string): boolean {
     // Must be http(s)
     if (url.protocol !== "https:" && url.protocol !== "http:") return false;
 
-    const host = url.hostname.toLowerCase().replace(/^www\./, "");
-
-    // Check blocklist
-    const blockedList = Array.from(BLOCKED_DOMAINS);
-    for (const blocked of blockedList) {
-      if (host === blocked || host.endsWith("." + blocked)) return false;
-    }
+    // Aggregators, social media, blogs etc. (admin-managed domain policy)
+    if (getDomainVerdict(link).blocked) return false;
 
     // Reject PDF links (not direct apply pages)
     if (url.pathname.toLowerCase().endsWith(".pdf")) return false;
@@ -87,15 +22,28 @@ export function isOfficialDirectLink(link: string): boolean {
 
 /**
  * Verify a URL actually resolves (returns 2xx or 3xx) with a HEAD request.
- * Times out after 8 seconds.
+ * Times out after 8 seconds. Recorded/replayed when AI_FIXTURES is set.
  */
 export async function verifyLinkReachable(link: string): Promise<boolean> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 8000);
+  if (getFixtureMode() === "playback") {
+    return (await loadFixture<boolean>("link", link)) ?? false;
+  }
 
-    const res = await fetch(link, {
-      method: "HEAD",
+  const ok = await checkLinkReachable(link);
+  await recordFixture("link", link, ok);
+  return ok;
+}
+
+async function checkLinkReachable(link: string): Promise<boolean> {
+  return (await probeLink(link)).ok;
+}
+
+async function requestLink(link: string, method: "HEAD" | "GET"): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 8000);
+  try {
+    return await fetch(link, {
+      method,
       redirect: "follow",
       signal: controller.signal,
       headers: {
@@ -103,54 +51,240 @@ export async function verifyLinkReachable(link: string): Promise<boolean> {
           "Mozilla/5.0 (compatible; ScholarBridge/1.0; +https://scholarbridge.com)",
       },
     });
+  } finally {
     clearTimeout(timeout);
+  }
+}
 
-    // Accept 2xx and 3xx. Some sites return 403 for HEAD so also try GET.
-    if (res.ok || (res.status >= 300 && res.status < 400)) return true;
+/**
+ * Request a URL with HEAD (falling back to GET for servers that reject
+ * HEAD) and report the status code, where redirects ended up and any
+ * network error. 2xx and 3xx count as reachable. Times out after 8
+ * seconds per request.
+ */
+export async function probeLink(link: string): Promise<LinkProbe> {
+  try {
+    let res = await requestLink(link, "HEAD");
+    let ok = res.ok || (res.status >= 300 && res.status < 400);
 
     // Retry with GET for servers that reject HEAD
     if (res.status === 403 || res.status === 405) {
-      const controller2 = new AbortController();
-      const timeout2 = setTimeout(() => controller2.abort(), 8000);
-      const res2 = await fetch(link, {
-        method: "GET",
-        redirect: "follow",
-        signal: controller2.signal,
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (compatible; ScholarBridge/1.0; +https://scholarbridge.com)",
-        },
-      });
-      clearTimeout(timeout2);
+      res = await requestLink(link, "GET");
       // Consume body to avoid leak
-      await res2.text().catch(() => {});
-      return res2.ok;
+      await res.text().catch(() => {});
+      ok = res.ok;
     }
 
-    return false;
+    return {
+      ok,
+      status_code: res.status,
+      final_url: res.redirected && res.url !== link ? res.url : undefined,
+    };
+  } catch (error: any) {
+    // Network error / timeout
+    return {
+      ok: false,
+      error: error.name === "AbortError" ? "Timed out" : error.cause?.code ?? error.message,
+    };
+  }
+}
+
+/**
+ * Return the contents of the first ``` code fence, or the text as-is.
+ * Models often wrap JSON answers in fences despite being told not to.
+ */
+export function stripCodeFence(rawText: string): string {
+  const match = rawText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return match ? match[1].trim() : rawText;
+}
+
+// ── Source page fetching & grounded extraction ──────────────────────
+
+// Cap on page text sent to the extraction pass (keeps prompts affordable)
+const MAX_PAGE_TEXT_CHARS = 20000;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&euro;": "€",
+  "&pound;": "£",
+  "&ndash;": "–",
+  "&mdash;": "—",
+};
+
+/**
+ * Reduce an HTML document to its readable text.
+ * Drops scripts, styles and page chrome (nav/header/footer), keeps
+ * block structure as line breaks and decodes common entities.
+ */
+export function extractReadableText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|head|nav|footer|header|form|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/section|\/article)[^>]*>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n• ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCharCode(Number(code)))
+    .replace(/&[a-z]+;/gi, (entity) => HTML_ENTITIES[entity.toLowerCase()] ?? " ")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+/**
+ * Download a page and return its readable text, or null if it
+ * cannot be fetched or is not HTML. Times out after 15 seconds.
+ * The raw HTML is recorded/replayed when AI_FIXTURES is set.
+ */
+export async function fetchPageText(link: string): Promise<string | null> {
+  let html: string | null | undefined;
+  if (getFixtureMode() === "playback") {
+    html = await loadFixture<string | null>("page", link);
+  } else {
+    html = await fetchPageHtml(link);
+    await recordFixture("page", link, html);
+  }
+  if (!html) return null;
+
+  const text = extractReadableText(html);
+  return text.length > 0 ? text.substring(0, MAX_PAGE_TEXT_CHARS) : null;
+}
+
+async function fetchPageHtml(link: string): Promise<string | null> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 15000);
+
+    const res = await fetch(link, {
+      method: "GET",
+      redirect: "follow",
+      signal: controller.signal,
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (compatible; ScholarBridge/1.0; +https://scholarbridge.com)",
+        Accept: "text/html,application/xhtml+xml",
+      },
+    });
+    clearTimeout(timeout);
+
+    const contentType = res.headers.get("content-type") || "";
+    if (!res.ok || !contentType.includes("html")) {
+      await res.text().catch(() => {});
+      return null;
+    }
+
+    return await res.text();
   } catch {
-    // Network error / timeout — reject
-    return false;
+    return null;
   }
 }
 
+/**
+ * Prompt for the second, evidence-grounded extraction pass.
+ * The model only sees the official page text, never the web.
+ */
+export function buildPageExtractionPrompt(
+  candidate: ParsedScholarship,
+  pageText: string
+): string {
+  return `You are given the readable text of an official scholarship page (${candidate.link}).
+Extract the details of "${candidate.title}" (${candidate.organization}) using ONLY this text.
+
+RULES:
+1. Use ONLY facts that appear in the PAGE TEXT below. Do not use prior knowledge.
+2. For every field you fill, add an entry to "evidence" with the exact sentence or phrase, copied verbatim from the page text, that supports it.
+3. If the page text does not state a field, keep the value given in CANDIDATE and leave that field out of "evidence".
+4. The "description" must only summarise coverage, eligibility, required documents and selection criteria stated in the page text.
+
+CANDIDATE (from web search, may be wrong):
+${JSON.stringify(candidate, null, 2)}
+
+Return ONE JSON object with the same fields as CANDIDATE plus:
+  "evidence": { "<field name>": "verbatim quote from the page text", ... }
+
+Return ONLY the JSON object. No commentary.
+
+PAGE TEXT:
+"""
+${pageText}
+"""`;
+}
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parse the grounded extraction response and keep only evidence
+ * snippets that really occur in the page text. Returns null when the
+ * response is unusable, in which case the candidate is kept as-is.
+ */
+export function parseGroundedExtraction(
+  rawText: string,
+  candidate: ParsedScholarship,
+  pageText: string,
+  providerName: string
+): ParsedScholarship | null {
+  let data: any;
+  try {
+    data = JSON.parse(stripCodeFence(rawText));
+  } catch {
+    console.warn(`[${providerName}] [Grounding] JSON parse failed for "${candidate.title}"`);
+    return null;
+  }
+
+  // The link was verified already; never let the second pass change it
+  const result = ParsedScholarshipSchema.safeParse({ ...data, link: candidate.link });
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => i.message).join("; ");
+    console.warn(`[${providerName}] [Grounding] Zod failed for "${candidate.title}": ${issues}`);
+    return null;
+  }
+
+  const page = normalizeForMatch(pageText);
+  const evidence: Record<string, string> = {};
+  for (const [field, snippet] of Object.entries(result.data.evidence ?? {})) {
+    if (typeof snippet === "string" && snippet.trim() && page.includes(normalizeForMatch(snippet))) {
+      evidence[field] = snippet.trim();
+    } else {
+      console.warn(`[${providerName}] [Grounding] Unverifiable evidence for "${field}" — "${candidate.title}"`);
+    }
+  }
+
+  return { ...result.data, evidence };
+}
+
 /**
  * Batch runner with link verification
  * Run a full search batch. After collecting results from all queries,
- * verify each link is reachable before returning.
+ * verify each link is reachable before returning. When an extraction
+ * function is given, each verified page is downloaded and re-extracted
+ * from its own text so every field can carry a source snippet.
  */
 export async function runSearchBatch(
   queries: string[],
   searchFunction: (query: string) => Promise<ParsedScholarship[]>,
-  providerName: string
+  providerName: string,
+  extractFunction?: (
+    candidate: ParsedScholarship,
+    pageText: string
+  ) => Promise<ParsedScholarship | null>
 ): Promise<ParsedScholarship[]> {
   const allResults: ParsedScholarship[] = [];
+  const queryOf = new Map<ParsedScholarship, string>();
 
   for (const query of queries) {
     const results = await searchFunction(query);
     allResults.push(...results);
-    // Rate-limit gap
-    await new Promise((r) => setTimeout(r, 2000));
+    results.forEach((s) => queryOf.set(s, query));
+    // Rate-limit gap (nothing to rate-limit when replaying fixtures)
+    if (getFixtureMode() !== "playback") {
+      await new Promise((r) => setTimeout(r, 2000));
+    }
   }
 
   // ── Verify links actually resolve ─────────────────────────────
@@ -167,9 +301,16 @@ export async function runSearchBatch(
       batch.map(async (s) => {
         const ok = await verifyLinkReachable(s.link);
         if (!ok) {
-          console.warn(
-            `[${providerName}] [LinkCheck] DEAD link — ${s.link} — "${s.title}"`
-          );
+          recordRejection({
+            stage: "link_check",
+            rule: "link_unreachable",
+            reason: `Link did not resolve: ${s.link}`,
+            source: providerName,
+            query: queryOf.get(s),
+            title: s.title,
+            link: s.link,
+            candidate: s,
+          });
         }
         return { scholarship: s, ok };
       })
@@ -182,7 +323,36 @@ export async function runSearchBatch(
   console.log(
     `[${providerName}] [LinkCheck] ${verified.length}/${allResults.length} links verified OK`
   );
-  return verified;
+
+  if (!extractFunction) return verified;
+
+  // ── Ground each scholarship in its official page ──────────────
+  const grounded: ParsedScholarship[] = [];
+  for (const candidate of verified) {
+    const pageText = await fetchPageText(candidate.link);
+    if (!pageText) {
+      console.warn(`[${providerName}] [Grounding] No page text — ${candidate.link}`);
+      grounded.push(candidate);
+      continue;
+    }
+
+    try {
+      const extracted = await extractFunction(candidate, pageText);
+      grounded.push(extracted ?? candidate);
+    } catch (error: any) {
+      console.warn(`[${providerName}] [Grounding] Extraction failed for "${candidate.title}": ${error.message}`);
+      grounded.push(candidate);
+    }
+  }
+
+  const withEvidence = grounded.filter((s) => s.evidence && Object.keys(s.evidence).length > 0).length;
+  console.log(
+    `[${providerName}] [Grounding] ${withEvidence}/${grounded.length} scholarships grounded in page text`
+  );
+  return grounded;
 }
 
-import { ParsedScholarship } from "../../types/index.js";
+import { LinkProbe, ParsedScholarship, ParsedScholarshipSchema } from "../../types/index.js";
+import { getFixtureMode, loadFixture, recordFixture } from "./fixtures.js";
+import { recordRejection } from "../validation/collector.js";
+import { getDomainVerdict } from "../domainPolicyService.js";
@@ -0,0 +1,190 @@
+/**
+ * Parses the free-text `amount` of a scholarship ("Full tuition +
+ * €934/month stipend", "Up to AUD $10,000 per year") into components
+ * with a value or range, a period and what they cover.
+ */
+import type {
+  AmountComponent,
+  AmountComponentType,
+  AmountCoverage,
+  AmountPeriod,
+} from "../types/index.js";
+
+export interface ParsedAmount {
+  components: AmountComponent[];
+  coverage: AmountCoverage;
+  fully_funded: boolean;
+}
+
+const DOLLAR_CURRENCIES = ["USD", "AUD", "CAD", "NZD", "SGD", "HKD"];
+const KRONA_CURRENCIES = ["SEK", "NOK", "DKK"];
+
+// Currency markers, most specific first; null = depends on the record's currency
+const CURRENCY_MARKERS: [RegExp, string | null][] = [
+  [/\b(?:AUD|AU\$|A\$)/i, "AUD"],
+  [/\b(?:CAD|CA\$|C\$)/i, "CAD"],
+  [/\b(?:NZD|NZ\$)/i, "NZD"],
+  [/\b(?:SGD|S\$)/i, "SGD"],
+  [/\b(?:HKD|HK\$)/i, "HKD"],
+  [/\b(?:USD|US\$)/i, "USD"],
+  [/€|\bEUR\b|\beuros?\b/i, "EUR"],
+  [/£|\bGBP\b|\bpounds?\b/i, "GBP"],
+  [/\b(?:CNY|RMB|yuan)\b/i, "CNY"],
+  [/¥|\bJPY\b|\byen\b/i, "JPY"],
+  [/₩|\bKRW\b|\bwon\b/i, "KRW"],
+  [/₺|\bTRY\b|\blira\b/i, "TRY"],
+  [/₹|\bINR\b|\brupees?\b/i, "INR"],
+  [/\bCHF\b|\bfrancs?\b/i, "CHF"],
+  [/\bSEK\b/i, "SEK"],
+  [/\bNOK\b/i, "NOK"],
+  [/\bDKK\b/i, "DKK"],
+  [/\bkr\b/i, null],
+  [/\$/, null],
+];
+
+// 10,000 · 10 000 · 1.200 (thousands) · 1.5 · 934 — optionally with k / thousand / million
+const NUMBER = String.raw`(\d{1,3}(?:[,.\s]\d{3})+|\d+)(?:[.,](\d{1,2}))?(?!\d)\s*(k\b|thousand\b|million\b|m\b|mn\b)?`;
+const RANGE = new RegExp(`${NUMBER}(?:\\s*(?:-|–|—|to)\\s*(?:[^\\d\\s]{1,4}\\s?)?${NUMBER})?`, "gi");
+
+const PER_MONTH = /(?:per|a|\/|each)\s*month|monthly|\/\s?mo\b|\bp\.?\s?m\.?(?=\s|$)/i;
+const PER_YEAR = /(?:per|a|\/|each)\s*(?:year|annum)|annual(?:ly)?|yearly|\/\s?yr\b|\bp\.?\s?a\.?(?=\s|$)/i;
+const PER_TERM = /(?:per|a|\/|each)\s*(?:semester|term)/i;
+
+const FULL_TUITION = /full(?:y)?[\s-]*(?:tuition|fees?)|tuition[\s-]*(?:fees?\s*)?(?:waiver|exemption|covered)|100\s*%\s*(?:of\s+)?tuition|all\s+tuition/i;
+const PARTIAL_TUITION = /partial\s+tuition|tuition\s+(?:reduction|discount)|\d{1,2}\s*%\s*(?:of\s+)?(?:the\s+)?tuition/i;
+const STIPEND = /stipend|allowance|living|salary|maintenance|subsistence/i;
+const FULLY_FUNDED = /fully[\s-]*funded|full[\s-]*(?:scholarship|funding|ride)|all\s+(?:expenses|costs)\s+(?:paid|covered)|covers\s+all\s+costs/i;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Split on "+", ";", "plus", "and" and on commas that are not thousands separators */
+function splitSegments(amount: string): string[] {
+  return amount
+    .split(/\s*(?:\+|;|\bplus\b|\band\b|,(?!\d{3}))\s*/i)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function currencyOf(segment: string, fallback?: string): string | undefined {
+  for (const [pattern, code] of CURRENCY_MARKERS) {
+    if (!pattern.test(segment)) continue;
+    if (code) return code;
+    const krona = /kr/i.test(segment);
+    if (krona) return fallback && KRONA_CURRENCIES.includes(fallback) ? fallback : "SEK";
+    return fallback && DOLLAR_CURRENCIES.includes(fallback) ? fallback : "USD";
+  }
+  return undefined;
+}
+
+function toNumber(whole: string, fraction: string | undefined, scale: string | undefined): number {
+  let value = parseFloat(`${whole.replace(/[,.\s]/g, "")}.${fraction ?? "0"}`);
+  const unit = scale?.toLowerCase();
+  if (unit === "k" || unit === "thousand") value *= 1000;
+  if (unit === "m" || unit === "mn" || unit === "million") value *= 1000000;
+  return value;
+}
+
+/**
+ * Money values in a segment. Numbers need a currency (a marker or the
+ * record's); years (2026), percentages and small counts ("2 years") are
+ * skipped.
+ */
+function valuesOf(segment: string, hasCurrency: boolean): { min?: number; max?: number } | null {
+  const values: number[] = [];
+  for (const m of segment.matchAll(RANGE)) {
+    const first = toNumber(m[1], m[2], m[3]);
+    const second = m[4] ? toNumber(m[4], m[5], m[6]) : undefined;
+    const isYear = !m[3] && /^(19|20)\d{2}$/.test(m[1]) && !m[2];
+    const before = segment.slice(0, m.index).trimEnd();
+    if (isYear || /%\s*$/.test(segment.slice(m.index! + m[0].length, m.index! + m[0].length + 2))) continue;
+    if (first < 50 && !m[3] && !/[€£$¥₩₺₹]\s*$/.test(before)) continue;
+    if (!hasCurrency) continue;
+    values.push(first);
+    if (second !== undefined) values.push(second);
+  }
+  if (values.length === 0) return null;
+
+  const upTo = /\bup\s+to\b|\bmax(?:imum)?\b|\bas\s+much\s+as\b/i.test(segment);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return upTo ? { max } : { min, max };
+}
+
+function periodOf(segment: string): { period: AmountPeriod; factor: number } {
+  if (PER_MONTH.test(segment)) return { period: "per_month", factor: 1 };
+  if (PER_YEAR.test(segment)) return { period: "per_year", factor: 1 };
+  // Two semesters or terms make a year
+  if (PER_TERM.test(segment)) return { period: "per_year", factor: 2 };
+  return { period: "one_off", factor: 1 };
+}
+
+function parseSegment(segment: string, fallbackCurrency?: string): AmountComponent | null {
+  const currency = currencyOf(segment, fallbackCurrency);
+  const hasCurrency = !!currency || !!fallbackCurrency;
+  const values = valuesOf(segment, hasCurrency);
+  const { period, factor } = periodOf(segment);
+  const percent = segment.match(/(\d{1,3})\s*%/);
+
+  let type: AmountComponentType | null = null;
+  if (FULL_TUITION.test(segment) || (percent && Number(percent[1]) >= 100 && /tuition/i.test(segment))) {
+    type = "full_tuition";
+  } else if (PARTIAL_TUITION.test(segment) || (/tuition/i.test(segment) && values)) {
+    type = "partial_tuition";
+  } else if (/tuition/i.test(segment)) {
+    // "Tuition fees" / "covers tuition" with no amount or share: all of it
+    type = "full_tuition";
+  } else if (STIPEND.test(segment) || (values && period === "per_month")) {
+    type = "stipend";
+  } else if (values) {
+    type = "award";
+  }
+  if (!type) return null;
+
+  const component: AmountComponent = { type, period };
+  if (values) {
+    if (values.min !== undefined) component.min = values.min * factor;
+    if (values.max !== undefined) component.max = values.max * factor;
+    component.currency = currency ?? fallbackCurrency;
+  }
+  if (percent && /tuition/i.test(segment)) component.percent = Math.min(Number(percent[1]), 100);
+  return component;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Parse a free-text amount. `currency` is the record's currency, used
+ * for bare numbers and for "$" / "kr". `coverageItems` are the
+ * eligibility coverage items; tuition plus stipend counts as fully
+ * funded even when the text does not say so.
+ */
+export function parseAmount(
+  amount: string | undefined,
+  currency?: string,
+  coverageItems: string[] = []
+): ParsedAmount {
+  const text = (amount ?? "").trim();
+  const fallback = currency && currency !== "Other" ? currency : undefined;
+  const components = /^(varies|n\/?a|not specified|-)?$/i.test(text)
+    ? []
+    : splitSegments(text)
+        .map((segment) => parseSegment(segment, fallback))
+        .filter((c): c is AmountComponent => c !== null);
+
+  const has = (type: AmountComponentType) => components.some((c) => c.type === type);
+  const fully_funded =
+    FULLY_FUNDED.test(text) ||
+    (has("full_tuition") && has("stipend")) ||
+    (coverageItems.includes("tuition") && coverageItems.includes("stipend"));
+
+  const coverage: AmountCoverage =
+    has("full_tuition") || fully_funded
+      ? "full_tuition"
+      : has("partial_tuition") || has("award")
+        ? "partial"
+        : has("stipend")
+          ? "stipend"
+          : "unknown";
+
+  return { components, coverage, fully_funded };
+}
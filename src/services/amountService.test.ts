@@ -0,0 +1,83 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { ExchangeRate } from "../db/ExchangeRate.js";
+import {
+  describeAmount,
+  normalizeAmount,
+  refreshExchangeRates,
+  toUsd,
+  updateExchangeRates,
+} from "./amountService.js";
+
+/** Stand-in for a mongoose query: resolves to `result` */
+function query<T>(result: T): any {
+  const q: any = { sort: () => q, lean: async () => result };
+  return q;
+}
+
+describe("yearly amounts", () => {
+  test("monthly payments count twelve times towards the yearly value", () => {
+    const details = describeAmount({ amount: "$1,000 per month", currency: "USD" });
+    assert.equal(details.annual_usd, 12000);
+    assert.equal(details.one_off_usd, undefined);
+  });
+
+  test("a one-off grant is kept out of the yearly value", () => {
+    const details = describeAmount({ amount: "One-time grant of $10,000", currency: "USD" });
+    assert.equal(details.annual_usd, undefined);
+    assert.equal(details.one_off_usd, 10000);
+    assert.deepEqual(normalizeAmount(details, "USD"), {
+      annual_min: undefined,
+      annual_max: undefined,
+      one_off_min: 10000,
+      one_off_max: 10000,
+      currency: "USD",
+    });
+  });
+
+  test("recurring and one-off parts are valued separately", () => {
+    const details = describeAmount({
+      amount: "$1,000 per month stipend; $2,000 travel grant",
+      currency: "USD",
+    });
+    assert.equal(details.annual_usd, 12000);
+    assert.equal(details.one_off_usd, 2000);
+  });
+});
+
+describe("exchange-rate reloads", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test("a write reloads the rates even while an older load is pending", async () => {
+    let stored = [{ currency: "EUR", per_usd: 0.5, updated_at: new Date() }];
+    let releaseFirstRead!: () => void;
+    const firstRead = new Promise<void>((resolve) => (releaseFirstRead = resolve));
+    let firstReadStarted!: () => void;
+    const readStarted = new Promise<void>((resolve) => (firstReadStarted = resolve));
+    let reads = 0;
+
+    mock.method(ExchangeRate, "estimatedDocumentCount", async () => 1);
+    mock.method(ExchangeRate, "find", () => {
+      const snapshot = stored;
+      // The first load reads the rates before the write, then stalls
+      if (++reads === 1) {
+        firstReadStarted();
+        return { lean: () => firstRead.then(() => snapshot) };
+      }
+      return query(snapshot);
+    });
+    mock.method(ExchangeRate, "bulkWrite", async () => {
+      await readStarted;
+      stored = [{ currency: "EUR", per_usd: 0.8, updated_at: new Date() }];
+    });
+
+    const pending = refreshExchangeRates();
+    const updating = updateExchangeRates({ EUR: 0.8 }, "admin");
+    releaseFirstRead();
+    await Promise.all([pending, updating]);
+
+    assert.equal(toUsd(8, "EUR"), 10);
+  });
+});
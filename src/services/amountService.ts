@@ -0,0 +1,337 @@
+import mongoose from "mongoose";
+import { ExchangeRate } from "../db/ExchangeRate.js";
+import { Scholarship } from "../db/Scholarship.js";
+import { parseAmount } from "./amountParser.js";
+import type { JobContext } from "./jobService.js";
+import type {
+  AmountDetails,
+  ExchangeRateRecord,
+  NormalizedAmount,
+} from "../types/index.js";
+
+/**
+ * Seed rates (units per USD), stored the first time the collection is
+ * empty and used until the stored ones are loaded. Approximate; keep
+ * them current through the admin API.
+ */
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  AUD: 1.52,
+  CAD: 1.37,
+  JPY: 150,
+  CNY: 7.2,
+  KRW: 1350,
+  TRY: 34,
+  SEK: 10.5,
+  NOK: 10.7,
+  DKK: 6.9,
+  CHF: 0.88,
+  NZD: 1.66,
+  SGD: 1.34,
+  HKD: 7.8,
+  INR: 83,
+};
+
+const NORMALIZE_BATCH_SIZE = 200;
+
+let rates = new Map(Object.entries(DEFAULT_EXCHANGE_RATES));
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Seconds the in-memory rates are trusted before they are reloaded (EXCHANGE_RATE_TTL_SECONDS) */
+function ttlSeconds(): number {
+  const fromEnv = parseInt(process.env.EXCHANGE_RATE_TTL_SECONDS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 300;
+}
+
+function currentRates(): Map<string, number> {
+  if (mongoose.connection.readyState === 1 && Date.now() - loadedAt > ttlSeconds() * 1000) {
+    refreshExchangeRates().catch((err) =>
+      console.error("[Amounts] Rate reload error:", err.message)
+    );
+  }
+  return rates;
+}
+
+/** Convert between currencies via USD; undefined if either rate is unknown */
+function convert(value: number, from: string, to: string): number | undefined {
+  if (from === to) return value;
+  const table = currentRates();
+  const fromRate = table.get(from);
+  const toRate = table.get(to);
+  if (!fromRate || !toRate) return undefined;
+  return (value / fromRate) * toRate;
+}
+
+/**
+ * Cash value of the components in one currency: the recurring ones per
+ * year (monthly × 12), or the one-off ones on their own. A one-off grant
+ * is paid once, so it never counts towards the yearly value.
+ */
+function cashRange(
+  details: AmountDetails,
+  currency: string,
+  kind: "annual" | "one_off"
+): { min?: number; max?: number } {
+  let min = 0;
+  let max = 0;
+  let counted = 0;
+  for (const c of details.components) {
+    if (!c.currency || (c.min === undefined && c.max === undefined)) continue;
+    if ((c.period === "one_off") !== (kind === "one_off")) continue;
+    const factor = c.period === "per_month" ? 12 : 1;
+    const low = convert((c.min ?? c.max!) * factor, c.currency, currency);
+    const high = convert((c.max ?? c.min!) * factor, c.currency, currency);
+    if (low === undefined || high === undefined) continue;
+    min += low;
+    max += high;
+    counted++;
+  }
+  return counted > 0 ? { min: Math.round(min), max: Math.round(max) } : {};
+}
+
+/** Compare amount details regardless of key order (stored subdocuments follow the schema's) */
+function sameDetails(a: AmountDetails, b: AmountDetails): boolean {
+  const canonical = (d: AmountDetails) =>
+    JSON.stringify([
+      d.components.map((c) =>
+        Object.entries(c).filter(([, v]) => v !== undefined && v !== null).sort()
+      ),
+      d.coverage,
+      d.fully_funded,
+      d.annual_usd ?? null,
+      d.one_off_usd ?? null,
+    ]);
+  return canonical(a) === canonical(b);
+}
+
+function toExchangeRateRecord(doc: any): ExchangeRateRecord {
+  return {
+    currency: doc.currency,
+    per_usd: doc.per_usd,
+    updated_by: doc.updated_by ?? undefined,
+    updated_at: doc.updated_at.toISOString(),
+  };
+}
+
+/** Read the stored rates, after `pending` (a load that may predate the latest write) */
+async function loadRates(pending: Promise<void> | null): Promise<void> {
+  await pending?.catch(() => undefined);
+  await ensureSeeded();
+  const docs = await ExchangeRate.find().lean();
+  rates = new Map(docs.map((d) => [d.currency, d.per_usd]));
+  rates.set("USD", 1);
+  loadedAt = Date.now();
+}
+
+/** Store the default rates the first time the collection is empty */
+async function ensureSeeded(): Promise<void> {
+  if ((await ExchangeRate.estimatedDocumentCount()) > 0) return;
+  try {
+    await ExchangeRate.insertMany(
+      Object.entries(DEFAULT_EXCHANGE_RATES).map(([currency, per_usd]) => ({ currency, per_usd })),
+      { ordered: false }
+    );
+    console.log(`[Amounts] Seeded ${Object.keys(DEFAULT_EXCHANGE_RATES).length} default exchange rates`);
+  } catch (error: any) {
+    // Duplicate key: another process seeded them first
+    if (error.code !== 11000) throw error;
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/** Currency values are shown in when the request does not pick one (DISPLAY_CURRENCY, default USD) */
+export function defaultDisplayCurrency(): string {
+  return (process.env.DISPLAY_CURRENCY || "USD").toUpperCase();
+}
+
+/** Whether a currency is in the rate table */
+export function hasExchangeRate(currency: string): boolean {
+  return currentRates().has(currency);
+}
+
+/**
+ * Convert a value to USD, e.g. a minAmount filter. Undefined if the
+ * currency is not in the rate table.
+ */
+export function toUsd(value: number, currency: string): number | undefined {
+  return convert(value, currency, "USD");
+}
+
+/**
+ * Load the stored rates into memory (seeding the defaults on first
+ * use). Called at startup and after every change; lookups also reload
+ * in the background once EXCHANGE_RATE_TTL_SECONDS have passed.
+ * Concurrent calls share one load; `force` starts a new one after it,
+ * for writers whose change the pending load may have missed.
+ */
+export async function refreshExchangeRates(options: { force?: boolean } = {}): Promise<void> {
+  if (loading && !options.force) return loading;
+  const load = loadRates(loading).finally(() => {
+    if (loading === load) loading = null;
+  });
+  loading = load;
+  return load;
+}
+
+/**
+ * Parse a record's amount into components, its yearly USD value and
+ * the USD value of its one-off payments.
+ */
+export function describeAmount(doc: {
+  amount?: string | null;
+  currency?: string | null;
+  eligibility?: { coverage?: string[] | null } | null;
+}): AmountDetails {
+  const parsed = parseAmount(
+    doc.amount ?? undefined,
+    doc.currency ?? undefined,
+    doc.eligibility?.coverage ?? []
+  );
+  const details: AmountDetails = { ...parsed };
+  const annual = cashRange(details, "USD", "annual");
+  const oneOff = cashRange(details, "USD", "one_off");
+  const annualUsd = annual.min ?? annual.max;
+  const oneOffUsd = oneOff.min ?? oneOff.max;
+  if (annualUsd !== undefined) details.annual_usd = annualUsd;
+  if (oneOffUsd !== undefined) details.one_off_usd = oneOffUsd;
+  return details;
+}
+
+/**
+ * Yearly and one-off cash value of an amount in the given currency
+ * (default: DISPLAY_CURRENCY). Undefined if the amount has no value or
+ * the currency is not in the rate table.
+ */
+export function normalizeAmount(
+  details: AmountDetails | undefined,
+  currency = defaultDisplayCurrency()
+): NormalizedAmount | undefined {
+  if (!details) return undefined;
+  const annual = cashRange(details, currency, "annual");
+  const oneOff = cashRange(details, currency, "one_off");
+  if ([annual.min, annual.max, oneOff.min, oneOff.max].every((v) => v === undefined)) {
+    return undefined;
+  }
+  return {
+    annual_min: annual.min,
+    annual_max: annual.max,
+    ...(oneOff.min !== undefined && { one_off_min: oneOff.min }),
+    ...(oneOff.max !== undefined && { one_off_max: oneOff.max }),
+    currency,
+  };
+}
+
+/**
+ * Stored amount details of a record, parsed on the fly for records
+ * written before amounts were parsed.
+ */
+export function amountDetailsOf(doc: any): AmountDetails {
+  if (doc.amount_details) {
+    const { components = [], coverage = "unknown", fully_funded = false, annual_usd, one_off_usd } =
+      doc.amount_details;
+    return {
+      components: components.map(({ _id, ...c }: any) => c),
+      coverage,
+      fully_funded,
+      ...(annual_usd !== undefined && annual_usd !== null && { annual_usd }),
+      ...(one_off_usd !== undefined && one_off_usd !== null && { one_off_usd }),
+    };
+  }
+  return describeAmount(doc);
+}
+
+/**
+ * Re-parse a stored record's amount and save the details if they
+ * changed (also on `doc`, so it can be returned as-is). Call after
+ * writes that may change `amount`, `currency` or the eligibility
+ * coverage.
+ */
+export async function syncAmountDetails(doc: any): Promise<void> {
+  if (!doc?._id) return;
+  const details = describeAmount(doc);
+  if (doc.amount_details && sameDetails(amountDetailsOf(doc), details)) return;
+  await Scholarship.updateOne({ _id: doc._id }, { $set: { amount_details: details } });
+  doc.amount_details = details;
+}
+
+/**
+ * Re-parse every stored amount and recompute USD values with the
+ * current rates. Runs as the `amount_normalization` job after rate
+ * changes and at startup (to backfill older records).
+ */
+export async function normalizeStoredAmounts(ctx?: JobContext): Promise<{ checked: number; updated: number }> {
+  await refreshExchangeRates();
+  const total = await Scholarship.estimatedDocumentCount();
+  let checked = 0;
+  let updated = 0;
+  let lastId: mongoose.Types.ObjectId | undefined;
+
+  for (;;) {
+    const docs = await Scholarship.find(lastId ? { _id: { $gt: lastId } } : {})
+      .select({ amount: 1, currency: 1, "eligibility.coverage": 1, amount_details: 1 })
+      .sort({ _id: 1 })
+      .limit(NORMALIZE_BATCH_SIZE)
+      .lean();
+    if (docs.length === 0) break;
+
+    for (const doc of docs) {
+      const details = describeAmount(doc);
+      if (!doc.amount_details || !sameDetails(amountDetailsOf(doc), details)) {
+        await Scholarship.updateOne({ _id: doc._id }, { $set: { amount_details: details } });
+        updated++;
+      }
+      checked++;
+    }
+    lastId = docs[docs.length - 1]._id;
+    await ctx?.progress(checked, Math.max(total, checked));
+  }
+
+  console.log(`[Amounts] Normalized ${checked} amount(s), ${updated} updated`);
+  return { checked, updated };
+}
+
+/**
+ * List the exchange-rate table, by currency.
+ */
+export async function listExchangeRates(): Promise<ExchangeRateRecord[]> {
+  await ensureSeeded();
+  const docs = await ExchangeRate.find().sort({ currency: 1 }).lean();
+  return docs.map(toExchangeRateRecord);
+}
+
+/**
+ * Set rates (units per USD), adding currencies that are not in the
+ * table yet. Stored values are recomputed afterwards by the caller
+ * queueing `amount_normalization`.
+ */
+export async function updateExchangeRates(
+  updates: Record<string, number>,
+  actor: string
+): Promise<ExchangeRateRecord[]> {
+  await ensureSeeded();
+  const now = new Date();
+  // USD is the base and always 1
+  const changes = Object.entries(updates).filter(([currency]) => currency !== "USD");
+  if (changes.length > 0) {
+    await ExchangeRate.bulkWrite(
+      changes.map(([currency, per_usd]) => ({
+        updateOne: {
+          filter: { currency },
+          update: { $set: { per_usd, updated_by: actor, updated_at: now } },
+          upsert: true,
+        },
+      }))
+    );
+  }
+  console.log(`[Amounts] ${actor} updated exchange rates: ${Object.keys(updates).join(", ")}`);
+
+  // A load already under way may have read the rates before this write
+  await refreshExchangeRates({ force: true });
+  return listExchangeRates();
+}
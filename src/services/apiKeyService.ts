@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { ApiKey } from "../db/ApiKey.js";
+import type { ApiKeyRecord, AuthContext, Role } from "../types/index.js";
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function toApiKeyRecord(doc: any): ApiKeyRecord {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    key_prefix: doc.key_prefix,
+    role: doc.role,
+    created_by: doc.created_by ?? undefined,
+    last_used_at: doc.last_used_at?.toISOString(),
+    revoked_at: doc.revoked_at?.toISOString(),
+    created_at: doc.created_at.toISOString(),
+  };
+}
+
+/**
+ * Compare against the bootstrap ADMIN_API_KEY from the environment.
+ * This is how the first admin gets in before any keys exist in Mongo.
+ */
+function matchesBootstrapKey(key: string): boolean {
+  const bootstrap = process.env.ADMIN_API_KEY;
+  if (!bootstrap) return false;
+  const a = Buffer.from(hashKey(key));
+  const b = Buffer.from(hashKey(bootstrap));
+  return crypto.timingSafeEqual(a, b);
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Resolve a presented key to the identity and role it grants.
+ * Returns null for unknown or revoked keys.
+ */
+export async function resolveApiKey(key: string): Promise<AuthContext | null> {
+  if (!key) return null;
+
+  if (matchesBootstrapKey(key)) {
+    return { keyId: "env", name: "admin (ADMIN_API_KEY)", role: "admin" };
+  }
+
+  const doc = await ApiKey.findOneAndUpdate(
+    { key_hash: hashKey(key), revoked_at: null },
+    { $set: { last_used_at: new Date() } }
+  ).lean();
+  if (!doc) return null;
+
+  return { keyId: doc._id.toString(), name: doc.name, role: doc.role as Role };
+}
+
+/**
+ * Create a new API key. The plaintext key is only returned here.
+ */
+export async function createApiKey(
+  name: string,
+  role: Role,
+  createdBy: string
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `sk_${crypto.randomBytes(24).toString("hex")}`;
+  const doc = await ApiKey.create({
+    name,
+    role,
+    key_hash: hashKey(key),
+    key_prefix: key.substring(0, 10),
+    created_by: createdBy,
+  });
+
+  console.log(`[Auth] ${createdBy} created ${role} key "${name}"`);
+  return { key, record: toApiKeyRecord(doc.toObject()) };
+}
+
+/**
+ * List all API keys, including revoked ones.
+ */
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const docs = await ApiKey.find().sort({ created_at: -1 }).lean();
+  return docs.map(toApiKeyRecord);
+}
+
+/**
+ * Revoke an API key. Returns false if it does not exist or is already revoked.
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const result = await ApiKey.updateOne(
+    { _id: id, revoked_at: null },
+    { $set: { revoked_at: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
@@ -0,0 +1,208 @@
+import { Scholarship } from "../db/Scholarship.js";
+import {
+  buildScholarshipQuery,
+  getScholarshipById,
+  getScholarships,
+  toScholarship,
+} from "./scholarshipService.js";
+import { getSavedSearch } from "./savedSearchService.js";
+import type { ApiFilters, Scholarship as ScholarshipType } from "../types/index.js";
+
+export const CALENDAR_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+// Reminders when a feed does not ask for its own: a week and a day before
+export const DEFAULT_CALENDAR_REMINDERS = [7, 1];
+
+const PRODUCT_ID = "-//ScholarHub//Scholarship Deadlines//EN";
+const UID_DOMAIN = "scholarhub";
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Most events in one filtered feed (CALENDAR_MAX_EVENTS) */
+function maxEvents(): number {
+  const fromEnv = parseInt(process.env.CALENDAR_MAX_EVENTS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 500;
+}
+
+/** How often subscribed calendars should re-fetch (CALENDAR_REFRESH_HOURS, default 6) */
+function refreshHours(): number {
+  const fromEnv = parseInt(process.env.CALENDAR_REFRESH_HOURS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 6;
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets, never inside a UTF-8 character */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, "utf8");
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** 2026-03-31 → 20260331 */
+function toDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/** UTC DATE-TIME, e.g. 20260331T120000Z */
+function toTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split("T")[0];
+}
+
+/**
+ * All-day VEVENT on the deadline. The UID is stable per record, so
+ * subscribed calendars replace the event when the record changes.
+ */
+function toEvent(s: ScholarshipType, reminders: number[], now: string): string[] {
+  const description = [
+    `Organization: ${s.organization}`,
+    s.amount ? `Amount: ${s.amount}` : null,
+    `Apply: ${s.link}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:scholarship-${s.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${now}`,
+    `LAST-MODIFIED:${toTimestamp(s.updated_at!)}`,
+    `DTSTART;VALUE=DATE:${toDateValue(s.deadline)}`,
+    `DTEND;VALUE=DATE:${toDateValue(nextDay(s.deadline))}`,
+    `SUMMARY:${escapeText(`Deadline: ${s.title} (${s.organization})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${s.link}`,
+    `CATEGORIES:${escapeText(s.category)}`,
+    "TRANSP:TRANSPARENT",
+  ];
+  for (const days of reminders) {
+    const when = days === 0 ? "Today" : `${days} day${days === 1 ? "" : "s"} left`;
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:-P${days}D`,
+      `DESCRIPTION:${escapeText(`${when}: ${s.title}`)}`,
+      "END:VALARM"
+    );
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function buildCalendar(name: string, scholarships: ScholarshipType[], reminders: number[]): string {
+  const now = toTimestamp(new Date().toISOString());
+  const ttl = `PT${refreshHours()}H`;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${ttl}`,
+    `X-PUBLISHED-TTL:${ttl}`,
+    ...scholarships.flatMap((s) => toEvent(s, reminders, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Reminder days from a `reminders` query parameter ("30,7,1", or "none"
+ * for no alarms). Undefined when not given; null when invalid (more
+ * than 5 values, or values outside 0–365).
+ */
+export function parseCalendarReminders(value: string | undefined): number[] | null | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  if (value.trim().toLowerCase() === "none") return [];
+  const days = value.split(",").map((n) => Number(n.trim()));
+  if (days.length > 5 || days.some((n) => !Number.isInteger(n) || n < 0 || n > 365)) return null;
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+/**
+ * Calendar of the scholarships matching list filters (as
+ * `GET /api/scholarships`), soonest deadline first, up to
+ * CALENDAR_MAX_EVENTS events.
+ */
+export async function getListingCalendar(
+  filters: ApiFilters,
+  reminders: number[] = DEFAULT_CALENDAR_REMINDERS
+): Promise<string> {
+  const { data } = await getScholarships({
+    ...filters,
+    page: 1,
+    limit: maxEvents(),
+    sort: "deadline",
+    order: "asc",
+  });
+  return buildCalendar("Scholarship deadlines", data, reminders);
+}
+
+/**
+ * Calendar with the deadline of one scholarship, or null if it does not
+ * exist.
+ */
+export async function getScholarshipCalendar(
+  id: string,
+  reminders: number[] = DEFAULT_CALENDAR_REMINDERS
+): Promise<string | null> {
+  const scholarship = await getScholarshipById(id);
+  if (!scholarship) return null;
+  return buildCalendar(scholarship.title, [scholarship], reminders);
+}
+
+/**
+ * Calendar of the scholarships a saved search follows, with its
+ * reminder offsets unless others are given. Null if the id or token is
+ * wrong. Records hidden from the listing (rejected, blocked or broken
+ * links) are left out; past deadlines stay.
+ */
+export async function getSavedSearchCalendar(
+  id: string,
+  token: string | undefined,
+  reminders?: number[]
+): Promise<string | null> {
+  const search = await getSavedSearch(id, token);
+  if (!search) return null;
+
+  const docs = await Scholarship.find({
+    ...buildScholarshipQuery({ include: "expired" }),
+    _id: { $in: search.followed_scholarships },
+  })
+    .sort({ deadline: 1 })
+    .lean();
+  return buildCalendar(
+    search.name,
+    docs.map(toScholarship),
+    reminders ?? search.reminder_offsets
+  );
+}
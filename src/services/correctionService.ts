@@ -0,0 +1,214 @@
+import mongoose from "mongoose";
+import { Scholarship } from "../db/Scholarship.js";
+import { Correction } from "../db/Correction.js";
+import { ScholarshipValidationError, updateScholarship } from "./scholarshipService.js";
+import {
+  CORRECTION_OPTIONS,
+  type CorrectableField,
+  type CorrectionDiff,
+  type CorrectionRecord,
+  type CorrectionSubmission,
+  type PaginatedResponse,
+} from "../types/index.js";
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Read a correctable field off a Scholarship document as a string. */
+function readField(doc: any, field: CorrectableField): string | undefined {
+  const value = doc[field];
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return String(value);
+}
+
+function toCorrectionRecord(doc: any): CorrectionRecord {
+  return {
+    id: doc._id.toString(),
+    scholarship_id: doc.scholarship_id.toString(),
+    field: doc.field,
+    current_value: doc.current_value ?? undefined,
+    proposed_value: doc.proposed_value,
+    evidence_quote: doc.evidence_quote ?? undefined,
+    evidence_url: doc.evidence_url ?? undefined,
+    submitter_name: doc.submitter_name ?? undefined,
+    status: doc.status,
+    reviewer: doc.reviewer ?? undefined,
+    review_notes: doc.review_notes ?? undefined,
+    reviewed_at: doc.reviewed_at?.toISOString(),
+    created_at: doc.created_at.toISOString(),
+  };
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Submit a correction for a scholarship field.
+ * Snapshots the current value so reviewers can see what the user disputed.
+ * Returns null if the scholarship does not exist.
+ */
+export async function submitCorrection(
+  scholarshipId: string,
+  input: CorrectionSubmission
+): Promise<CorrectionRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(scholarshipId)) {
+    return null;
+  }
+
+  const scholarship = await Scholarship.findById(scholarshipId).lean();
+  if (!scholarship) return null;
+
+  const doc = await Correction.create({
+    ...input,
+    scholarship_id: scholarship._id,
+    current_value: readField(scholarship, input.field),
+    status: "pending",
+  });
+
+  console.log(`[Corrections] New report on "${input.field}" for ${scholarship.title}`);
+  return toCorrectionRecord(doc.toObject());
+}
+
+/**
+ * List corrections, oldest first so the review backlog is worked in order.
+ */
+export async function listCorrections(options: {
+  status?: "pending" | "accepted" | "rejected";
+  scholarshipId?: string;
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<CorrectionRecord>> {
+  const { status, scholarshipId, page = 1, limit = 20 } = options;
+
+  const query: any = {};
+  if (status) query.status = status;
+  if (scholarshipId) {
+    if (!mongoose.Types.ObjectId.isValid(scholarshipId)) {
+      return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+    }
+    query.scholarship_id = new mongoose.Types.ObjectId(scholarshipId);
+  }
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    Correction.countDocuments(query),
+    Correction.find(query)
+      .sort({ created_at: 1 })
+      .skip(offset)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    data: data.map(toCorrectionRecord),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get a single correction.
+ */
+export async function getCorrectionById(id: string): Promise<CorrectionRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await Correction.findById(id).lean();
+  return doc ? toCorrectionRecord(doc) : null;
+}
+
+/**
+ * Compare a correction against the live scholarship record.
+ * `stale` is set when the field changed after the user submitted.
+ */
+export async function getCorrectionDiff(id: string): Promise<CorrectionDiff | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await Correction.findById(id).lean();
+  if (!doc) return null;
+
+  const correction = toCorrectionRecord(doc);
+  const scholarship = await Scholarship.findById(doc.scholarship_id).lean();
+  const liveValue = scholarship ? readField(scholarship, correction.field) : undefined;
+
+  return {
+    correction,
+    field: correction.field,
+    submitted_value: correction.current_value,
+    live_value: liveValue,
+    proposed_value: correction.proposed_value,
+    stale: liveValue !== correction.current_value,
+  };
+}
+
+/**
+ * Accept a pending correction and apply it through updateScholarship,
+ * so the same link/length/deadline validation applies as for admin edits.
+ * Throws ScholarshipValidationError if the proposed value is not valid;
+ * the correction then stays pending.
+ */
+export async function acceptCorrection(
+  id: string,
+  reviewer: string,
+  notes?: string
+): Promise<CorrectionRecord> {
+  const doc = await Correction.findById(id);
+  if (!doc) throw new Error("Correction not found");
+  if (doc.status !== "pending") {
+    throw new Error(`Correction already ${doc.status}`);
+  }
+
+  // Reports submitted before the options were checked may still hold other values
+  const options = CORRECTION_OPTIONS[doc.field as CorrectableField];
+  if (options && !options.includes(doc.proposed_value)) {
+    throw new ScholarshipValidationError(`${doc.field} must be one of: ${options.join(", ")}`);
+  }
+
+  const updated = await updateScholarship(
+    doc.scholarship_id.toString(),
+    { [doc.field]: doc.proposed_value },
+    { type: "correction", actor: reviewer, ref: id }
+  );
+  if (!updated) {
+    throw new Error("Scholarship not found");
+  }
+
+  doc.status = "accepted";
+  doc.reviewer = reviewer;
+  doc.review_notes = notes;
+  doc.reviewed_at = new Date();
+  await doc.save();
+
+  console.log(`[Corrections] ${reviewer} accepted "${doc.field}" correction ${id}`);
+  return toCorrectionRecord(doc.toObject());
+}
+
+/**
+ * Reject a pending correction without touching the scholarship.
+ */
+export async function rejectCorrection(
+  id: string,
+  reviewer: string,
+  notes?: string
+): Promise<CorrectionRecord> {
+  const doc = await Correction.findById(id);
+  if (!doc) throw new Error("Correction not found");
+  if (doc.status !== "pending") {
+    throw new Error(`Correction already ${doc.status}`);
+  }
+
+  doc.status = "rejected";
+  doc.reviewer = reviewer;
+  doc.review_notes = notes;
+  doc.reviewed_at = new Date();
+  await doc.save();
+
+  console.log(`[Corrections] ${reviewer} rejected "${doc.field}" correction ${id}`);
+  return toCorrectionRecord(doc.toObject());
+}
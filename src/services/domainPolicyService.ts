@@ -0,0 +1,401 @@
+import mongoose from "mongoose";
+import { DomainRule } from "../db/DomainRule.js";
+import { Scholarship } from "../db/Scholarship.js";
+import type {
+  DomainAction,
+  DomainReevaluation,
+  DomainRuleInput,
+  DomainRuleRecord,
+  DomainVerdict,
+  TrustTier,
+  UpdateDomainRule,
+} from "../types/index.js";
+
+interface CompiledRule {
+  pattern: string;
+  kind: DomainRuleRecord["kind"];
+  core: string; // Pattern without `*.`
+  labels: number;
+  action: DomainAction;
+  tier?: TrustTier;
+}
+
+/**
+ * Seed policy, stored the first time the collection is empty and used
+ * until the stored rules are loaded.
+ */
+export const DEFAULT_DOMAIN_RULES: DomainRuleInput[] = [
+  // Official sources
+  ...[".edu", ".ac.uk", ".gov", ".gov.uk", ".gc.ca", ".gov.au", ".edu.au", ".europa.eu"].map(
+    (pattern) => ({ pattern, action: "allow" as const, tier: "official" as const })
+  ),
+  // Scholarship aggregators
+  ...[
+    "scholarshiptab.com",
+    "studentscholarships.org",
+    "scholarshipnext.com",
+    "scholaropportunity.com",
+    "scholarships.com",
+    "fastweb.com",
+    "scholarshipowl.com",
+    "scholarshipportal.com",
+    "findaid.org",
+    "internationalscholarships.com",
+    "scholars4dev.com",
+    "afterschool.my",
+    "opportunitiesforafricans.com",
+    "oyaop.com",
+    "aseanop.com",
+    "marj3.com",
+    "opportunitydesk.org",
+    "scholarshipsads.com",
+    "scholarshipscorner.website",
+    "grantfinder.com",
+    "scholarshipslab.com",
+    "uscholarships.us",
+    "scholarshipau.com",
+    "happyfacetravels.com",
+    "worldscholarshipforum.com",
+    "scholarshipscafe.com",
+    "scholarsme.com",
+    "myschoolscholarship.com",
+  ].map((pattern) => ({ pattern, action: "block" as const, note: "Scholarship aggregator" })),
+  // Social media
+  ...[
+    "facebook.com",
+    "twitter.com",
+    "x.com",
+    "linkedin.com",
+    "instagram.com",
+    "youtube.com",
+    "tiktok.com",
+    "reddit.com",
+    "quora.com",
+    "pinterest.com",
+  ].map((pattern) => ({ pattern, action: "block" as const, note: "Social media" })),
+  // Blogs / news / generic
+  ...[
+    "medium.com",
+    "wordpress.com",
+    "blogspot.com",
+    "tumblr.com",
+    "substack.com",
+    "wikipedia.org",
+    "wikidata.org",
+    "bbc.com",
+    "cnn.com",
+    "theguardian.com",
+  ].map((pattern) => ({ pattern, action: "block" as const, note: "Blog, news or wiki" })),
+  // Fake / test
+  ...["example.com", "example.org", "test.com", "localhost"].map((pattern) => ({
+    pattern,
+    action: "block" as const,
+    note: "Placeholder",
+  })),
+];
+
+const KIND_RANK: Record<CompiledRule["kind"], number> = { domain: 2, wildcard: 2, suffix: 1 };
+
+let rules: CompiledRule[] = compile(DEFAULT_DOMAIN_RULES);
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Seconds the in-memory policy is trusted before it is reloaded (DOMAIN_POLICY_TTL_SECONDS) */
+function ttlSeconds(): number {
+  const fromEnv = parseInt(process.env.DOMAIN_POLICY_TTL_SECONDS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 60;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function kindOf(pattern: string): CompiledRule["kind"] {
+  if (pattern.startsWith("*.")) return "wildcard";
+  if (pattern.startsWith(".")) return "suffix";
+  return "domain";
+}
+
+/**
+ * Order rules so the first match decides: more labels first, a domain
+ * or wildcard before a suffix rule of the same length, block before
+ * allow on a tie.
+ */
+function compile(entries: { pattern: string; action: DomainAction; tier?: TrustTier | null }[]): CompiledRule[] {
+  return entries
+    .map((e) => {
+      const kind = kindOf(e.pattern);
+      const core = kind === "wildcard" ? e.pattern.slice(2) : e.pattern;
+      return {
+        pattern: e.pattern,
+        kind,
+        core,
+        labels: core.split(".").filter(Boolean).length,
+        action: e.action,
+        tier: e.tier ?? undefined,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.labels - a.labels ||
+        KIND_RANK[b.kind] - KIND_RANK[a.kind] ||
+        (a.action === "block" ? -1 : 1) - (b.action === "block" ? -1 : 1)
+    );
+}
+
+function matches(rule: CompiledRule, host: string): boolean {
+  switch (rule.kind) {
+    case "domain":
+      return host === rule.core || host.endsWith("." + rule.core);
+    case "wildcard":
+      return host.endsWith("." + rule.core);
+    case "suffix":
+      return host.endsWith(rule.core);
+  }
+}
+
+/** Mongo regex for links whose host a pattern could match (superset; the policy decides) */
+function linkRegexFor(pattern: string): RegExp {
+  const kind = kindOf(pattern);
+  const core = escapeRegex(kind === "wildcard" ? pattern.slice(2) : pattern);
+  const host =
+    kind === "domain" ? `([^/?#]*\\.)?${core}` : kind === "wildcard" ? `[^/?#]+\\.${core}` : `[^/?#]+${core}`;
+  return new RegExp(`^https?://${host}(:\\d+)?([/?#]|$)`, "i");
+}
+
+function hostOf(link: string): string | null {
+  try {
+    return new URL(link).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function toDomainRuleRecord(doc: any): DomainRuleRecord {
+  return {
+    id: doc._id.toString(),
+    pattern: doc.pattern,
+    kind: kindOf(doc.pattern),
+    action: doc.action,
+    tier: doc.tier ?? undefined,
+    note: doc.note ?? undefined,
+    created_by: doc.created_by ?? undefined,
+    created_at: doc.created_at.toISOString(),
+    updated_at: doc.updated_at.toISOString(),
+  };
+}
+
+/** Pattern (or host) of the rule blocking a link, if the policy blocks it */
+function blockedBy(link: string): string | undefined {
+  const verdict = getDomainVerdict(link);
+  return verdict.blocked ? verdict.rule ?? verdict.host : undefined;
+}
+
+/** Store the default rules the first time the collection is empty */
+async function ensureSeeded(): Promise<void> {
+  if ((await DomainRule.estimatedDocumentCount()) > 0) return;
+  try {
+    await DomainRule.insertMany(DEFAULT_DOMAIN_RULES, { ordered: false });
+    console.log(`[DomainPolicy] Seeded ${DEFAULT_DOMAIN_RULES.length} default domain rules`);
+    // Flag stored records the seed blocks (the defaults are what is in memory)
+    await reevaluateRecords(
+      DEFAULT_DOMAIN_RULES.filter((r) => r.action === "block").map((r) => r.pattern)
+    );
+  } catch (error: any) {
+    // Duplicate key: another process seeded them first
+    if (error.code !== 11000) throw error;
+  }
+}
+
+/** Load the stored rules into memory, after `pending` (an earlier load) has settled */
+async function loadRules(pending: Promise<void> | null): Promise<void> {
+  await pending?.catch(() => undefined);
+  await ensureSeeded();
+  const docs = await DomainRule.find().lean();
+  rules = compile(docs);
+  loadedAt = Date.now();
+}
+
+/**
+ * Re-check stored records a changed pattern could affect: links the
+ * pattern matches, and records it was blocking. Sets or clears
+ * `blocked_domain` to match the current policy.
+ */
+async function reevaluateRecords(patterns: string[]): Promise<DomainReevaluation> {
+  const summary: DomainReevaluation = { checked: 0, blocked: 0, unblocked: 0 };
+  const docs = await Scholarship.find({
+    $or: [
+      ...patterns.map((p) => ({ link: { $regex: linkRegexFor(p) } })),
+      { blocked_domain: { $in: patterns } },
+    ],
+  })
+    .select({ title: 1, link: 1, blocked_domain: 1 })
+    .lean();
+
+  for (const doc of docs) {
+    summary.checked++;
+    const blocked = blockedBy(doc.link);
+    if (blocked === (doc.blocked_domain ?? undefined)) continue;
+
+    if (blocked) {
+      await Scholarship.updateOne({ _id: doc._id }, { $set: { blocked_domain: blocked } });
+      if (!doc.blocked_domain) summary.blocked++;
+    } else {
+      await Scholarship.updateOne({ _id: doc._id }, { $unset: { blocked_domain: "" } });
+      summary.unblocked++;
+    }
+  }
+
+  if (summary.blocked > 0 || summary.unblocked > 0) {
+    console.log(
+      `[DomainPolicy] Re-evaluated ${summary.checked} record(s) for ${patterns.join(", ")} — ${summary.blocked} blocked, ${summary.unblocked} unblocked`
+    );
+  }
+  return summary;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Load the stored rules into memory (seeding the defaults on first
+ * use). Called at startup and after every change; lookups also reload
+ * in the background once DOMAIN_POLICY_TTL_SECONDS have passed, so
+ * other processes pick up changes. Concurrent calls share one load;
+ * `force` (used after a write) starts a new load once the pending one
+ * has finished, since that one may have read the rules before the write.
+ */
+export async function refreshDomainPolicy(options: { force?: boolean } = {}): Promise<void> {
+  if (loading && !options.force) return loading;
+  const load = loadRules(loading).finally(() => {
+    if (loading === load) loading = null;
+  });
+  loading = load;
+  return load;
+}
+
+/**
+ * How the policy treats a link's domain. Synchronous: uses the rules in
+ * memory (the defaults until the stored ones are loaded).
+ */
+export function getDomainVerdict(link: string): DomainVerdict {
+  if (
+    mongoose.connection.readyState === 1 &&
+    Date.now() - loadedAt > ttlSeconds() * 1000
+  ) {
+    refreshDomainPolicy().catch((err) =>
+      console.error("[DomainPolicy] Reload error:", err.message)
+    );
+  }
+
+  const host = hostOf(link) ?? "";
+  const rule = host ? rules.find((r) => matches(r, host)) : undefined;
+  if (!rule) return { host, blocked: false, tier: "neutral" };
+  if (rule.action === "block") return { host, blocked: true, rule: rule.pattern };
+  return { host, blocked: false, tier: rule.tier ?? "trusted", rule: rule.pattern };
+}
+
+/**
+ * Set or clear a stored record's `blocked_domain` to match the policy
+ * for its current link (also on `doc`, so it can be returned as-is).
+ * Call after writes that may change `link`.
+ */
+export async function syncBlockedDomain(doc: any): Promise<void> {
+  if (!doc?._id || !doc.link) return;
+  const blocked = blockedBy(doc.link);
+  if (blocked === (doc.blocked_domain ?? undefined)) return;
+
+  await Scholarship.updateOne(
+    { _id: doc._id },
+    blocked ? { $set: { blocked_domain: blocked } } : { $unset: { blocked_domain: "" } }
+  );
+  if (blocked) doc.blocked_domain = blocked;
+  else delete doc.blocked_domain;
+}
+
+/**
+ * List domain rules by action, then pattern.
+ */
+export async function listDomainRules(action?: DomainAction): Promise<DomainRuleRecord[]> {
+  await ensureSeeded();
+  const docs = await DomainRule.find(action ? { action } : {})
+    .sort({ action: 1, pattern: 1 })
+    .lean();
+  return docs.map(toDomainRuleRecord);
+}
+
+/**
+ * Add a rule and re-evaluate the stored records it affects. Throws a
+ * duplicate key error (11000) if the pattern already has a rule.
+ */
+export async function createDomainRule(
+  input: DomainRuleInput,
+  actor: string
+): Promise<{ rule: DomainRuleRecord; reevaluation: DomainReevaluation }> {
+  await ensureSeeded();
+  const doc = await DomainRule.create({
+    ...input,
+    tier: input.action === "allow" ? input.tier ?? "trusted" : undefined,
+    created_by: actor,
+  });
+  console.log(`[DomainPolicy] ${actor} added ${input.action} rule ${input.pattern}`);
+
+  await refreshDomainPolicy({ force: true });
+  const reevaluation = await reevaluateRecords([doc.pattern]);
+  return { rule: toDomainRuleRecord(doc.toObject()), reevaluation };
+}
+
+/**
+ * Change a rule's action, tier or note and re-evaluate the stored
+ * records it affects. Returns null if the rule does not exist.
+ */
+export async function updateDomainRule(
+  id: string,
+  input: UpdateDomainRule,
+  actor: string
+): Promise<{ rule: DomainRuleRecord; reevaluation: DomainReevaluation } | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const existing = await DomainRule.findById(id).lean();
+  if (!existing) return null;
+
+  const action = input.action ?? existing.action;
+  const $set: Record<string, unknown> = { ...input, updated_at: new Date() };
+  const $unset: Record<string, ""> = {};
+  if (action === "block") {
+    delete $set.tier;
+    $unset.tier = "";
+  } else if (!input.tier && !existing.tier) {
+    $set.tier = "trusted";
+  }
+
+  const doc = await DomainRule.findByIdAndUpdate(
+    id,
+    { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+    { new: true }
+  ).lean();
+  if (!doc) return null;
+  console.log(`[DomainPolicy] ${actor} updated rule ${doc.pattern} (${doc.action})`);
+
+  await refreshDomainPolicy({ force: true });
+  const reevaluation = await reevaluateRecords([doc.pattern]);
+  return { rule: toDomainRuleRecord(doc), reevaluation };
+}
+
+/**
+ * Delete a rule and re-evaluate the stored records it affected.
+ * Returns null if the rule does not exist.
+ */
+export async function deleteDomainRule(
+  id: string,
+  actor: string
+): Promise<{ reevaluation: DomainReevaluation } | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await DomainRule.findByIdAndDelete(id).lean();
+  if (!doc) return null;
+  console.log(`[DomainPolicy] ${actor} removed ${doc.action} rule ${doc.pattern}`);
+
+  await refreshDomainPolicy({ force: true });
+  const reevaluation = await reevaluateRecords([doc.pattern]);
+  return { reevaluation };
+}
@@ -0,0 +1,291 @@
+import mongoose from "mongoose";
+import { Scholarship } from "../db/Scholarship.js";
+import { Correction } from "../db/Correction.js";
+import { VerificationEvent } from "../db/VerificationEvent.js";
+import { SavedSearch } from "../db/SavedSearch.js";
+import { QuarantinedCandidate } from "../db/QuarantinedCandidate.js";
+import { toMergedFromRecord, toScholarship } from "./scholarshipService.js";
+import { recordVersion } from "./historyService.js";
+import { syncAmountDetails } from "./amountService.js";
+import { syncBlockedDomain } from "./domainPolicyService.js";
+import {
+  DEADLINE_WINDOW_DAYS,
+  acronymOf,
+  compareScholarships,
+  linkKey,
+  organizationKey,
+} from "./similarity.js";
+import {
+  MERGEABLE_FIELDS,
+  type DuplicateCluster,
+  type DuplicatePair,
+  type MergeableField,
+  type MergeDuplicates,
+  type MergeResult,
+} from "../types/index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/**
+ * Buckets of records that could be duplicates (same organization key,
+ * initials or official page); only records sharing a bucket are compared.
+ */
+function bucketize(docs: any[]): any[][] {
+  const buckets = new Map<string, any[]>();
+  const add = (key: string, doc: any) => {
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(doc);
+    buckets.set(key, bucket);
+  };
+
+  for (const doc of docs) {
+    const orgKey = organizationKey(doc.organization);
+    add(`org:${orgKey}`, doc);
+    const initials = acronymOf(doc.organization);
+    if (initials.length >= 2 && initials !== orgKey) add(`org:${initials}`, doc);
+    const link = linkKey(doc.link);
+    if (link) add(`link:${link}`, doc);
+  }
+  return Array.from(buckets.values()).filter((b) => b.length > 1);
+}
+
+/** Approved first, then grounded in the official page, then oldest */
+function rankForKeep(a: any, b: any): number {
+  const approved = (d: any) => (d.verification_status === "approved" ? 1 : 0);
+  const grounded = (d: any) => (d.evidence && Object.keys(d.evidence).length > 0 ? 1 : 0);
+  return (
+    approved(b) - approved(a) ||
+    grounded(b) - grounded(a) ||
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0 && value !== "Varies";
+  return true;
+}
+
+/** Number of stated eligibility requirements */
+function eligibilitySize(eligibility: any): number {
+  if (!eligibility) return 0;
+  return Object.values(eligibility).filter((v) =>
+    Array.isArray(v) ? v.length > 0 : v !== undefined && v !== null
+  ).length;
+}
+
+/**
+ * Pick the record whose value wins for a field: a value backed by
+ * evidence from the official page beats one that is not, an approved
+ * record beats an unreviewed one, then field-specific tie-breaks
+ * (longer description, later deadline, more stated eligibility).
+ * The kept record wins remaining ties.
+ */
+function pickWinner(field: MergeableField, records: any[]): any {
+  const withValue = records.filter((r) => hasValue(r[field]));
+  if (withValue.length === 0) return records[0];
+
+  const score = (r: any): number[] => [
+    r.evidence?.[field] ? 1 : 0,
+    r.verification_status === "approved" ? 1 : 0,
+    field === "description" ? (r.description || "").length : 0,
+    field === "deadline" ? new Date(r.deadline).getTime() : 0,
+    field === "eligibility" ? eligibilitySize(r.eligibility) : 0,
+  ];
+
+  return withValue.reduce((best, r) => {
+    const a = score(r);
+    const b = score(best);
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i] > b[i] ? r : best;
+    }
+    return best;
+  });
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Find clusters of records that look like the same award in the same
+ * cycle. Rejected records and deadlines long past are ignored.
+ * Clusters are returned strongest first.
+ */
+export async function findDuplicateClusters(options: {
+  minScore?: number;
+  limit?: number;
+}): Promise<DuplicateCluster[]> {
+  const { minScore = 0, limit = 50 } = options;
+
+  const docs = await Scholarship.find({
+    verification_status: { $ne: "rejected" },
+    deadline: { $gte: new Date(Date.now() - DEADLINE_WINDOW_DAYS * DAY_MS) },
+  }).lean();
+
+  // Compare within buckets; union-find joins pairs into clusters
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  const pairs = new Map<string, DuplicatePair>();
+  for (const bucket of bucketize(docs)) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i]._id.toString();
+        const b = bucket[j]._id.toString();
+        const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (pairs.has(key)) continue;
+
+        const match = compareScholarships(bucket[i], bucket[j]);
+        if (!match || match.score < minScore) continue;
+
+        pairs.set(key, { a, b, score: match.score, reasons: match.reasons });
+        parent.set(find(a), find(b));
+      }
+    }
+  }
+
+  const byId = new Map(docs.map((d: any) => [d._id.toString(), d]));
+  const clusters = new Map<string, { ids: Set<string>; pairs: DuplicatePair[] }>();
+  for (const pair of pairs.values()) {
+    const root = find(pair.a);
+    const cluster = clusters.get(root) ?? { ids: new Set<string>(), pairs: [] };
+    cluster.ids.add(pair.a).add(pair.b);
+    cluster.pairs.push(pair);
+    clusters.set(root, cluster);
+  }
+
+  return Array.from(clusters.values())
+    .map(({ ids, pairs }) => {
+      const members = Array.from(ids).map((id) => byId.get(id)).sort(rankForKeep);
+      return {
+        members: members.map(toScholarship),
+        pairs: pairs.sort((x, y) => y.score - x.score),
+        score: Math.max(...pairs.map((p) => p.score)),
+        suggested_keep: members[0]._id.toString(),
+      };
+    })
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit);
+}
+
+/**
+ * Merge duplicate records into `keep_id`. Each field takes the winning
+ * value (see pickWinner, or the `fields` overrides), evidence follows the
+ * winning values, and every merged record is kept whole in `merged_from`.
+ * Corrections, verification history, follows and promotions pointing at
+ * merged records are moved to the kept one before they are deleted.
+ * The field changes are recorded in the kept record's history.
+ * Returns null if any of the records does not exist.
+ */
+export async function mergeDuplicates(
+  input: MergeDuplicates,
+  reviewer: string
+): Promise<MergeResult | null> {
+  const ids = [input.keep_id, ...input.merge_ids];
+  if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) return null;
+
+  const docs = await Scholarship.find({ _id: { $in: ids } }).lean();
+  const byId = new Map(docs.map((d: any) => [d._id.toString(), d]));
+  if (ids.some((id) => !byId.has(id))) return null;
+
+  const keep: any = byId.get(input.keep_id);
+  const merged: any[] = input.merge_ids.map((id) => byId.get(id));
+  const records = [keep, ...merged];
+
+  // ── Pick field winners ────────────────────────────────────────
+  const winners = {} as Record<MergeableField, string>;
+  const $set: Record<string, unknown> = {};
+  const evidence: Record<string, string> = {};
+  for (const field of MERGEABLE_FIELDS) {
+    const override = input.fields?.[field];
+    const winner = override ? byId.get(override) : pickWinner(field, records);
+    winners[field] = winner._id.toString();
+    if (winner[field] !== undefined) $set[field] = winner[field];
+    if (winner.evidence?.[field]) evidence[field] = winner.evidence[field];
+  }
+  $set.evidence = evidence;
+  $set.updated_at = new Date();
+  // The kept record's checks were for its own link
+  const linkChanged = $set.link !== undefined && $set.link !== keep.link;
+
+  // ── Keep provenance first, so nothing is lost if a later step fails ──
+  const mergedIds = merged.map((d) => d._id);
+  const now = new Date();
+  await Scholarship.updateOne(
+    { _id: keep._id },
+    {
+      $push: {
+        merged_from: {
+          $each: merged.map((d) => ({
+            scholarship_id: d._id,
+            title: d.title,
+            organization: d.organization,
+            link: d.link,
+            deadline: d.deadline,
+            source: d.source,
+            merged_by: reviewer,
+            merged_at: now,
+            snapshot: d,
+          })),
+        },
+      },
+    }
+  );
+
+  // ── Point everything that referenced a merged record at the kept one ──
+  await Promise.all([
+    Correction.updateMany({ scholarship_id: { $in: mergedIds } }, { $set: { scholarship_id: keep._id } }),
+    VerificationEvent.updateMany({ scholarship_id: { $in: mergedIds } }, { $set: { scholarship_id: keep._id } }),
+    QuarantinedCandidate.updateMany(
+      { promoted_scholarship_id: { $in: mergedIds } },
+      { $set: { promoted_scholarship_id: keep._id } }
+    ),
+    SavedSearch.updateMany(
+      { "reminders_sent.scholarship_id": { $in: mergedIds } },
+      { $set: { "reminders_sent.$[r].scholarship_id": keep._id } },
+      { arrayFilters: [{ "r.scholarship_id": { $in: mergedIds } }] }
+    ),
+  ]);
+  await SavedSearch.updateMany(
+    { followed_scholarships: { $in: mergedIds } },
+    { $addToSet: { followed_scholarships: keep._id } }
+  );
+  await SavedSearch.updateMany(
+    { followed_scholarships: { $in: mergedIds } },
+    { $pull: { followed_scholarships: { $in: mergedIds } } }
+  );
+
+  // Delete before applying winners: a merged record may hold the same
+  // title + organization + deadline the kept record is about to take
+  await Scholarship.deleteMany({ _id: { $in: mergedIds } });
+  const updated = await Scholarship.findByIdAndUpdate(
+    keep._id,
+    { $set, ...(linkChanged && { $unset: { link_health: "" } }) },
+    { new: true }
+  ).lean();
+  await syncAmountDetails(updated);
+  await syncBlockedDomain(updated);
+  await recordVersion(keep, updated, {
+    type: "merge",
+    actor: reviewer,
+    ref: input.merge_ids.join(","),
+  });
+
+  console.log(`[Duplicates] ${reviewer} merged ${mergedIds.length} record(s) into "${updated!.title}"`);
+  return {
+    scholarship: {
+      ...toScholarship(updated),
+      evidence: updated!.evidence ?? undefined,
+      merged_from: updated!.merged_from?.map(toMergedFromRecord),
+    },
+    winners,
+    merged_ids: input.merge_ids,
+  };
+}
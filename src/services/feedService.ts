@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import { Scholarship } from "../db/Scholarship.js";
+import { buildScholarshipQuery, toScholarship } from "./scholarshipService.js";
+import type {
+  FeedFilters,
+  FeedFormat,
+  Scholarship as ScholarshipType,
+} from "../types/index.js";
+
+// What a feed request needs before rendering: enough to answer a
+// conditional GET without building the document
+export interface FeedSnapshot {
+  items: ScholarshipType[];
+  etag: string;
+  last_modified?: Date; // Latest created_at/updated_at among the items
+}
+
+const FEED_TITLE = "ScholarHub: new and updated scholarships";
+const UID_PREFIX = "urn:scholarhub:scholarship:";
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** "ScholarHub: … (Germany, Master)" for a filtered feed */
+function feedTitle(filters: FeedFilters): string {
+  const parts = [filters.country, filters.level, filters.field, filters.category].filter(
+    (v): v is string => !!v && v !== "all"
+  );
+  return parts.length > 0 ? `${FEED_TITLE} (${parts.join(", ")})` : FEED_TITLE;
+}
+
+/** Plain-text summary: where, who for, when and how much, then the description */
+function itemText(s: ScholarshipType): string {
+  const facts = [
+    `${s.organization} — ${s.country}, ${s.level}, ${s.field}`,
+    `Deadline: ${s.deadline}`,
+    s.amount ? `Amount: ${s.amount}` : null,
+  ].filter(Boolean);
+  return `${facts.join("\n")}\n\n${s.description}`;
+}
+
+function toRss(snapshot: FeedSnapshot, title: string, selfUrl: string): string {
+  const items = snapshot.items.map((s) =>
+    [
+      "<item>",
+      `<title>${escapeXml(s.title)}</title>`,
+      `<link>${escapeXml(s.link)}</link>`,
+      `<guid isPermaLink="false">${UID_PREFIX}${s.id}</guid>`,
+      `<pubDate>${new Date(s.created_at!).toUTCString()}</pubDate>`,
+      `<description>${escapeXml(itemText(s))}</description>`,
+      `<category>${escapeXml(s.category)}</category>`,
+      "</item>",
+    ].join("")
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">`,
+    "<channel>",
+    `<title>${escapeXml(title)}</title>`,
+    `<link>${escapeXml(selfUrl)}</link>`,
+    `<description>Scholarships recently added or updated on ScholarHub</description>`,
+    `<atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    snapshot.last_modified ? `<lastBuildDate>${snapshot.last_modified.toUTCString()}</lastBuildDate>` : "",
+    ...items,
+    "</channel>",
+    "</rss>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toAtom(snapshot: FeedSnapshot, title: string, selfUrl: string): string {
+  const entries = snapshot.items.map((s) =>
+    [
+      "<entry>",
+      `<id>${UID_PREFIX}${s.id}</id>`,
+      `<title>${escapeXml(s.title)}</title>`,
+      `<link href="${escapeXml(s.link)}"/>`,
+      `<published>${s.created_at}</published>`,
+      `<updated>${s.updated_at}</updated>`,
+      `<author><name>${escapeXml(s.organization)}</name></author>`,
+      `<summary type="text">${escapeXml(itemText(s))}</summary>`,
+      `<category term="${escapeXml(s.category)}"/>`,
+      "</entry>",
+    ].join("")
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `<id>${escapeXml(selfUrl)}</id>`,
+    `<title>${escapeXml(title)}</title>`,
+    `<updated>${(snapshot.last_modified ?? new Date()).toISOString()}</updated>`,
+    `<link rel="self" href="${escapeXml(selfUrl)}"/>`,
+    "<author><name>ScholarHub</name></author>",
+    ...entries,
+    "</feed>",
+  ].join("\n");
+}
+
+/** JSON Feed 1.1; scholarship fields go in the `_scholarhub` extension */
+function toJsonFeed(snapshot: FeedSnapshot, title: string, selfUrl: string): string {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title,
+      feed_url: selfUrl,
+      items: snapshot.items.map((s) => ({
+        id: `${UID_PREFIX}${s.id}`,
+        url: s.link,
+        title: s.title,
+        content_text: itemText(s),
+        date_published: s.created_at,
+        date_modified: s.updated_at,
+        authors: [{ name: s.organization }],
+        tags: [s.category, s.level, s.country, s.field],
+        _scholarhub: {
+          id: s.id,
+          organization: s.organization,
+          country: s.country,
+          level: s.level,
+          field: s.field,
+          category: s.category,
+          deadline: s.deadline,
+          amount: s.amount,
+          currency: s.currency,
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * The most recently created or updated scholarships matching the
+ * filters (open deadlines, as listed), newest change first. The ETag
+ * covers the ids and change times of the items, so it changes when a
+ * record is added, updated or drops out of the feed.
+ */
+export async function getFeedSnapshot(
+  filters: FeedFilters,
+  format: FeedFormat,
+  limit: number
+): Promise<FeedSnapshot> {
+  const { country, level, field, category } = filters;
+  const docs = await Scholarship.find(buildScholarshipQuery({ country, level, field, category }))
+    .sort({ updated_at: -1, _id: -1 })
+    .limit(limit)
+    .lean();
+  const items = docs.map(toScholarship);
+
+  const hash = crypto.createHash("sha1").update(format);
+  let latest = 0;
+  for (const s of items) {
+    hash.update(`|${s.id}:${s.updated_at}`);
+    latest = Math.max(latest, Date.parse(s.created_at!), Date.parse(s.updated_at!));
+  }
+
+  return {
+    items,
+    etag: `W/"${hash.digest("hex")}"`,
+    last_modified: latest > 0 ? new Date(latest) : undefined,
+  };
+}
+
+/**
+ * Render a snapshot as RSS 2.0, Atom or JSON Feed. `selfUrl` is the
+ * URL the feed was requested from.
+ */
+export function renderFeed(
+  format: FeedFormat,
+  snapshot: FeedSnapshot,
+  filters: FeedFilters,
+  selfUrl: string
+): { content_type: string; body: string } {
+  const title = feedTitle(filters);
+  const body =
+    format === "rss"
+      ? toRss(snapshot, title, selfUrl)
+      : format === "atom"
+        ? toAtom(snapshot, title, selfUrl)
+        : toJsonFeed(snapshot, title, selfUrl);
+  return { content_type: CONTENT_TYPES[format], body };
+}
@@ -0,0 +1,208 @@
+import mongoose from "mongoose";
+import { Scholarship } from "../db/Scholarship.js";
+import { ScholarshipVersion } from "../db/ScholarshipVersion.js";
+import { toScholarship } from "./scholarshipService.js";
+import { syncAmountDetails } from "./amountService.js";
+import { syncBlockedDomain } from "./domainPolicyService.js";
+import {
+  VERSIONED_FIELDS,
+  type ChangeSource,
+  type FieldChange,
+  type RevertResult,
+  type ScholarshipVersionRecord,
+} from "../types/index.js";
+
+// Attempts at claiming the next version number when writes race
+const MAX_VERSION_ATTEMPTS = 3;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function isUnset(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (value instanceof Map) return value.size === 0;
+  return typeof value === "object" && !(value instanceof Date) && !Array.isArray(value)
+    ? Object.keys(value).length === 0
+    : false;
+}
+
+/** Versioned fields of a Scholarship document (lean or hydrated); unset fields are left out */
+function snapshotOf(doc: any): Record<string, unknown> {
+  const source = typeof doc?.toObject === "function" ? doc.toObject({ flattenMaps: true }) : doc;
+  const snapshot: Record<string, unknown> = {};
+  for (const field of VERSIONED_FIELDS) {
+    const value = source?.[field];
+    if (!isUnset(value)) snapshot[field] = value;
+  }
+  return snapshot;
+}
+
+function comparable(value: unknown): string {
+  if (isUnset(value)) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  return JSON.stringify(value);
+}
+
+function diffSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  return VERSIONED_FIELDS.filter(
+    (field) => comparable(before[field]) !== comparable(after[field])
+  ).map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
+
+/** Dates as YYYY-MM-DD, like the deadline on a Scholarship */
+function toApiValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString().split("T")[0] : value;
+}
+
+function toVersionRecord(doc: any): ScholarshipVersionRecord {
+  return {
+    id: doc._id.toString(),
+    scholarship_id: doc.scholarship_id.toString(),
+    version: doc.version,
+    changes: (doc.changes ?? []).map((c: any) => ({
+      field: c.field,
+      from: toApiValue(c.from ?? null),
+      to: toApiValue(c.to ?? null),
+    })),
+    source: {
+      type: doc.source.type,
+      actor: doc.source.actor ?? undefined,
+      ref: doc.source.ref ?? undefined,
+    },
+    created_at: doc.created_at.toISOString(),
+  };
+}
+
+/** Store a version under the next free number for the scholarship */
+async function insertVersion(
+  scholarshipId: mongoose.Types.ObjectId,
+  data: {
+    changes: FieldChange[];
+    source: ChangeSource;
+    snapshot: Record<string, unknown>;
+    created_at?: Date;
+  }
+): Promise<any> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await ScholarshipVersion.findOne({ scholarship_id: scholarshipId })
+      .sort({ version: -1 })
+      .select({ version: 1 })
+      .lean();
+    try {
+      const doc = await ScholarshipVersion.create({
+        ...data,
+        scholarship_id: scholarshipId,
+        version: (latest?.version ?? 0) + 1,
+      });
+      return doc.toObject();
+    } catch (error: any) {
+      // Duplicate key: another write claimed the number first
+      if (error.code !== 11000 || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Record a write to a scholarship as a new version if it changed any
+ * versioned field. `before` is null for a new record. A record created
+ * before history was kept first gets its prior state stored as an
+ * "initial" version, so it can always be reverted to.
+ * Errors are logged, not thrown: the write itself already happened.
+ */
+export async function recordVersion(
+  before: any | null,
+  after: any,
+  source: ChangeSource
+): Promise<ScholarshipVersionRecord | null> {
+  try {
+    const previous = before ? snapshotOf(before) : {};
+    const current = snapshotOf(after);
+    const changes = diffSnapshots(previous, current);
+    if (changes.length === 0) return null;
+
+    if (before && !(await ScholarshipVersion.exists({ scholarship_id: before._id }))) {
+      await insertVersion(before._id, {
+        changes: [],
+        source: { type: "initial", actor: before.source ?? undefined },
+        snapshot: previous,
+        created_at: before.updated_at ?? before.created_at,
+      });
+    }
+
+    const doc = await insertVersion(after._id, { changes, source, snapshot: current });
+    return toVersionRecord(doc);
+  } catch (error: any) {
+    console.error(`[History] Failed to record version of ${after?._id}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Change history of a scholarship, newest version first.
+ * Returns null if the scholarship does not exist.
+ */
+export async function getHistory(id: string): Promise<ScholarshipVersionRecord[] | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  if (!(await Scholarship.exists({ _id: id }))) return null;
+
+  const versions = await ScholarshipVersion.find({ scholarship_id: id })
+    .sort({ version: -1 })
+    .lean();
+  return versions.map(toVersionRecord);
+}
+
+/**
+ * Restore the versioned fields of a scholarship to their state right
+ * after `version`. The revert is itself recorded as a new version, so it
+ * can be undone the same way. Values are restored as they were, without
+ * re-running validation. Returns null if the scholarship or version does
+ * not exist.
+ */
+export async function revertToVersion(
+  id: string,
+  version: number,
+  actor: string
+): Promise<RevertResult | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+
+  const [current, target] = await Promise.all([
+    Scholarship.findById(id).lean(),
+    ScholarshipVersion.findOne({ scholarship_id: id, version }).lean(),
+  ]);
+  if (!current || !target) return null;
+
+  const wanted: Record<string, unknown> = target.snapshot ?? {};
+  if (diffSnapshots(snapshotOf(current), wanted).length === 0) {
+    return { scholarship: toScholarship(current), version: null };
+  }
+
+  const $set: Record<string, unknown> = { updated_at: new Date() };
+  const $unset: Record<string, ""> = {};
+  for (const field of VERSIONED_FIELDS) {
+    if (wanted[field] === undefined) $unset[field] = "";
+    else $set[field] = field === "deadline" ? new Date(wanted[field] as string) : wanted[field];
+  }
+  // Checks of the replaced link say nothing about the restored one
+  if ($set.link !== undefined && $set.link !== current.link) $unset.link_health = "";
+
+  const updated = await Scholarship.findByIdAndUpdate(
+    id,
+    { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+    { new: true }
+  ).lean();
+  if (!updated) return null;
+  await syncAmountDetails(updated);
+  await syncBlockedDomain(updated);
+
+  const recorded = await recordVersion(current, updated, {
+    type: "revert",
+    actor,
+    ref: String(version),
+  });
+  console.log(`[History] ${actor} reverted "${updated.title}" to version ${version}`);
+  return { scholarship: toScholarship(updated), version: recorded };
+}
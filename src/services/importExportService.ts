@@ -0,0 +1,394 @@
+import {
+  checkManualScholarship,
+  getScholarships,
+  importScholarship,
+} from "./scholarshipService.js";
+import {
+  CSV_CONTENT_TYPE,
+  XLSX_CONTENT_TYPE,
+  parseCsv,
+  parseXlsx,
+  toCsv,
+  toXlsx,
+  type Cell,
+} from "./spreadsheet.js";
+import {
+  InsertScholarshipSchema,
+  type ApiFilters,
+  type ExportFormat,
+  type ImportReport,
+  type ImportRowResult,
+  type Scholarship,
+} from "../types/index.js";
+
+/** Largest request body accepted by the import route */
+export const IMPORT_BODY_LIMIT = "10mb";
+
+export interface ExportFile {
+  filename: string;
+  content_type: string;
+  body: string | Buffer;
+  total: number; // Records matching the filters
+  exported: number; // Records in the file (capped at EXPORT_MAX_ROWS)
+}
+
+// One row of an import file, keyed by column
+interface ImportRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+const LIST_SEPARATOR = "; ";
+
+// Spreadsheet columns, in order. Imports read the same columns back;
+// id, review state and timestamps are ignored there.
+const COLUMNS: { name: string; value: (s: Scholarship) => Cell }[] = [
+  { name: "id", value: (s) => s.id },
+  { name: "title", value: (s) => s.title },
+  { name: "organization", value: (s) => s.organization },
+  { name: "country", value: (s) => s.country },
+  { name: "level", value: (s) => s.level },
+  { name: "field", value: (s) => s.field },
+  { name: "category", value: (s) => s.category },
+  { name: "deadline", value: (s) => s.deadline },
+  { name: "link", value: (s) => s.link },
+  { name: "amount", value: (s) => s.amount },
+  { name: "currency", value: (s) => s.currency },
+  { name: "description", value: (s) => s.description },
+  { name: "allowed_nationalities", value: (s) => s.eligibility?.allowed_nationalities.join(LIST_SEPARATOR) },
+  { name: "excluded_nationalities", value: (s) => s.eligibility?.excluded_nationalities.join(LIST_SEPARATOR) },
+  { name: "min_gpa", value: (s) => s.eligibility?.min_gpa },
+  { name: "language_test_required", value: (s) => s.eligibility?.language_test_required },
+  {
+    name: "language_tests",
+    value: (s) =>
+      s.eligibility?.language_tests
+        .map((t) => (t.min_score != null ? `${t.test}:${t.min_score}` : t.test))
+        .join(LIST_SEPARATOR),
+  },
+  { name: "min_age", value: (s) => s.eligibility?.min_age },
+  { name: "max_age", value: (s) => s.eligibility?.max_age },
+  { name: "required_documents", value: (s) => s.eligibility?.required_documents.join(LIST_SEPARATOR) },
+  { name: "coverage", value: (s) => s.eligibility?.coverage.join(LIST_SEPARATOR) },
+  { name: "annual_value_min", value: (s) => s.amount_normalized?.annual_min },
+  { name: "annual_value_max", value: (s) => s.amount_normalized?.annual_max },
+  { name: "one_off_value_min", value: (s) => s.amount_normalized?.one_off_min },
+  { name: "one_off_value_max", value: (s) => s.amount_normalized?.one_off_max },
+  { name: "annual_value_currency", value: (s) => s.amount_normalized?.currency },
+  { name: "is_verified", value: (s) => s.is_verified },
+  { name: "verification_status", value: (s) => s.verification_status },
+  { name: "source", value: (s) => s.source },
+  { name: "created_at", value: (s) => s.created_at },
+  { name: "updated_at", value: (s) => s.updated_at },
+];
+
+const TEXT_FIELDS = [
+  "title",
+  "organization",
+  "country",
+  "level",
+  "field",
+  "category",
+  "description",
+  "link",
+  "amount",
+  "currency",
+  "source",
+];
+
+// Columns an import sheet may use: the export's, plus the text fields
+// it does not write
+const IMPORT_COLUMN_COUNT = new Set([...COLUMNS.map((c) => c.name), ...TEXT_FIELDS]).size;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Most records one export returns (EXPORT_MAX_ROWS) */
+function exportMaxRows(): number {
+  const fromEnv = parseInt(process.env.EXPORT_MAX_ROWS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 10000;
+}
+
+/** Most rows one import accepts (IMPORT_MAX_ROWS) */
+function importMaxRows(): number {
+  const fromEnv = parseInt(process.env.IMPORT_MAX_ROWS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 2000;
+}
+
+/** "Min GPA" / "eligibility.min_gpa" → "min_gpa" */
+function columnKey(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/^eligibility\./, "")
+    .replace(/[\s-]+/g, "_");
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+function toList(value: unknown): unknown {
+  if (isBlank(value) || Array.isArray(value)) return isBlank(value) ? undefined : value;
+  return String(value)
+    .split(/[;|\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Numbers from text cells; anything unreadable is left for the schema to report */
+function toNumber(value: unknown): unknown {
+  if (isBlank(value)) return undefined;
+  if (typeof value === "number") return value;
+  const parsed = Number(String(value).trim().replace(",", "."));
+  return isNaN(parsed) ? value : parsed;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (isBlank(value) || typeof value === "boolean") return isBlank(value) ? undefined : value;
+  const text = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  if (["false", "no", "n", "0"].includes(text)) return false;
+  return value;
+}
+
+/**
+ * Deadline as YYYY-MM-DD: Excel date serials (days since 1899-12-30)
+ * and other parseable dates are converted, anything else is kept.
+ */
+function toDeadline(value: unknown): unknown {
+  if (isBlank(value)) return undefined;
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+    return date.toISOString().split("T")[0];
+  }
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return text;
+  // Date-only text parses as local midnight; keep the calendar day
+  return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()))
+    .toISOString()
+    .split("T")[0];
+}
+
+/** "IELTS:6.5; TOEFL 90; DELF" → [{ test, min_score }] */
+function toLanguageTests(value: unknown): unknown {
+  if (isBlank(value) || Array.isArray(value)) return isBlank(value) ? undefined : value;
+  return (toList(value) as string[]).map((item) => {
+    const match = item.match(/^(.*?)[\s:]+(\d+(?:[.,]\d+)?)$/);
+    return match
+      ? { test: match[1].trim(), min_score: Number(match[2].replace(",", ".")) }
+      : { test: item };
+  });
+}
+
+/**
+ * Candidate scholarship for one row. Spreadsheet rows are flat (the
+ * eligibility columns of the export); JSON items may also be nested
+ * like the API. Unknown columns are dropped by the schema.
+ */
+function toCandidate(values: Record<string, unknown>): Record<string, unknown> {
+  const candidate: Record<string, unknown> = {};
+  for (const field of TEXT_FIELDS) {
+    if (!isBlank(values[field])) candidate[field] = String(values[field]).trim();
+  }
+  candidate.deadline = toDeadline(values.deadline);
+
+  const nested =
+    values.eligibility && typeof values.eligibility === "object"
+      ? (values.eligibility as Record<string, unknown>)
+      : {};
+  const pick = (key: string) => (nested[key] !== undefined ? nested[key] : values[key]);
+  const eligibility: Record<string, unknown> = {
+    allowed_nationalities: toList(pick("allowed_nationalities")),
+    excluded_nationalities: toList(pick("excluded_nationalities")),
+    min_gpa: toNumber(pick("min_gpa")),
+    language_test_required: toBoolean(pick("language_test_required")),
+    language_tests: toLanguageTests(pick("language_tests")),
+    min_age: toNumber(pick("min_age")),
+    max_age: toNumber(pick("max_age")),
+    required_documents: toList(pick("required_documents")),
+    coverage: Array.isArray(pick("coverage"))
+      ? pick("coverage")
+      : (toList(pick("coverage")) as string[] | undefined)?.map((item) => item.toLowerCase()),
+  };
+  if (Object.values(eligibility).some((v) => v !== undefined)) {
+    candidate.eligibility = Object.fromEntries(
+      Object.entries(eligibility).filter(([, v]) => v !== undefined)
+    );
+  }
+  return candidate;
+}
+
+/** Rows of a spreadsheet keyed by the (normalised) header row */
+function keyByHeader(sheet: { number: number; cells: string[] }[]): ImportRow[] {
+  const [header, ...rows] = sheet;
+  if (!header) return [];
+  const keys = header.cells.map(columnKey);
+  return rows.map((r) => ({
+    row: r.number,
+    values: Object.fromEntries(
+      keys.map((key, i) => [key, r.cells[i] ?? ""] as const).filter(([key]) => key !== "")
+    ),
+  }));
+}
+
+/** `{ "scholarships": [...] }`, the wrapped form of a JSON import */
+function isWrappedImport(body: unknown): body is { scholarships: unknown } {
+  return typeof body === "object" && body !== null && "scholarships" in body;
+}
+
+function describeIssue(issue: { path: (string | number)[]; message: string }): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Export the scholarships matching the list filters (same filters,
+ * sorting and display currency as `GET /api/scholarships`), up to
+ * EXPORT_MAX_ROWS. JSON holds the API records; CSV and XLSX hold one
+ * row per scholarship with the eligibility spread over columns.
+ */
+export async function exportScholarships(
+  filters: ApiFilters,
+  format: ExportFormat
+): Promise<ExportFile> {
+  const { data, pagination } = await getScholarships({ ...filters, page: 1, limit: exportMaxRows() });
+  const filename = `scholarships-${new Date().toISOString().split("T")[0]}.${format}`;
+  const header = COLUMNS.map((c) => c.name);
+  const rows = data.map((s) => COLUMNS.map((c) => c.value(s)));
+
+  if (pagination.total > data.length) {
+    console.warn(`[Export] ${pagination.total} records match, exporting the first ${data.length}`);
+  }
+  const file = { filename, total: pagination.total, exported: data.length };
+  if (format === "json") {
+    return { ...file, content_type: "application/json", body: JSON.stringify(data, null, 2) };
+  }
+  if (format === "xlsx") {
+    return { ...file, content_type: XLSX_CONTENT_TYPE, body: toXlsx(header, rows) };
+  }
+  return { ...file, content_type: CSV_CONTENT_TYPE, body: toCsv(header, rows) };
+}
+
+/**
+ * Read the rows of an import file: CSV text, an XLSX workbook (first
+ * sheet) or JSON (an array of scholarships, or `{ "scholarships": [...] }`).
+ * Spreadsheets need a header row with the export's column names.
+ * Returns an error message instead if the file cannot be read or has
+ * too many rows (IMPORT_MAX_ROWS).
+ */
+export function readImportFile(
+  format: ExportFormat,
+  body: unknown
+): { rows?: ImportRow[]; error?: string } {
+  let rows: ImportRow[];
+  try {
+    if (format === "json") {
+      const items = Array.isArray(body) ? body : isWrappedImport(body) ? body.scholarships : undefined;
+      if (!Array.isArray(items)) {
+        return { error: "JSON imports must be an array of scholarships or { \"scholarships\": [...] }" };
+      }
+      rows = items.map((item, i) => ({
+        row: i + 1,
+        values: item && typeof item === "object" ? (item as Record<string, unknown>) : {},
+      }));
+    } else if (format === "xlsx") {
+      if (!Buffer.isBuffer(body) || body.length === 0) {
+        return { error: `XLSX imports must be sent as ${XLSX_CONTENT_TYPE}` };
+      }
+      rows = keyByHeader(parseXlsx(body, IMPORT_COLUMN_COUNT));
+    } else {
+      if (typeof body !== "string" || body.trim() === "") {
+        return { error: "CSV imports must be sent as text/csv" };
+      }
+      rows = keyByHeader(parseCsv(body));
+    }
+  } catch (error: any) {
+    return { error: error.message };
+  }
+
+  if (rows.length === 0) return { error: "The file has no rows to import" };
+  if (rows.length > importMaxRows()) {
+    return { error: `At most ${importMaxRows()} rows can be imported at once (got ${rows.length})` };
+  }
+  return { rows };
+}
+
+/**
+ * Import rows read by readImportFile. Each row is validated like
+ * `POST /api/scholarships` (schema, official link, lengths, future
+ * deadline) and stored with the duplicate handling of fetched
+ * scholarships. Failing rows are reported and skipped; the others are
+ * still imported. With `dryRun` nothing is written and the report
+ * shows what would happen.
+ */
+export async function importScholarships(
+  rows: ImportRow[],
+  options: { actor: string; dryRun?: boolean; ref?: string }
+): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+  const results: ImportRowResult[] = [];
+  // A dry run writes nothing, so repeats within the file are caught here
+  const seen = new Map<string, number>();
+
+  for (const { row, values } of rows) {
+    const parsed = InsertScholarshipSchema.safeParse(toCandidate(values));
+    if (!parsed.success) {
+      results.push({
+        row,
+        action: "error",
+        title: typeof values.title === "string" ? values.title : undefined,
+        errors: parsed.error.issues.map(describeIssue),
+      });
+      continue;
+    }
+
+    const data = { ...parsed.data, source: parsed.data.source || "import" };
+    const problems = checkManualScholarship(data);
+    if (problems.length > 0) {
+      results.push({ row, action: "error", title: data.title, errors: problems });
+      continue;
+    }
+
+    const key = `${data.title.trim().toLowerCase()}|${data.organization.trim().toLowerCase()}`;
+    if (dryRun && seen.has(key)) {
+      results.push({ row, action: "duplicate", title: data.title, duplicate_of_row: seen.get(key) });
+      continue;
+    }
+    seen.set(key, row);
+
+    try {
+      const result = await importScholarship(
+        data,
+        { type: "import", actor: options.actor, ref: options.ref },
+        dryRun
+      );
+      results.push({ row, title: data.title, ...result });
+    } catch (error: any) {
+      // Unique index: an identical record was stored meanwhile
+      if (error.code === 11000) {
+        results.push({ row, action: "duplicate", title: data.title });
+        continue;
+      }
+      results.push({ row, action: "error", title: data.title, errors: [error.message] });
+    }
+  }
+
+  const count = (action: ImportRowResult["action"]) => results.filter((r) => r.action === action).length;
+  const report: ImportReport = {
+    dry_run: dryRun,
+    total: results.length,
+    inserted: count("insert"),
+    updated: count("update"),
+    duplicates: count("duplicate"),
+    failed: count("error"),
+    rows: results,
+  };
+  console.log(
+    `[Import] ${options.actor}${dryRun ? " (dry run)" : ""}: ${report.inserted} inserted, ` +
+      `${report.updated} updated, ${report.duplicates} duplicates, ${report.failed} failed`
+  );
+  return report;
+}
@@ -0,0 +1,406 @@
+import os from "os";
+import mongoose from "mongoose";
+import { Job } from "../db/Job.js";
+import type {
+  EnqueueResult,
+  JobRecord,
+  JobStatus,
+  JobType,
+  PaginatedResponse,
+} from "../types/index.js";
+
+/** Passed to a running job to report progress and honour cancellation */
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  /** Store progress (also refreshes the heartbeat). Throws if the job was cancelled. */
+  progress(current: number, total: number, message?: string): Promise<void>;
+  /** Throws if cancellation was requested; call between steps */
+  throwIfCancelled(): Promise<void>;
+  /** What an earlier attempt stored with saveState, if anything */
+  state?: unknown;
+  /** Store data for later attempts of this job (kept across retries) */
+  saveState(state: unknown): Promise<void>;
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<unknown>;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const HEARTBEAT_MS = 30 * 1000;
+
+const handlers = new Map<JobType, JobHandler>();
+let inFlight = 0;
+let ticking = false;
+let poller: NodeJS.Timeout | undefined;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function envInt(name: string, fallback: number, min = 1): number {
+  const fromEnv = parseInt(process.env[name] || "");
+  return !isNaN(fromEnv) && fromEnv >= min ? fromEnv : fallback;
+}
+
+/** Jobs run at once by this process (JOB_CONCURRENCY) */
+function concurrency(): number {
+  return envInt("JOB_CONCURRENCY", 2);
+}
+
+/** Attempts before a job fails for good (JOB_MAX_ATTEMPTS) */
+function maxAttempts(): number {
+  return envInt("JOB_MAX_ATTEMPTS", 3);
+}
+
+/** First retry delay, doubled on every further attempt (JOB_RETRY_BASE_SECONDS) */
+function retryBaseSeconds(): number {
+  return envInt("JOB_RETRY_BASE_SECONDS", 60);
+}
+
+/** Minutes without a heartbeat before a running job counts as abandoned (JOB_STALE_MINUTES) */
+function staleMinutes(): number {
+  return envInt("JOB_STALE_MINUTES", 10);
+}
+
+/** How often the worker looks for queued jobs (JOB_POLL_INTERVAL_MS) */
+function pollIntervalMs(): number {
+  return envInt("JOB_POLL_INTERVAL_MS", 5000, 100);
+}
+
+function toJobRecord(doc: any): JobRecord {
+  return {
+    id: doc._id.toString(),
+    type: doc.type,
+    status: doc.status,
+    attempts: doc.attempts ?? 0,
+    max_attempts: doc.max_attempts ?? 1,
+    run_after: doc.run_after.toISOString(),
+    progress: doc.progress?.total !== undefined
+      ? {
+          current: doc.progress.current ?? 0,
+          total: doc.progress.total,
+          message: doc.progress.message ?? undefined,
+        }
+      : undefined,
+    result: doc.result ?? undefined,
+    error: doc.error ?? undefined,
+    cancel_requested: !!doc.cancel_requested,
+    requested_by: doc.requested_by ?? undefined,
+    started_at: doc.started_at?.toISOString(),
+    finished_at: doc.finished_at?.toISOString(),
+    created_at: doc.created_at.toISOString(),
+    updated_at: doc.updated_at.toISOString(),
+  };
+}
+
+async function isCancelRequested(jobId: mongoose.Types.ObjectId): Promise<boolean> {
+  const doc = await Job.findById(jobId).select({ cancel_requested: 1 }).lean();
+  return !!doc?.cancel_requested;
+}
+
+/**
+ * Close a job after its handler threw: cancelled if that was requested,
+ * queued again with exponential backoff while attempts remain, failed
+ * otherwise.
+ */
+async function settleFailure(doc: any, message: string): Promise<void> {
+  const now = new Date();
+  if (await isCancelRequested(doc._id)) {
+    await Job.updateOne(
+      { _id: doc._id },
+      { $set: { status: "cancelled", finished_at: now, updated_at: now }, $unset: { active: "" } }
+    );
+    console.log(`[Jobs] ${doc.type} ${doc._id} cancelled`);
+    return;
+  }
+
+  if (doc.attempts < doc.max_attempts) {
+    const delay = retryBaseSeconds() * 1000 * 2 ** (doc.attempts - 1);
+    await Job.updateOne(
+      { _id: doc._id },
+      {
+        $set: {
+          status: "queued",
+          error: message,
+          run_after: new Date(now.getTime() + delay),
+          updated_at: now,
+        },
+        $unset: { worker_id: "", heartbeat_at: "" },
+      }
+    );
+    console.warn(`[Jobs] ${doc.type} ${doc._id} failed (attempt ${doc.attempts}/${doc.max_attempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+    return;
+  }
+
+  await Job.updateOne(
+    { _id: doc._id },
+    {
+      $set: { status: "failed", error: message, finished_at: now, updated_at: now },
+      $unset: { active: "" },
+    }
+  );
+  console.error(`[Jobs] ${doc.type} ${doc._id} failed after ${doc.attempts} attempt(s): ${message}`);
+}
+
+async function runJob(doc: any): Promise<void> {
+  const handler = handlers.get(doc.type)!;
+  const heartbeat = setInterval(() => {
+    Job.updateOne({ _id: doc._id }, { $set: { heartbeat_at: new Date() } }).catch((err) =>
+      console.error("[Jobs] Heartbeat error:", err.message)
+    );
+  }, HEARTBEAT_MS);
+
+  const throwIfCancelled = async () => {
+    if (await isCancelRequested(doc._id)) throw new Error("Job cancelled");
+  };
+  const ctx: JobContext = {
+    jobId: doc._id.toString(),
+    attempt: doc.attempts,
+    async progress(current, total, message) {
+      const now = new Date();
+      await Job.updateOne(
+        { _id: doc._id },
+        { $set: { progress: { current, total, message }, heartbeat_at: now, updated_at: now } }
+      );
+      await throwIfCancelled();
+    },
+    throwIfCancelled,
+    state: doc.state,
+    async saveState(state) {
+      await Job.updateOne({ _id: doc._id }, { $set: { state, updated_at: new Date() } });
+    },
+  };
+
+  console.log(`[Jobs] ${doc.type} ${doc._id} started (attempt ${doc.attempts}/${doc.max_attempts})`);
+  try {
+    const result = await handler(ctx);
+    const now = new Date();
+    await Job.updateOne(
+      { _id: doc._id },
+      {
+        $set: { status: "completed", result, finished_at: now, updated_at: now },
+        $unset: { active: "", error: "" },
+      }
+    );
+    console.log(`[Jobs] ${doc.type} ${doc._id} completed`);
+  } catch (error: any) {
+    await settleFailure(doc, error?.message ?? String(error));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/** Take the next due job of a registered type, if any */
+async function claimNext(): Promise<any | null> {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      status: "queued",
+      run_after: { $lte: now },
+      type: { $in: Array.from(handlers.keys()) },
+    },
+    {
+      $set: {
+        status: "running",
+        worker_id: WORKER_ID,
+        heartbeat_at: now,
+        started_at: now,
+        updated_at: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { run_after: 1, created_at: 1 }, new: true }
+  ).lean();
+}
+
+/**
+ * Requeue (or fail, or cancel) running jobs whose worker stopped
+ * sending heartbeats, e.g. after a crash or restart mid-run.
+ */
+async function recoverStaleJobs(): Promise<void> {
+  const cutoff = new Date(Date.now() - staleMinutes() * 60 * 1000);
+  const stale = await Job.find({ status: "running", heartbeat_at: { $lt: cutoff } }).lean();
+  for (const doc of stale) {
+    // Only settle it if no other worker got there first
+    const claimed = await Job.updateOne(
+      { _id: doc._id, status: "running", heartbeat_at: doc.heartbeat_at },
+      { $set: { heartbeat_at: new Date() } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+    await settleFailure(doc, "Worker stopped responding");
+  }
+}
+
+/** Start due jobs until the concurrency limit is reached */
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    await recoverStaleJobs();
+    while (inFlight < concurrency()) {
+      const doc = await claimNext();
+      if (!doc) break;
+      inFlight++;
+      runJob(doc)
+        .catch((err) => console.error("[Jobs] Unhandled job error:", err))
+        .finally(() => {
+          inFlight--;
+          void tick();
+        });
+    }
+  } catch (error: any) {
+    console.error("[Jobs] Worker error:", error.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Register the function that runs a job type. Only registered types
+ * are picked up by this process.
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Start polling for queued jobs (every JOB_POLL_INTERVAL_MS).
+ */
+export function startJobWorker(): void {
+  if (poller) return;
+  poller = setInterval(() => void tick(), pollIntervalMs());
+  console.log(`[Jobs] Worker ${WORKER_ID} started (${concurrency()} concurrent, types: ${Array.from(handlers.keys()).join(", ")})`);
+  void tick();
+}
+
+/**
+ * Stop polling; jobs already running finish on their own.
+ */
+export function stopJobWorker(): void {
+  if (poller) clearInterval(poller);
+  poller = undefined;
+}
+
+/**
+ * Queue a job. Single-flight: while a job of the same type is queued or
+ * running, that job is returned (`created: false`) instead of a new one.
+ */
+export async function enqueueJob(
+  type: JobType,
+  options: { requestedBy?: string; maxAttempts?: number } = {}
+): Promise<EnqueueResult> {
+  try {
+    const doc = await Job.create({
+      type,
+      lock_key: type,
+      active: true,
+      max_attempts: options.maxAttempts ?? maxAttempts(),
+      requested_by: options.requestedBy,
+    });
+    if (poller) void tick();
+    return { job: toJobRecord(doc.toObject()), created: true };
+  } catch (error: any) {
+    if (error.code !== 11000) throw error;
+    const existing = await Job.findOne({ lock_key: type, active: true }).lean();
+    // The active job finished in between: try again
+    if (!existing) return enqueueJob(type, options);
+    return { job: toJobRecord(existing), created: false };
+  }
+}
+
+/**
+ * Get a job with its status and progress.
+ */
+export async function getJob(id: string): Promise<JobRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await Job.findById(id).lean();
+  return doc ? toJobRecord(doc) : null;
+}
+
+/**
+ * List jobs, newest first.
+ */
+export async function listJobs(options: {
+  status?: JobStatus;
+  type?: JobType;
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<JobRecord>> {
+  const { status, type, page = 1, limit = 20 } = options;
+
+  const query: any = {};
+  if (status) query.status = status;
+  if (type) query.type = type;
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    Job.countDocuments(query),
+    Job.find(query).sort({ created_at: -1 }).skip(offset).limit(limit).lean(),
+  ]);
+
+  return {
+    data: data.map(toJobRecord),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Cancel a queued or running job. A queued job is cancelled at once; a
+ * running one stops at its next progress report or checkpoint. Returns
+ * null if the job is not queued or running.
+ */
+export async function cancelJob(id: string): Promise<JobRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const now = new Date();
+
+  const queued = await Job.findOneAndUpdate(
+    { _id: id, status: "queued" },
+    {
+      $set: { status: "cancelled", cancel_requested: true, finished_at: now, updated_at: now },
+      $unset: { active: "" },
+    },
+    { new: true }
+  ).lean();
+  if (queued) return toJobRecord(queued);
+
+  const running = await Job.findOneAndUpdate(
+    { _id: id, status: "running" },
+    { $set: { cancel_requested: true, updated_at: now } },
+    { new: true }
+  ).lean();
+  return running ? toJobRecord(running) : null;
+}
+
+/**
+ * Queue a failed or cancelled job again with fresh attempts. Returns
+ * null if the job is not failed or cancelled. Throws a duplicate key
+ * error (11000) if another job of the same type is queued or running.
+ */
+export async function retryJob(id: string): Promise<JobRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const now = new Date();
+  const doc = await Job.findOneAndUpdate(
+    { _id: id, status: { $in: ["failed", "cancelled"] } },
+    {
+      $set: {
+        status: "queued",
+        active: true,
+        attempts: 0,
+        cancel_requested: false,
+        run_after: now,
+        updated_at: now,
+      },
+      $unset: { error: "", result: "", progress: "", finished_at: "", worker_id: "", heartbeat_at: "" },
+    },
+    { new: true }
+  ).lean();
+  if (!doc) return null;
+  if (poller) void tick();
+  return toJobRecord(doc);
+}
@@ -0,0 +1,231 @@
+import { Scholarship } from "../db/Scholarship.js";
+import { probeLink } from "./ai/utils.js";
+import { toLinkHealth, toScholarship } from "./scholarshipService.js";
+import type { JobContext } from "./jobService.js";
+import type {
+  BrokenLinkEntry,
+  LinkCheckSummary,
+  LinkProbe,
+  LinkReportStatus,
+  PaginatedResponse,
+} from "../types/index.js";
+
+// Checks kept per record (the failure count keeps going)
+const MAX_HISTORY = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let running = false;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function envInt(name: string, fallback: number, min = 1): number {
+  const fromEnv = parseInt(process.env[name] || "");
+  return !isNaN(fromEnv) && fromEnv >= min ? fromEnv : fallback;
+}
+
+/** Consecutive failures before a link is flagged broken (LINK_CHECK_MAX_FAILURES) */
+function maxFailures(): number {
+  return envInt("LINK_CHECK_MAX_FAILURES", 3);
+}
+
+/** Links re-checked in parallel (LINK_CHECK_CONCURRENCY) */
+function concurrency(): number {
+  return envInt("LINK_CHECK_CONCURRENCY", 5);
+}
+
+/** Pause between two requests to the same host (LINK_CHECK_HOST_DELAY_MS) */
+function hostDelayMs(): number {
+  return envInt("LINK_CHECK_HOST_DELAY_MS", 2000, 0);
+}
+
+/** Minimum hours between two checks of a record (LINK_CHECK_INTERVAL_HOURS) */
+function intervalHours(): number {
+  return envInt("LINK_CHECK_INTERVAL_HOURS", 24);
+}
+
+/** Records checked per run (LINK_CHECK_BATCH_SIZE) */
+function batchSize(): number {
+  return envInt("LINK_CHECK_BATCH_SIZE", 500);
+}
+
+function hostOf(link: string): string {
+  try {
+    return new URL(link).hostname.toLowerCase();
+  } catch {
+    return link;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Store one check on the record: append it to the history, update the
+ * failure streak and flag or clear `broken`. Dropped if the link was
+ * changed while it was being checked.
+ */
+async function applyCheck(
+  doc: any,
+  probe: LinkProbe
+): Promise<"ok" | "recovered" | "failed" | "flagged"> {
+  const now = new Date();
+  const health = doc.link_health ?? {};
+  const wasBroken = !!health.broken;
+  const failures = probe.ok ? 0 : (health.consecutive_failures ?? 0) + 1;
+  const broken = !probe.ok && (wasBroken || failures >= maxFailures());
+
+  const $set: Record<string, unknown> = {
+    "link_health.last_checked_at": now,
+    "link_health.consecutive_failures": failures,
+    "link_health.broken": broken,
+  };
+  const $unset: Record<string, ""> = {};
+  if (probe.ok) $set["link_health.last_ok_at"] = now;
+  if (probe.status_code !== undefined) $set["link_health.status_code"] = probe.status_code;
+  else $unset["link_health.status_code"] = "";
+  if (probe.final_url) $set["link_health.final_url"] = probe.final_url;
+  else $unset["link_health.final_url"] = "";
+  if (broken && !wasBroken) $set["link_health.broken_since"] = now;
+  if (!broken) $unset["link_health.broken_since"] = "";
+
+  await Scholarship.updateOne(
+    { _id: doc._id, link: doc.link },
+    {
+      $set,
+      ...(Object.keys($unset).length > 0 && { $unset }),
+      $push: {
+        "link_health.history": {
+          $each: [{ ...probe, checked_at: now }],
+          $slice: -MAX_HISTORY,
+        },
+      },
+    }
+  );
+
+  if (probe.ok) return wasBroken ? "recovered" : "ok";
+  if (broken && !wasBroken) {
+    console.warn(`[LinkHealth] Flagged broken after ${failures} failures: ${doc.title} — ${doc.link}`);
+    return "flagged";
+  }
+  return "failed";
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+export function isLinkHealthCheckRunning(): boolean {
+  return running;
+}
+
+/**
+ * Re-check the application links of listed records (future deadline,
+ * not rejected) that were not checked in the last
+ * LINK_CHECK_INTERVAL_HOURS, least recently checked first. Hosts are
+ * checked in parallel (LINK_CHECK_CONCURRENCY); requests to the same
+ * host are spaced by LINK_CHECK_HOST_DELAY_MS. A link failing
+ * LINK_CHECK_MAX_FAILURES checks in a row is flagged broken and hidden
+ * from listings until a check succeeds again. When run as a job,
+ * progress is reported per host and the run stops between hosts once
+ * cancelled.
+ */
+export async function runLinkHealthCheck(ctx?: JobContext): Promise<LinkCheckSummary> {
+  if (running) throw new Error("Link health check already running");
+  running = true;
+
+  const summary: LinkCheckSummary = { checked: 0, ok: 0, failed: 0, flagged: 0, recovered: 0 };
+  try {
+    const cutoff = new Date(Date.now() - intervalHours() * HOUR_MS);
+    const docs = await Scholarship.find({
+      deadline: { $gte: new Date() },
+      verification_status: { $ne: "rejected" },
+      $or: [
+        { "link_health.last_checked_at": { $exists: false } },
+        { "link_health.last_checked_at": { $lt: cutoff } },
+      ],
+    })
+      .select({ title: 1, link: 1, link_health: 1 })
+      .sort({ "link_health.last_checked_at": 1 })
+      .limit(batchSize())
+      .lean();
+
+    const byHost = new Map<string, any[]>();
+    for (const doc of docs) {
+      const host = hostOf(doc.link);
+      byHost.set(host, [...(byHost.get(host) ?? []), doc]);
+    }
+    const queue = Array.from(byHost.values());
+
+    // Each worker takes one host at a time and checks its links in sequence
+    let hostsDone = 0;
+    const worker = async () => {
+      for (let hostDocs = queue.shift(); hostDocs; hostDocs = queue.shift()) {
+        await ctx?.progress(hostsDone, byHost.size, hostOf(hostDocs[0].link));
+        for (let i = 0; i < hostDocs.length; i++) {
+          if (i > 0) await sleep(hostDelayMs());
+          const outcome = await applyCheck(hostDocs[i], await probeLink(hostDocs[i].link));
+          summary.checked++;
+          summary[outcome]++;
+        }
+        hostsDone++;
+      }
+    };
+    // Let every worker stop at its next host before giving up on a cancelled run
+    const settled = await Promise.allSettled(
+      Array.from({ length: Math.min(concurrency(), queue.length) }, () => worker())
+    );
+    const failure = settled.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failure) throw failure.reason;
+    await ctx?.progress(byHost.size, byHost.size);
+
+    console.log(
+      `[LinkHealth] Checked ${summary.checked} link(s) on ${byHost.size} host(s) — ok: ${summary.ok}, failed: ${summary.failed}, flagged: ${summary.flagged}, recovered: ${summary.recovered}`
+    );
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Records with link problems: `broken` (flagged, hidden from listings),
+ * `failing` (failed recently, not flagged yet) or `redirected` (the
+ * link now lands somewhere else). Longest failure streak first.
+ */
+export async function listBrokenLinks(options: {
+  status?: LinkReportStatus;
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<BrokenLinkEntry>> {
+  const { status = "broken", page = 1, limit = 20 } = options;
+
+  const query: any =
+    status === "broken"
+      ? { "link_health.broken": true }
+      : status === "failing"
+        ? { "link_health.consecutive_failures": { $gt: 0 }, "link_health.broken": { $ne: true } }
+        : { "link_health.final_url": { $exists: true } };
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    Scholarship.countDocuments(query),
+    Scholarship.find(query)
+      .sort({ "link_health.consecutive_failures": -1, "link_health.last_checked_at": -1 })
+      .skip(offset)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    data: data.map((doc: any) => ({
+      scholarship: toScholarship(doc),
+      link_health: toLinkHealth(doc.link_health),
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
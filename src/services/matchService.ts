@@ -0,0 +1,231 @@
+import { Scholarship } from "../db/Scholarship.js";
+import { buildScholarshipQuery, toScholarship } from "./scholarshipService.js";
+import type {
+  MatchCriterion,
+  MatchResponse,
+  ScholarshipMatch,
+  StudentProfile,
+} from "../types/index.js";
+
+// Points available per criterion; they add up to 100
+const WEIGHTS = {
+  level: 25,
+  field: 20,
+  country: 15,
+  nationality: 15,
+  gpa: 15,
+  language: 10,
+} as const;
+
+// Partial credit when the scholarship does not state a requirement
+const UNKNOWN_SHARE = 1 / 3;
+
+// Words ignored when comparing fields of study
+const FIELD_STOPWORDS = new Set(["a", "an", "the", "of", "and", "in", "for", "to", "studies"]);
+
+// A scored record, converted to its API form only if it is returned
+interface ScoredCandidate {
+  doc: any;
+  score: number;
+  criteria: MatchCriterion[];
+}
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Significant words of a field, singular ("Earth Sciences" → earth, science) */
+function fieldWords(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !FIELD_STOPWORDS.has(w))
+    .map((w) => (w.length > 3 ? w.replace(/s$/, "") : w));
+}
+
+/** True if every word of one field appears as a whole word in the other */
+function fieldsOverlap(a: string, b: string): boolean {
+  const wordsA = fieldWords(a);
+  const wordsB = fieldWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return false;
+  return wordsA.every((w) => wordsB.includes(w)) || wordsB.every((w) => wordsA.includes(w));
+}
+
+function scoreLevel(doc: any, profile: StudentProfile): MatchCriterion {
+  if (doc.level === profile.level) {
+    return { criterion: "level", outcome: "match", points: WEIGHTS.level, reason: `Offered for ${doc.level} study` };
+  }
+  if (doc.level === "Any") {
+    return { criterion: "level", outcome: "partial", points: Math.round(WEIGHTS.level * 0.6), reason: "Open to any study level" };
+  }
+  return { criterion: "level", outcome: "excluded", points: 0, reason: `Only for ${doc.level} study` };
+}
+
+function scoreField(doc: any, profile: StudentProfile): MatchCriterion {
+  if (!profile.field) {
+    return { criterion: "field", outcome: "unknown", points: Math.round(WEIGHTS.field * UNKNOWN_SHARE), reason: "No field of study given" };
+  }
+  const field = String(doc.field || "");
+  if (sameText(field, "Any")) {
+    return { criterion: "field", outcome: "partial", points: Math.round(WEIGHTS.field / 2), reason: "Open to any field of study" };
+  }
+  if (sameText(field, profile.field) || fieldsOverlap(field, profile.field)) {
+    return { criterion: "field", outcome: "match", points: WEIGHTS.field, reason: `Covers ${field}` };
+  }
+  return { criterion: "field", outcome: "mismatch", points: 0, reason: `Targets ${field}, not ${profile.field}` };
+}
+
+function scoreCountry(doc: any, profile: StudentProfile): MatchCriterion {
+  if (profile.countries.length === 0) {
+    return { criterion: "country", outcome: "unknown", points: Math.round(WEIGHTS.country / 2), reason: "No country preference given" };
+  }
+  if (profile.countries.some((c) => sameText(c, doc.country))) {
+    return { criterion: "country", outcome: "match", points: WEIGHTS.country, reason: `Study in ${doc.country}, one of your preferred countries` };
+  }
+  return { criterion: "country", outcome: "mismatch", points: 0, reason: `Study in ${doc.country}, not a preferred country` };
+}
+
+function scoreNationality(doc: any, profile: StudentProfile): MatchCriterion {
+  const allowed: string[] = doc.eligibility?.allowed_nationalities ?? [];
+  const excluded: string[] = doc.eligibility?.excluded_nationalities ?? [];
+
+  if (!profile.nationality) {
+    return { criterion: "nationality", outcome: "unknown", points: Math.round(WEIGHTS.nationality * UNKNOWN_SHARE), reason: "No nationality given" };
+  }
+  if (excluded.some((n) => sameText(n, profile.nationality!))) {
+    return { criterion: "nationality", outcome: "excluded", points: 0, reason: `${profile.nationality} citizens are not eligible` };
+  }
+  if (allowed.length === 0) {
+    return { criterion: "nationality", outcome: "unknown", points: Math.round(WEIGHTS.nationality * UNKNOWN_SHARE), reason: "No nationality restriction stated" };
+  }
+  if (allowed.some((n) => sameText(n, profile.nationality!))) {
+    return { criterion: "nationality", outcome: "match", points: WEIGHTS.nationality, reason: `Explicitly open to ${profile.nationality} citizens` };
+  }
+  return { criterion: "nationality", outcome: "excluded", points: 0, reason: `Only open to citizens of ${allowed.join(", ")}` };
+}
+
+function scoreGpa(doc: any, profile: StudentProfile): MatchCriterion {
+  const minGpa: number | null | undefined = doc.eligibility?.min_gpa;
+  if (minGpa == null) {
+    return { criterion: "gpa", outcome: "unknown", points: Math.round(WEIGHTS.gpa * UNKNOWN_SHARE), reason: "No minimum GPA stated" };
+  }
+  if (profile.gpa === undefined) {
+    return { criterion: "gpa", outcome: "unknown", points: Math.round(WEIGHTS.gpa * UNKNOWN_SHARE), reason: `Requires GPA ${minGpa}; no GPA given` };
+  }
+  if (profile.gpa >= minGpa) {
+    return { criterion: "gpa", outcome: "match", points: WEIGHTS.gpa, reason: `Your GPA ${profile.gpa} meets the ${minGpa} minimum` };
+  }
+  return { criterion: "gpa", outcome: "excluded", points: 0, reason: `Requires GPA ${minGpa}; yours is ${profile.gpa}` };
+}
+
+function scoreLanguage(doc: any, profile: StudentProfile): MatchCriterion {
+  const required: boolean | null | undefined = doc.eligibility?.language_test_required;
+  const tests: { test: string; min_score?: number | null }[] = doc.eligibility?.language_tests ?? [];
+
+  if (required === false) {
+    return { criterion: "language", outcome: "match", points: WEIGHTS.language, reason: "No language test required" };
+  }
+  if (tests.length === 0) {
+    return { criterion: "language", outcome: "unknown", points: Math.round(WEIGHTS.language * UNKNOWN_SHARE), reason: "No language requirement stated" };
+  }
+
+  // Any one accepted test at or above its minimum is enough
+  const attempts = tests
+    .map((t) => ({ requirement: t, taken: profile.language_scores.find((s) => sameText(s.test, t.test)) }))
+    .filter((a) => a.taken);
+  const passed = attempts.find((a) => a.requirement.min_score == null || a.taken!.score >= a.requirement.min_score);
+  if (passed) {
+    return { criterion: "language", outcome: "match", points: WEIGHTS.language, reason: `Your ${passed.requirement.test} score meets the requirement` };
+  }
+
+  const accepted = tests.map((t) => (t.min_score != null ? `${t.test} ${t.min_score}` : t.test)).join(" or ");
+  if (attempts.length > 0) {
+    return { criterion: "language", outcome: "excluded", points: 0, reason: `Requires ${accepted}; your score is below the minimum` };
+  }
+  return { criterion: "language", outcome: "partial", points: 0, reason: `Requires ${accepted}; no matching score given` };
+}
+
+function scoreAge(doc: any, profile: StudentProfile): MatchCriterion | null {
+  const minAge: number | null | undefined = doc.eligibility?.min_age;
+  const maxAge: number | null | undefined = doc.eligibility?.max_age;
+  if ((minAge == null && maxAge == null) || profile.age === undefined) return null;
+
+  if ((minAge != null && profile.age < minAge) || (maxAge != null && profile.age > maxAge)) {
+    return { criterion: "age", outcome: "excluded", points: 0, reason: `Age limit ${minAge ?? "–"} to ${maxAge ?? "–"}` };
+  }
+  return { criterion: "age", outcome: "match", points: 0, reason: `Within age limit ${minAge ?? "–"} to ${maxAge ?? "–"}` };
+}
+
+function scoreScholarship(doc: any, profile: StudentProfile): ScoredCandidate {
+  const criteria = [
+    scoreLevel(doc, profile),
+    scoreField(doc, profile),
+    scoreCountry(doc, profile),
+    scoreNationality(doc, profile),
+    scoreGpa(doc, profile),
+    scoreLanguage(doc, profile),
+    scoreAge(doc, profile),
+  ].filter((c): c is MatchCriterion => c !== null);
+
+  return { doc, score: criteria.reduce((sum, c) => sum + c.points, 0), criteria };
+}
+
+/**
+ * Insert into a list kept best first and capped at `limit`. Candidates
+ * arrive soonest deadline first, so an equal score goes after the ones
+ * already kept.
+ */
+function keepBest(list: ScoredCandidate[], candidate: ScoredCandidate, limit: number): void {
+  const at = list.findIndex((kept) => candidate.score > kept.score);
+  if (at === -1) {
+    if (list.length < limit) list.push(candidate);
+    return;
+  }
+  list.splice(at, 0, candidate);
+  if (list.length > limit) list.pop();
+}
+
+function toMatch(candidate: ScoredCandidate): ScholarshipMatch {
+  return {
+    scholarship: toScholarship(candidate.doc),
+    score: candidate.score,
+    criteria: candidate.criteria,
+  };
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Rank scholarships by fit for a student profile.
+ * Candidates come from the same query as the public listing; every one
+ * is scored per criterion (streamed, so only the best `limit` are kept),
+ * and any hard eligibility failure (nationality, GPA, language score,
+ * age, level) moves it to `excluded` with the reason.
+ */
+export async function matchScholarships(profile: StudentProfile): Promise<MatchResponse> {
+  const query = buildScholarshipQuery({ category: profile.category });
+  query.level = { $in: [profile.level, "Any"] };
+
+  const matches: ScoredCandidate[] = [];
+  const excluded: ScoredCandidate[] = [];
+  let considered = 0;
+  for await (const doc of Scholarship.find(query).sort({ deadline: 1 }).lean().cursor()) {
+    considered++;
+    const result = scoreScholarship(doc, profile);
+    if (result.criteria.some((c) => c.outcome === "excluded")) {
+      if (excluded.length < profile.limit) excluded.push(result);
+    } else {
+      keepBest(matches, result, profile.limit);
+    }
+  }
+
+  return {
+    matches: matches.map(toMatch),
+    excluded: excluded.map(toMatch),
+    considered,
+  };
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Notification, NotificationTransport } from "./types.js";
+
+/**
+ * Local transport for development and tests.
+ * Appends each notification as a JSON line to a file, or prints it
+ * when no file is configured. The subscriber target is only recorded,
+ * never used as a path.
+ */
+export class FileTransport implements NotificationTransport {
+  constructor(private filePath: string | undefined) {}
+
+  getTransportName(): string {
+    return this.filePath ? "File" : "Console";
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(target: string, notification: Notification): Promise<void> {
+    if (!this.filePath) {
+      console.log(`[Notify] → ${target}: ${notification.subject}\n${notification.text}`);
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ sent_at: new Date().toISOString(), target, ...notification }) + "\n"
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { Notification, NotificationChannel, NotificationTransport } from "./types.js";
+import { SmtpTransport } from "./smtp.transport.js";
+import { WebhookTransport } from "./webhook.transport.js";
+import { FileTransport } from "./file.transport.js";
+
+// Lazily created transports, one per channel
+const transports = new Map<NotificationChannel, NotificationTransport>();
+
+function createTransport(channel: NotificationChannel): NotificationTransport {
+  switch (channel) {
+    case "email":
+      // EMAIL_TRANSPORT=file|console keeps emails local (development and tests)
+      if (process.env.EMAIL_TRANSPORT === "file" || process.env.EMAIL_TRANSPORT === "console") {
+        return createTransport(process.env.EMAIL_TRANSPORT);
+      }
+      return new SmtpTransport(
+        process.env.SMTP_URL,
+        process.env.SMTP_FROM || "ScholarBridge <no-reply@scholarbridge.com>"
+      );
+    case "webhook":
+      return new WebhookTransport();
+    case "file":
+      return new FileTransport(process.env.NOTIFY_FILE_PATH || "data/notifications.log");
+    case "console":
+      return new FileTransport(undefined);
+  }
+}
+
+/**
+ * Get the transport for a delivery channel
+ */
+export function getTransport(channel: NotificationChannel): NotificationTransport {
+  let transport = transports.get(channel);
+  if (!transport) {
+    transport = createTransport(channel);
+    transports.set(channel, transport);
+  }
+  return transport;
+}
+
+/**
+ * Deliver a notification over a channel.
+ * Returns false (and logs) instead of throwing so one bad subscriber
+ * cannot stop a digest run.
+ */
+export async function deliver(
+  channel: NotificationChannel,
+  target: string,
+  notification: Notification
+): Promise<boolean> {
+  const transport = getTransport(channel);
+  if (!transport.isConfigured()) {
+    console.warn(`[Notify] ${transport.getTransportName()} transport not configured — skipped ${target}`);
+    return false;
+  }
+
+  try {
+    await transport.send(target, notification);
+    return true;
+  } catch (error: any) {
+    console.error(`[Notify] ${transport.getTransportName()} delivery to ${target} failed:`, error.message);
+    return false;
+  }
+}
+
+export { checkWebhookTarget } from "./webhook.transport.js";
+export type { Notification, NotificationChannel, NotificationTransport } from "./types.js";
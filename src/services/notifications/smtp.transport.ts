@@ -0,0 +1,42 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { Notification, NotificationTransport } from "./types.js";
+
+export class SmtpTransport implements NotificationTransport {
+  private transporter: Transporter | null = null;
+
+  constructor(
+    private smtpUrl: string | undefined,
+    private from: string
+  ) {}
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport(this.smtpUrl);
+    }
+    return this.transporter;
+  }
+
+  getTransportName(): string {
+    return "SMTP";
+  }
+
+  isConfigured(): boolean {
+    return !!this.smtpUrl;
+  }
+
+  async send(target: string, notification: Notification): Promise<void> {
+    await this.getTransporter().sendMail({
+      from: this.from,
+      to: target,
+      subject: notification.subject,
+      text: notification.text,
+      // RFC 8058 one-click unsubscribe for mail clients that support it
+      headers: notification.unsubscribe_url
+        ? {
+            "List-Unsubscribe": `<${notification.unsubscribe_url}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          }
+        : undefined,
+    });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * A message to deliver to a saved-search subscriber
+ */
+export interface Notification {
+  subject: string;
+  text: string;
+  /** Machine-readable payload, sent as-is by the webhook transport */
+  data: Record<string, unknown>;
+  /** One-click unsubscribe link for the subscription the message belongs to */
+  unsubscribe_url?: string;
+}
+
+/**
+ * Abstract interface for notification delivery
+ * All transports (SMTP, webhook, file/console) must implement this interface
+ */
+export interface NotificationTransport {
+  /**
+   * Deliver a notification
+   * @param target - Channel-specific address (email address, webhook URL, ...)
+   * @param notification - The message to deliver
+   */
+  send(target: string, notification: Notification): Promise<void>;
+
+  /**
+   * Get the name of the transport for logging
+   */
+  getTransportName(): string;
+
+  /**
+   * Check if the transport is configured and can deliver
+   */
+  isConfigured(): boolean;
+}
+
+export type NotificationChannel = "email" | "webhook" | "file" | "console";
@@ -0,0 +1,107 @@
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+import { Notification, NotificationTransport } from "./types.js";
+
+// Addresses a webhook may not reach: loopback, private, link-local
+// (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Why a webhook URL may not be used, or null if it may. The host must
+ * resolve only to public addresses; checked when subscribing and again
+ * before every delivery, since DNS can change in between.
+ */
+export async function checkWebhookTarget(target: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return "Target must be an http(s) URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "Target must be an http(s) URL";
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await dns.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Host ${host} does not resolve`;
+  }
+
+  const blocked = addresses.some(({ address, family }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked ? `Host ${host} is not a public address` : null;
+}
+
+export class WebhookTransport implements NotificationTransport {
+  getTransportName(): string {
+    return "Webhook";
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * POST the notification as JSON. Times out after 10 seconds. Redirects
+   * are not followed, so a public host cannot bounce the request inward.
+   */
+  async send(target: string, notification: Notification): Promise<void> {
+    const rejected = await checkWebhookTarget(target);
+    if (rejected) throw new Error(rejected);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      const res = await fetch(target, {
+        method: "POST",
+        signal: controller.signal,
+        redirect: "manual",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ScholarBridge-Notifier/1.0",
+        },
+        body: JSON.stringify({
+          subject: notification.subject,
+          text: notification.text,
+          ...notification.data,
+          ...(notification.unsubscribe_url ? { unsubscribe_url: notification.unsubscribe_url } : {}),
+        }),
+      });
+      await res.text().catch(() => {});
+      if (!res.ok) {
+        throw new Error(`Webhook responded ${res.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
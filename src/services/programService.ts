@@ -0,0 +1,271 @@
+import mongoose from "mongoose";
+import { Program } from "../db/Program.js";
+import { Scholarship } from "../db/Scholarship.js";
+import { normalizeTitle, organizationKey } from "./similarity.js";
+import { toScholarship } from "./scholarshipService.js";
+import type {
+  PaginatedResponse,
+  ProgramDetail,
+  ProgramRecord,
+  ProgramStatus,
+  RolloverSummary,
+} from "../types/index.js";
+
+// Margin around the projected opening dates of past cycles
+const OPEN_WINDOW_MARGIN_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Days between targeted searches for one program, overridable with PROGRAM_RECHECK_INTERVAL_DAYS */
+function recheckIntervalDays(): number {
+  const fromEnv = parseInt(process.env.PROGRAM_RECHECK_INTERVAL_DAYS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 7;
+}
+
+/** Programs searched per fetch cycle, overridable with PROGRAM_RECHECK_LIMIT */
+function recheckLimit(): number {
+  const fromEnv = parseInt(process.env.PROGRAM_RECHECK_LIMIT || "");
+  return !isNaN(fromEnv) && fromEnv >= 0 ? fromEnv : 4;
+}
+
+/** Same award in any year: organization key + sorted significant title words */
+function programKeyOf(s: { title: string; organization: string }): string {
+  const words = Array.from(new Set(normalizeTitle(s.title, s.organization))).sort();
+  return `${organizationKey(s.organization)}|${words.join(" ")}`;
+}
+
+/** The first date after `after` with the same month and day as `date` */
+function nextAnniversary(date: Date, after: Date): Date {
+  const next = new Date(date);
+  next.setUTCFullYear(after.getUTCFullYear());
+  while (next <= after) next.setUTCFullYear(next.getUTCFullYear() + 1);
+  return next;
+}
+
+/**
+ * Recompute a program from its (non-rejected) cycles: the latest cycle,
+ * whether it is still open, and otherwise when the next cycle is
+ * expected. The opening window spans the dates past cycles were first
+ * seen, projected past the last deadline; the deadline is expected a
+ * year after the last one.
+ */
+async function refreshProgram(programId: mongoose.Types.ObjectId | string): Promise<void> {
+  const cycles = await Scholarship.find({
+    program_id: programId,
+    verification_status: { $ne: "rejected" },
+  })
+    .sort({ deadline: 1 })
+    .select({ title: 1, organization: 1, country: 1, link: 1, deadline: 1, created_at: 1 })
+    .lean();
+  if (cycles.length === 0) return;
+
+  const latest = cycles[cycles.length - 1];
+  const now = new Date();
+  const open = latest.deadline >= now;
+
+  const $set: Record<string, unknown> = {
+    name: latest.title,
+    organization: latest.organization,
+    country: latest.country,
+    link: latest.link,
+    status: open ? "open" : "expected_to_reopen",
+    current_scholarship_id: latest._id,
+    cycle_count: cycles.length,
+    last_deadline: latest.deadline,
+    updated_at: now,
+  };
+  const $unset: Record<string, ""> = {};
+
+  if (open) {
+    $set.check_count = 0;
+    $unset.expected_open_from = "";
+    $unset.expected_open_to = "";
+    $unset.expected_deadline = "";
+  } else {
+    const openings = cycles.map((c) =>
+      nextAnniversary(c.created_at ?? c.deadline, latest.deadline).getTime()
+    );
+    const margin = OPEN_WINDOW_MARGIN_DAYS * DAY_MS;
+    $set.expected_open_from = new Date(Math.min(...openings) - margin);
+    $set.expected_open_to = new Date(Math.max(...openings) + margin);
+    $set.expected_deadline = nextAnniversary(latest.deadline, latest.deadline);
+  }
+
+  await Program.updateOne(
+    { _id: programId },
+    { $set, ...(Object.keys($unset).length > 0 && { $unset }) }
+  );
+}
+
+function toProgramRecord(doc: any): ProgramRecord {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    organization: doc.organization,
+    country: doc.country ?? undefined,
+    link: doc.link ?? undefined,
+    status: doc.status,
+    current_scholarship_id: doc.current_scholarship_id?.toString(),
+    cycle_count: doc.cycle_count ?? 0,
+    last_deadline: doc.last_deadline?.toISOString().split("T")[0],
+    expected_open_from: doc.expected_open_from?.toISOString().split("T")[0],
+    expected_open_to: doc.expected_open_to?.toISOString().split("T")[0],
+    expected_deadline: doc.expected_deadline?.toISOString().split("T")[0],
+    last_checked_at: doc.last_checked_at?.toISOString(),
+    check_count: doc.check_count ?? 0,
+    created_at: doc.created_at.toISOString(),
+    updated_at: doc.updated_at.toISOString(),
+  };
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Link a stored cycle to its program, if the award already had a cycle
+ * that closed. Run after inserting a scholarship, and after an archived
+ * record gets a new deadline.
+ */
+export async function attachToProgram(doc: {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  organization: string;
+  deadline: Date;
+}): Promise<void> {
+  const program = await Program.findOne({ key: programKeyOf(doc) }).lean();
+  if (!program) return;
+
+  await Scholarship.updateOne({ _id: doc._id }, { $set: { program_id: program._id } });
+  await refreshProgram(program._id);
+
+  if (program.status === "expected_to_reopen" && doc.deadline > (program.last_deadline ?? 0)) {
+    console.log(`[Programs] Next cycle of "${program.name}" found (deadline ${doc.deadline.toISOString().split("T")[0]})`);
+  }
+}
+
+/**
+ * Archive cycles whose deadline has passed and mark their programs as
+ * expected to reopen. A program is created the first time one of its
+ * cycles closes. Rejected records are left alone.
+ */
+export async function rolloverExpiredCycles(): Promise<RolloverSummary> {
+  const now = new Date();
+  const expired = await Scholarship.find({
+    deadline: { $lt: now },
+    archived_at: { $exists: false },
+    verification_status: { $ne: "rejected" },
+  })
+    .select({ title: 1, organization: 1, program_id: 1 })
+    .lean();
+
+  const programIds = new Set<string>();
+  for (const doc of expired) {
+    let programId = doc.program_id;
+    if (!programId) {
+      const key = programKeyOf(doc);
+      const program = await Program.findOneAndUpdate(
+        { key },
+        { $setOnInsert: { name: doc.title, organization: doc.organization } },
+        { upsert: true, new: true }
+      ).lean();
+      programId = program!._id;
+    }
+    await Scholarship.updateOne(
+      { _id: doc._id },
+      { $set: { archived_at: now, program_id: programId } }
+    );
+    programIds.add(programId.toString());
+  }
+
+  for (const id of programIds) {
+    await refreshProgram(id);
+  }
+
+  if (expired.length > 0) {
+    console.log(`[Programs] Archived ${expired.length} closed cycle(s) across ${programIds.size} program(s)`);
+  }
+  return { archived: expired.length, programs: programIds.size };
+}
+
+/**
+ * Targeted search queries for the next cycle of programs expected to
+ * reopen whose opening window has started, least recently searched
+ * first. A program is searched at most every PROGRAM_RECHECK_INTERVAL_DAYS
+ * and at most PROGRAM_RECHECK_LIMIT programs per fetch cycle. The
+ * programs are marked as searched.
+ */
+export async function claimProgramQueries(): Promise<string[]> {
+  const limit = recheckLimit();
+  if (limit === 0) return [];
+
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - recheckIntervalDays() * DAY_MS);
+  const programs = await Program.find({
+    status: "expected_to_reopen",
+    expected_open_from: { $lte: now },
+    $or: [{ last_checked_at: { $exists: false } }, { last_checked_at: { $lt: cutoff } }],
+  })
+    .sort({ last_checked_at: 1 })
+    .limit(limit)
+    .lean();
+  if (programs.length === 0) return [];
+
+  await Program.updateMany(
+    { _id: { $in: programs.map((p) => p._id) } },
+    { $set: { last_checked_at: now }, $inc: { check_count: 1 } }
+  );
+
+  return programs.map((p) => {
+    const name = p.name.replace(/\b(19|20)\d{2}(\s*[/–-]\s*\d{2,4})?\b/g, " ").replace(/\s+/g, " ").trim();
+    const year = (p.expected_deadline ?? now).getUTCFullYear();
+    return `${name} ${p.organization} ${year} official application deadline`;
+  });
+}
+
+/**
+ * List recurring programs, next expected opening first.
+ */
+export async function listPrograms(options: {
+  status?: ProgramStatus;
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<ProgramRecord>> {
+  const { status, page = 1, limit = 20 } = options;
+
+  const query: any = {};
+  if (status) query.status = status;
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    Program.countDocuments(query),
+    Program.find(query)
+      .sort({ expected_open_from: 1, last_deadline: -1 })
+      .skip(offset)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    data: data.map(toProgramRecord),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get a program with all of its cycles, latest first.
+ */
+export async function getProgram(id: string): Promise<ProgramDetail | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+
+  const doc = await Program.findById(id).lean();
+  if (!doc) return null;
+
+  const cycles = await Scholarship.find({ program_id: doc._id }).sort({ deadline: -1 }).lean();
+  return { ...toProgramRecord(doc), cycles: cycles.map(toScholarship) };
+}
@@ -0,0 +1,273 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { QuarantinedCandidate } from "../db/QuarantinedCandidate.js";
+import { insertParsedScholarship } from "./scholarshipService.js";
+import { STORE_PIPELINE, checkScholarship } from "./validation/index.js";
+import {
+  ParsedScholarshipSchema,
+  type PaginatedResponse,
+  type PromoteCandidate,
+  type QuarantineRecord,
+  type Rejection,
+} from "../types/index.js";
+
+// Failures kept per candidate (the count keeps going)
+const MAX_FAILURES_KEPT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PromoteResult =
+  | { status: "promoted"; scholarship_id: string; record: QuarantineRecord }
+  | { status: "invalid"; rule: string; reason: string }
+  | { status: "duplicate"; existing_id: string };
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Purge candidates after this many failures, overridable with QUARANTINE_MAX_FAILURES */
+function maxFailures(): number {
+  const fromEnv = parseInt(process.env.QUARANTINE_MAX_FAILURES || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 5;
+}
+
+/** Purge candidates not seen for this many days, overridable with QUARANTINE_RETENTION_DAYS */
+function retentionDays(): number {
+  const fromEnv = parseInt(process.env.QUARANTINE_RETENTION_DAYS || "");
+  return !isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 30;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Identify a candidate across runs the same way storeScholarships
+ * de-duplicates: title + organization, falling back to the link, then
+ * to the raw content.
+ */
+function fingerprintOf(candidate: Record<string, unknown>): string {
+  const title = asString(candidate.title)?.toLowerCase();
+  const organization = asString(candidate.organization)?.toLowerCase();
+  const link = asString(candidate.link);
+  const basis =
+    title && organization
+      ? `${title}|${organization}`
+      : link ?? JSON.stringify(candidate);
+  return crypto.createHash("sha1").update(basis).digest("hex");
+}
+
+function toQuarantineRecord(doc: any): QuarantineRecord {
+  return {
+    id: doc._id.toString(),
+    candidate: doc.candidate,
+    title: doc.title ?? undefined,
+    organization: doc.organization ?? undefined,
+    link: doc.link ?? undefined,
+    failures: (doc.failures ?? []).map((f: any) => ({
+      stage: f.stage,
+      rule: f.rule,
+      reason: f.reason,
+      source: f.source ?? undefined,
+      query: f.query ?? undefined,
+      failed_at: f.failed_at.toISOString(),
+    })),
+    failure_count: doc.failure_count,
+    status: doc.status,
+    promoted_scholarship_id: doc.promoted_scholarship_id?.toString(),
+    promoted_by: doc.promoted_by ?? undefined,
+    promoted_at: doc.promoted_at?.toISOString(),
+    first_seen_at: doc.first_seen_at.toISOString(),
+    last_seen_at: doc.last_seen_at.toISOString(),
+  };
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Quarantine the rejected candidates of a fetch cycle. Rejections
+ * without a candidate (e.g. unparseable responses) are skipped; a
+ * candidate seen before gets the new failure appended. Promoted
+ * candidates are left alone. Returns the number quarantined.
+ */
+export async function quarantineRejections(rejections: Rejection[]): Promise<number> {
+  let quarantined = 0;
+
+  for (const rejection of rejections) {
+    if (!rejection.candidate || typeof rejection.candidate !== "object") continue;
+
+    const candidate = rejection.candidate as Record<string, unknown>;
+    const now = new Date();
+    try {
+      await QuarantinedCandidate.updateOne(
+        { fingerprint: fingerprintOf(candidate), status: "quarantined" },
+        {
+          $set: {
+            candidate,
+            title: asString(candidate.title),
+            organization: asString(candidate.organization),
+            link: asString(candidate.link),
+            last_seen_at: now,
+          },
+          $push: {
+            failures: {
+              $each: [
+                {
+                  stage: rejection.stage,
+                  rule: rejection.rule,
+                  reason: rejection.reason,
+                  source: rejection.source,
+                  query: rejection.query,
+                  failed_at: now,
+                },
+              ],
+              $slice: -MAX_FAILURES_KEPT,
+            },
+          },
+          $inc: { failure_count: 1 },
+          $setOnInsert: { first_seen_at: now },
+        },
+        { upsert: true }
+      );
+      quarantined++;
+    } catch (error: any) {
+      // Duplicate key: already promoted under this fingerprint
+      if (error.code !== 11000) {
+        console.error("[Quarantine] DB error:", error.message);
+      }
+    }
+  }
+
+  console.log(`[Quarantine] Quarantined ${quarantined}/${rejections.length} rejected candidate(s)`);
+  return quarantined;
+}
+
+/**
+ * Delete candidates that keep failing (QUARANTINE_MAX_FAILURES) or have
+ * not been seen for QUARANTINE_RETENTION_DAYS. Promoted candidates are
+ * kept as provenance. Returns the number deleted.
+ */
+export async function purgeQuarantine(): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays() * DAY_MS);
+  const result = await QuarantinedCandidate.deleteMany({
+    status: "quarantined",
+    $or: [{ failure_count: { $gte: maxFailures() } }, { last_seen_at: { $lt: cutoff } }],
+  });
+
+  if (result.deletedCount > 0) {
+    console.log(`[Quarantine] Purged ${result.deletedCount} candidate(s)`);
+  }
+  return result.deletedCount;
+}
+
+/**
+ * List quarantined candidates, most recently seen first.
+ */
+export async function listQuarantine(options: {
+  status?: "quarantined" | "promoted";
+  rule?: string;
+  source?: string;
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<QuarantineRecord>> {
+  const { status = "quarantined", rule, source, page = 1, limit = 20 } = options;
+
+  const query: any = { status };
+  if (rule) query["failures.rule"] = rule;
+  if (source) query["failures.source"] = source;
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    QuarantinedCandidate.countDocuments(query),
+    QuarantinedCandidate.find(query)
+      .sort({ last_seen_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    data: data.map(toQuarantineRecord),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get a single quarantined candidate.
+ */
+export async function getQuarantined(id: string): Promise<QuarantineRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await QuarantinedCandidate.findById(id).lean();
+  return doc ? toQuarantineRecord(doc) : null;
+}
+
+/**
+ * Apply field fixes to a candidate and store it as a Scholarship.
+ * The result must pass the schema and the store pipeline; the link is
+ * not re-checked, since a reviewer is vouching for it. The new record
+ * enters the review queue as pending.
+ */
+export async function promoteCandidate(
+  id: string,
+  input: PromoteCandidate,
+  reviewer: string
+): Promise<PromoteResult> {
+  const doc = await QuarantinedCandidate.findById(id);
+  if (!doc) throw new Error("Candidate not found");
+  if (doc.status !== "quarantined") {
+    throw new Error(`Candidate already ${doc.status}`);
+  }
+
+  const parsed = ParsedScholarshipSchema.safeParse({ ...doc.candidate, ...input.changes });
+  if (!parsed.success) {
+    return {
+      status: "invalid",
+      rule: "schema",
+      reason: parsed.error.issues.map((i) => `${i.path.join(".") || "item"}: ${i.message}`).join("; "),
+    };
+  }
+
+  const outcome = checkScholarship(STORE_PIPELINE, parsed.data);
+  if (!outcome.valid) {
+    return { status: "invalid", rule: outcome.rule, reason: outcome.reason };
+  }
+
+  const lastSource = doc.failures[doc.failures.length - 1]?.source;
+  const { id: scholarshipId, created } = await insertParsedScholarship(
+    outcome.scholarship,
+    `quarantine:${lastSource ?? "unknown"}`,
+    { type: "quarantine", actor: reviewer, ref: id }
+  );
+  if (!created) {
+    return { status: "duplicate", existing_id: scholarshipId };
+  }
+
+  const updated = await QuarantinedCandidate.findByIdAndUpdate(
+    doc._id,
+    {
+      $set: {
+        status: "promoted",
+        candidate: { ...doc.candidate, ...input.changes },
+        promoted_scholarship_id: new mongoose.Types.ObjectId(scholarshipId),
+        promoted_by: reviewer,
+        promoted_at: new Date(),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  console.log(`[Quarantine] ${reviewer} promoted "${outcome.scholarship.title}" → ${scholarshipId}`);
+  return { status: "promoted", scholarship_id: scholarshipId, record: toQuarantineRecord(updated) };
+}
+
+/**
+ * Discard a quarantined candidate.
+ */
+export async function dismissCandidate(id: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return false;
+  const result = await QuarantinedCandidate.deleteOne({ _id: id, status: "quarantined" });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,224 @@
+import mongoose from "mongoose";
+import { QuerySet } from "../db/QuerySet.js";
+import { DEFAULT_QUERY_SETS } from "./ai/queries.js";
+import { getQueryYields } from "./scholarshipService.js";
+import type {
+  ClaimedQuerySet,
+  QuerySetInput,
+  QuerySetRecord,
+  QueryStrategy,
+  QueryYield,
+  UpdateQuerySet,
+} from "../types/index.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Selection strategy, set with QUERY_STRATEGY (default: rotation) */
+function strategy(): QueryStrategy {
+  return process.env.QUERY_STRATEGY === "coverage" ? "coverage" : "rotation";
+}
+
+/** Hours before the coverage strategy may pick a set again, overridable with QUERY_SET_COOLDOWN_HOURS */
+function cooldownHours(): number {
+  const fromEnv = parseInt(process.env.QUERY_SET_COOLDOWN_HOURS || "");
+  return !isNaN(fromEnv) && fromEnv >= 0 ? fromEnv : 24;
+}
+
+const NO_YIELD: QueryYield = { runs: 0, found: 0, added: 0, rejected: 0 };
+
+function sumYields(yields: QueryYield[]): QueryYield {
+  return yields.reduce(
+    (total, y) => ({
+      runs: total.runs + y.runs,
+      found: total.found + y.found,
+      added: total.added + y.added,
+      rejected: total.rejected + y.rejected,
+      last_run_at:
+        !total.last_run_at || (y.last_run_at && y.last_run_at > total.last_run_at)
+          ? y.last_run_at
+          : total.last_run_at,
+    }),
+    { ...NO_YIELD }
+  );
+}
+
+function toQuerySetRecord(doc: any, yields: Map<string, QueryYield>): QuerySetRecord {
+  const queries = (doc.queries ?? []).map((q: any) => ({
+    text: q.text,
+    enabled: q.enabled !== false,
+    stats: yields.get(q.text) ?? { ...NO_YIELD },
+  }));
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    tags: {
+      regions: doc.tags?.regions ?? [],
+      levels: doc.tags?.levels ?? [],
+      fields: doc.tags?.fields ?? [],
+    },
+    enabled: doc.enabled !== false,
+    queries,
+    stats: sumYields(queries.map((q: any) => q.stats)),
+    run_count: doc.run_count ?? 0,
+    last_run_at: doc.last_run_at?.toISOString(),
+    created_at: doc.created_at.toISOString(),
+    updated_at: doc.updated_at.toISOString(),
+  };
+}
+
+/** Store the built-in query sets the first time the collection is empty */
+async function ensureSeeded(): Promise<void> {
+  if ((await QuerySet.estimatedDocumentCount()) > 0) return;
+  try {
+    await QuerySet.insertMany(DEFAULT_QUERY_SETS, { ordered: false });
+    console.log(`[QuerySets] Seeded ${DEFAULT_QUERY_SETS.length} default query sets`);
+  } catch (error: any) {
+    // Duplicate key: another process seeded them first
+    if (error.code !== 11000) throw error;
+  }
+}
+
+/**
+ * Pick the set covering the weakest area: each tag (region, level,
+ * field) scores the records added per run by the sets carrying it, and
+ * a set scores its weakest tag (untagged sets score their own yield).
+ * Sets never run come first; sets run within the cooldown are skipped
+ * unless nothing else is left. Ties go to the least recently run.
+ */
+function pickByCoverage(sets: any[], yields: Map<string, QueryYield>): any {
+  const setYield = new Map(
+    sets.map((s) => [
+      s._id.toString(),
+      sumYields(s.queries.map((q: any) => yields.get(q.text) ?? NO_YIELD)),
+    ])
+  );
+  const tagsOf = (s: any): string[] => [
+    ...(s.tags?.regions ?? []).map((t: string) => `region:${t.toLowerCase()}`),
+    ...(s.tags?.levels ?? []).map((t: string) => `level:${t.toLowerCase()}`),
+    ...(s.tags?.fields ?? []).map((t: string) => `field:${t.toLowerCase()}`),
+  ];
+
+  const tagTotals = new Map<string, { runs: number; added: number }>();
+  for (const s of sets) {
+    const y = setYield.get(s._id.toString())!;
+    for (const tag of tagsOf(s)) {
+      const total = tagTotals.get(tag) ?? { runs: 0, added: 0 };
+      tagTotals.set(tag, { runs: total.runs + y.runs, added: total.added + y.added });
+    }
+  }
+
+  const rate = ({ runs, added }: { runs: number; added: number }) =>
+    runs === 0 ? -1 : added / runs;
+  const gapScore = (s: any): number => {
+    const own = setYield.get(s._id.toString())!;
+    if (own.runs === 0) return -1;
+    const tags = tagsOf(s);
+    return tags.length > 0 ? Math.min(...tags.map((t) => rate(tagTotals.get(t)!))) : rate(own);
+  };
+
+  const cutoff = Date.now() - cooldownHours() * HOUR_MS;
+  const rested = sets.filter((s) => !s.last_run_at || s.last_run_at.getTime() < cutoff);
+  const candidates = rested.length > 0 ? rested : sets;
+
+  return candidates
+    .map((s) => ({ set: s, score: gapScore(s) }))
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        (a.set.last_run_at?.getTime() ?? 0) - (b.set.last_run_at?.getTime() ?? 0)
+    )[0].set;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Pick the query set for the next fetch cycle and mark it as run.
+ * QUERY_STRATEGY=rotation (default) takes the enabled set run least
+ * recently; QUERY_STRATEGY=coverage takes the weakest-covered one (see
+ * pickByCoverage). Only enabled queries are returned. Returns null if
+ * no enabled set has an enabled query.
+ */
+export async function claimNextQuerySet(): Promise<ClaimedQuerySet | null> {
+  await ensureSeeded();
+
+  const sets = (
+    await QuerySet.find({ enabled: true }).sort({ last_run_at: 1, created_at: 1 }).lean()
+  )
+    .map((s: any) => ({ ...s, queries: s.queries.filter((q: any) => q.enabled !== false) }))
+    .filter((s: any) => s.queries.length > 0);
+  if (sets.length === 0) return null;
+
+  const mode = strategy();
+  const chosen = mode === "coverage" ? pickByCoverage(sets, await getQueryYields()) : sets[0];
+
+  await QuerySet.updateOne(
+    { _id: chosen._id },
+    { $set: { last_run_at: new Date() }, $inc: { run_count: 1 } }
+  );
+
+  return {
+    id: chosen._id.toString(),
+    name: chosen.name,
+    queries: chosen.queries.map((q: any) => q.text),
+    strategy: mode,
+  };
+}
+
+/**
+ * List query sets with per-query yield, in rotation order.
+ */
+export async function listQuerySets(): Promise<QuerySetRecord[]> {
+  await ensureSeeded();
+  const [docs, yields] = await Promise.all([
+    QuerySet.find().sort({ last_run_at: 1, created_at: 1 }).lean(),
+    getQueryYields(),
+  ]);
+  return docs.map((doc) => toQuerySetRecord(doc, yields));
+}
+
+/**
+ * Get a single query set with per-query yield.
+ */
+export async function getQuerySet(id: string): Promise<QuerySetRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await QuerySet.findById(id).lean();
+  if (!doc) return null;
+  return toQuerySetRecord(doc, await getQueryYields());
+}
+
+/**
+ * Create a query set. Throws a duplicate key error (11000) if the name is taken.
+ */
+export async function createQuerySet(input: QuerySetInput): Promise<QuerySetRecord> {
+  const doc = await QuerySet.create(input);
+  return toQuerySetRecord(doc.toObject(), await getQueryYields());
+}
+
+/**
+ * Update a query set. Yield stays with the query text, so a rewritten
+ * query starts from zero. Returns null if the set does not exist.
+ */
+export async function updateQuerySet(
+  id: string,
+  input: UpdateQuerySet
+): Promise<QuerySetRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await QuerySet.findByIdAndUpdate(
+    id,
+    { $set: { ...input, updated_at: new Date() } },
+    { new: true }
+  ).lean();
+  if (!doc) return null;
+  return toQuerySetRecord(doc, await getQueryYields());
+}
+
+/**
+ * Delete a query set.
+ */
+export async function deleteQuerySet(id: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return false;
+  const result = await QuerySet.deleteOne({ _id: id });
+  return result.deletedCount > 0;
+}
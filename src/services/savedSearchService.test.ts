@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import mongoose from "mongoose";
+import { SavedSearch } from "../db/SavedSearch.js";
+import { Scholarship } from "../db/Scholarship.js";
+import { sendDeadlineReminders, sendNewMatchDigests } from "./savedSearchService.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Emails go to a file instead of SMTP (read when the transport is first used)
+const outbox = path.join(os.tmpdir(), `saved-search-test-${process.pid}.log`);
+process.env.EMAIL_TRANSPORT = "file";
+process.env.NOTIFY_FILE_PATH = outbox;
+process.env.PUBLIC_API_URL = "https://api.example.org";
+
+/** Stand-in for a mongoose query: chainable, resolves to `result` */
+function query<T>(result: T): any {
+  const q: any = { sort: () => q, limit: () => q, lean: async () => result };
+  return q;
+}
+
+async function sentMessages(): Promise<any[]> {
+  const raw = await fs.readFile(outbox, "utf8").catch(() => "");
+  return raw.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+}
+
+function scholarship(daysLeft: number) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    title: "Example Graduate Scholarship",
+    organization: "Example University",
+    country: "Germany",
+    deadline: new Date(Date.now() + daysLeft * DAY_MS - 60 * 1000),
+    link: "https://www.example.edu/scholarship",
+  };
+}
+
+function savedSearch(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    name: "Masters in Germany",
+    filters: { country: "Germany" },
+    channel: "email",
+    target: "student@example.org",
+    active: true,
+    confirmed: true,
+    unsubscribe_token: "unsubscribe-token",
+    reminder_offsets: [30, 7, 1],
+    reminders_sent: [],
+    followed_scholarships: [],
+    created_at: new Date(Date.now() - 10 * DAY_MS),
+    ...overrides,
+  };
+}
+
+describe("saved search delivery over the file email transport", () => {
+  let updates: any[];
+
+  beforeEach(async () => {
+    await fs.rm(outbox, { force: true });
+    updates = [];
+    mock.method(SavedSearch, "updateOne", async (...args: any[]) => {
+      updates.push(args);
+      return { matchedCount: 1 };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test("a digest lists the new matches with an unsubscribe link", async () => {
+    const search = savedSearch();
+    const match = scholarship(40);
+    mock.method(SavedSearch, "find", () => query([search]));
+    mock.method(Scholarship, "find", () => query([match]));
+
+    assert.equal(await sendNewMatchDigests(), 1);
+
+    const [message] = await sentMessages();
+    assert.equal(message.target, "student@example.org");
+    assert.equal(message.subject, '1 new scholarship for "Masters in Germany"');
+    assert.match(message.text, /Example Graduate Scholarship — Example University \(Germany\)/);
+    assert.equal(
+      message.unsubscribe_url,
+      `https://api.example.org/api/saved-searches/${search._id}/unsubscribe?token=unsubscribe-token`
+    );
+    assert.equal(message.data.type, "digest");
+    assert.equal(message.data.scholarships[0].id, match._id.toString());
+
+    // The digest window moves forward once delivered
+    assert.equal(updates.length, 1);
+    assert.ok(updates[0][1].$set.last_digest_at instanceof Date);
+  });
+
+  test("no digest is sent when nothing new matches", async () => {
+    mock.method(SavedSearch, "find", () => query([savedSearch()]));
+    mock.method(Scholarship, "find", () => query([]));
+
+    assert.equal(await sendNewMatchDigests(), 0);
+    assert.deepEqual(await sentMessages(), []);
+    assert.equal(updates.length, 0);
+  });
+
+  test("a reminder covers the offsets due and skips those already sent", async () => {
+    const followed = scholarship(5);
+    const search = savedSearch({
+      followed_scholarships: [followed._id],
+      reminders_sent: [{ scholarship_id: followed._id, offset_days: 30 }],
+    });
+    mock.method(SavedSearch, "find", () => query([search]));
+    mock.method(Scholarship, "find", () => query([followed]));
+
+    assert.equal(await sendDeadlineReminders(), 1);
+
+    const [message] = await sentMessages();
+    assert.equal(message.subject, "5 days left: Example Graduate Scholarship");
+    assert.match(message.text, /Apply: https:\/\/www\.example\.edu\/scholarship/);
+    assert.match(message.text, /Unsubscribe: https:\/\/api\.example\.org\//);
+    assert.equal(message.data.type, "deadline_reminder");
+    assert.equal(message.data.days_left, 5);
+
+    // Only the 7-day offset was due; 30 was sent before and 1 is not reached
+    const pushed = updates[0][1].$push.reminders_sent.$each;
+    assert.deepEqual(
+      pushed.map((r: any) => r.offset_days),
+      [7]
+    );
+  });
+
+  test("no reminder is sent when every due offset was already sent", async () => {
+    const followed = scholarship(5);
+    const search = savedSearch({
+      followed_scholarships: [followed._id],
+      reminders_sent: [
+        { scholarship_id: followed._id, offset_days: 30 },
+        { scholarship_id: followed._id, offset_days: 7 },
+      ],
+    });
+    mock.method(SavedSearch, "find", () => query([search]));
+    mock.method(Scholarship, "find", () => query([followed]));
+
+    assert.equal(await sendDeadlineReminders(), 0);
+    assert.deepEqual(await sentMessages(), []);
+  });
+});
@@ -0,0 +1,342 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { SavedSearch } from "../db/SavedSearch.js";
+import { Scholarship } from "../db/Scholarship.js";
+import { buildScholarshipQuery } from "./scholarshipService.js";
+import { deliver, type NotificationChannel } from "./notifications/index.js";
+import type { JobContext } from "./jobService.js";
+import type { CreateSavedSearch, SavedSearchRecord } from "../types/index.js";
+
+// Most new matches listed in one digest
+const MAX_DIGEST_ITEMS = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function newToken(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+/** Absolute URL of an API path for links in messages (PUBLIC_API_URL) */
+function publicUrl(path: string): string {
+  const base = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}`;
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+/**
+ * Unsubscribe link for a saved search. Searches created before
+ * unsubscribe tokens existed get one on their first message.
+ */
+async function unsubscribeUrl(search: {
+  _id: mongoose.Types.ObjectId;
+  unsubscribe_token?: string | null;
+}): Promise<string> {
+  let token = search.unsubscribe_token;
+  if (!token) {
+    token = newToken();
+    await SavedSearch.updateOne({ _id: search._id }, { $set: { unsubscribe_token: token } });
+  }
+  return publicUrl(`/api/saved-searches/${search._id}/unsubscribe?token=${token}`);
+}
+
+/** Default reminder offsets, overridable with REMINDER_OFFSETS=30,7,1 */
+function defaultReminderOffsets(): number[] {
+  const fromEnv = (process.env.REMINDER_OFFSETS || "")
+    .split(",")
+    .map((n) => parseInt(n.trim()))
+    .filter((n) => !isNaN(n) && n > 0);
+  return fromEnv.length > 0 ? fromEnv : [30, 7, 1];
+}
+
+function toSavedSearchRecord(doc: any): SavedSearchRecord {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    filters: doc.filters ?? {},
+    channel: doc.channel,
+    target: doc.target,
+    reminder_offsets: doc.reminder_offsets ?? [],
+    followed_scholarships: (doc.followed_scholarships ?? []).map((id: any) => id.toString()),
+    active: doc.active,
+    confirmed: doc.confirmed !== false,
+    last_digest_at: doc.last_digest_at?.toISOString(),
+    created_at: doc.created_at.toISOString(),
+  };
+}
+
+/**
+ * Load a saved search if the token matches. Unknown ids and wrong
+ * tokens look the same to the caller.
+ */
+async function findWithToken(id: string, token: string | undefined) {
+  if (!token || !mongoose.Types.ObjectId.isValid(id)) return null;
+  return SavedSearch.findOne({ _id: id, token_hash: hashToken(token) });
+}
+
+function formatDeadline(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Create a saved search. The returned token is needed to manage or
+ * unsubscribe and is only shown once. Email subscriptions stay
+ * unconfirmed, and get nothing else, until the link in the confirmation
+ * email is opened; `confirmation_sent` says whether that email went out.
+ */
+export async function createSavedSearch(
+  input: CreateSavedSearch
+): Promise<{ token: string; record: SavedSearchRecord; confirmation_sent?: boolean }> {
+  const token = newToken();
+  const confirmToken = input.channel === "email" ? newToken() : undefined;
+  const doc = await SavedSearch.create({
+    ...input,
+    reminder_offsets: input.reminder_offsets ?? defaultReminderOffsets(),
+    token_hash: hashToken(token),
+    confirmed: !confirmToken,
+    confirm_token_hash: confirmToken ? hashToken(confirmToken) : undefined,
+    unsubscribe_token: newToken(),
+  });
+
+  let confirmationSent: boolean | undefined;
+  if (confirmToken) {
+    const confirmUrl = publicUrl(`/api/saved-searches/${doc._id}/confirm?token=${confirmToken}`);
+    confirmationSent = await deliver("email", input.target, {
+      subject: `Confirm your scholarship alerts for "${input.name}"`,
+      text:
+        `Someone asked to send scholarship alerts for "${input.name}" to this address.\n` +
+        `Confirm: ${confirmUrl}\n\n` +
+        "If this was not you, ignore this email; nothing more will be sent.",
+      data: { type: "confirmation", saved_search_id: doc._id.toString() },
+    });
+  }
+
+  console.log(`[SavedSearch] Created "${input.name}" (${input.channel})`);
+  if (confirmationSent === false) {
+    console.warn(`[SavedSearch] Confirmation email for "${input.name}" was not sent`);
+  }
+  return {
+    token,
+    record: toSavedSearchRecord(doc.toObject()),
+    ...(confirmationSent !== undefined && { confirmation_sent: confirmationSent }),
+  };
+}
+
+/**
+ * Confirm an email subscription with the token from the confirmation
+ * email. Returns false if the id or token is wrong.
+ */
+export async function confirmSavedSearch(id: string, token: string | undefined): Promise<boolean> {
+  if (!token || !mongoose.Types.ObjectId.isValid(id)) return false;
+  const result = await SavedSearch.updateOne(
+    { _id: id, confirm_token_hash: hashToken(token) },
+    { $set: { confirmed: true, last_digest_at: new Date() }, $unset: { confirm_token_hash: 1 } }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Delete a saved search with the unsubscribe token sent in its
+ * messages. Returns false if the id or token is wrong.
+ */
+export async function unsubscribeSavedSearch(id: string, token: string | undefined): Promise<boolean> {
+  if (!token || !mongoose.Types.ObjectId.isValid(id)) return false;
+  const result = await SavedSearch.deleteOne({ _id: id, unsubscribe_token: token });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Get a saved search by id and token.
+ */
+export async function getSavedSearch(
+  id: string,
+  token: string | undefined
+): Promise<SavedSearchRecord | null> {
+  const doc = await findWithToken(id, token);
+  return doc ? toSavedSearchRecord(doc.toObject()) : null;
+}
+
+/**
+ * Delete a saved search (unsubscribe).
+ */
+export async function deleteSavedSearch(
+  id: string,
+  token: string | undefined
+): Promise<boolean> {
+  const doc = await findWithToken(id, token);
+  if (!doc) return false;
+
+  await SavedSearch.deleteOne({ _id: doc._id });
+  return true;
+}
+
+/**
+ * Follow or unfollow a scholarship for deadline reminders.
+ * Returns null if the saved search or the scholarship does not exist.
+ */
+export async function setFollowing(
+  id: string,
+  token: string | undefined,
+  scholarshipId: string,
+  follow: boolean
+): Promise<SavedSearchRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(scholarshipId)) return null;
+
+  const doc = await findWithToken(id, token);
+  if (!doc) return null;
+
+  const scholarship = await Scholarship.exists({ _id: scholarshipId });
+  if (!scholarship) return null;
+
+  const updated = await SavedSearch.findByIdAndUpdate(
+    doc._id,
+    follow
+      ? { $addToSet: { followed_scholarships: scholarship._id } }
+      : {
+          $pull: {
+            followed_scholarships: scholarship._id,
+            reminders_sent: { scholarship_id: scholarship._id },
+          },
+        },
+    { new: true }
+  ).lean();
+  return updated ? toSavedSearchRecord(updated) : null;
+}
+
+/**
+ * Send each active saved search a digest of scholarships that match its
+ * filters and were added since its last digest. Run after storeScholarships.
+ * Returns the number of digests delivered.
+ */
+export async function sendNewMatchDigests(): Promise<number> {
+  const searches = await SavedSearch.find({ active: true, confirmed: { $ne: false } }).lean();
+  let sent = 0;
+
+  for (const search of searches) {
+    const since = search.last_digest_at ?? search.created_at;
+    const now = new Date();
+
+    const query = buildScholarshipQuery(search.filters ?? {});
+    query.created_at = { $gt: since };
+    const matches = await Scholarship.find(query)
+      .sort({ deadline: 1 })
+      .limit(MAX_DIGEST_ITEMS)
+      .lean();
+    if (matches.length === 0) continue;
+
+    const unsubscribe = await unsubscribeUrl(search);
+    const delivered = await deliver(search.channel as NotificationChannel, search.target, {
+      subject: `${matches.length} new scholarship${matches.length === 1 ? "" : "s"} for "${search.name}"`,
+      text:
+        matches
+          .map((m) => `• ${m.title} — ${m.organization} (${m.country}), deadline ${formatDeadline(m.deadline)}\n  ${m.link}`)
+          .join("\n") + `\n\nUnsubscribe: ${unsubscribe}`,
+      unsubscribe_url: unsubscribe,
+      data: {
+        type: "digest",
+        saved_search_id: search._id.toString(),
+        scholarships: matches.map((m) => ({
+          id: m._id.toString(),
+          title: m.title,
+          organization: m.organization,
+          country: m.country,
+          deadline: formatDeadline(m.deadline),
+          link: m.link,
+        })),
+      },
+    });
+
+    // Keep the window open on failure so the next run retries
+    if (delivered) {
+      await SavedSearch.updateOne({ _id: search._id }, { $set: { last_digest_at: now } });
+      sent++;
+    }
+  }
+
+  console.log(`[SavedSearch] Sent ${sent} new-match digest(s)`);
+  return sent;
+}
+
+/**
+ * Send reminders for followed scholarships whose deadline is within one of
+ * the saved search's reminder offsets. Each offset fires at most once per
+ * scholarship; if several are due at once (e.g. followed late), one
+ * reminder covers them all. When run as a job, progress is reported per
+ * saved search and the run stops between searches once cancelled.
+ * Returns the number of reminders delivered.
+ */
+export async function sendDeadlineReminders(ctx?: JobContext): Promise<number> {
+  const searches = await SavedSearch.find({
+    active: true,
+    confirmed: { $ne: false },
+    "followed_scholarships.0": { $exists: true },
+  }).lean();
+  const now = Date.now();
+  let sent = 0;
+
+  for (const [i, search] of searches.entries()) {
+    await ctx?.progress(i, searches.length);
+    const unsubscribe = await unsubscribeUrl(search);
+    const scholarships = await Scholarship.find({
+      _id: { $in: search.followed_scholarships },
+      deadline: { $gte: new Date(now) },
+    }).lean();
+
+    for (const s of scholarships) {
+      const daysLeft = Math.ceil((s.deadline.getTime() - now) / DAY_MS);
+      const alreadySent = new Set(
+        (search.reminders_sent ?? [])
+          .filter((r) => r.scholarship_id.toString() === s._id.toString())
+          .map((r) => r.offset_days)
+      );
+      const due = (search.reminder_offsets ?? []).filter(
+        (offset) => daysLeft <= offset && !alreadySent.has(offset)
+      );
+      if (due.length === 0) continue;
+
+      const delivered = await deliver(search.channel as NotificationChannel, search.target, {
+        subject: `${daysLeft} day${daysLeft === 1 ? "" : "s"} left: ${s.title}`,
+        text:
+          `The deadline for ${s.title} (${s.organization}) is ${formatDeadline(s.deadline)}.\nApply: ${s.link}` +
+          `\n\nUnsubscribe: ${unsubscribe}`,
+        unsubscribe_url: unsubscribe,
+        data: {
+          type: "deadline_reminder",
+          saved_search_id: search._id.toString(),
+          days_left: daysLeft,
+          scholarship: {
+            id: s._id.toString(),
+            title: s.title,
+            organization: s.organization,
+            deadline: formatDeadline(s.deadline),
+            link: s.link,
+          },
+        },
+      });
+
+      if (delivered) {
+        await SavedSearch.updateOne(
+          { _id: search._id },
+          {
+            $push: {
+              reminders_sent: {
+                $each: due.map((offset) => ({ scholarship_id: s._id, offset_days: offset })),
+              },
+            },
+          }
+        );
+        sent++;
+      }
+    }
+  }
+
+  await ctx?.progress(searches.length, searches.length);
+  console.log(`[SavedSearch] Sent ${sent} deadline reminder(s)`);
+  return sent;
+}
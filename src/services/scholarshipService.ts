@@ -3,141 +3,219 @@ import type {
   Scholarship as ScholarshipType,
   InsertScholarship,
   ApiFilters,
+  ArchiveStats,
+  IncludeMode,
   PaginatedResponse,
   ParsedScholarship,
+  QueryRunStats,
+  QueryYield,
+  ChangeSource,
+  MergedFromRecord,
+  LinkHealth,
+  RejectionSummary,
+  StorePreviewItem,
 } from "../types/index.js";
 import mongoose from "mongoose";
+import {
+  normalizeSearch,
+  parseSearchQuery,
+  hasPositiveTerms,
+  buildHighlights,
+} from "./textSearch.js";
+import { getDomainVerdict, syncBlockedDomain } from "./domainPolicyService.js";
+import {
+  DEADLINE_WINDOW_DAYS,
+  acronymOf,
+  compareScholarships,
+  organizationKey,
+} from "./similarity.js";
+import { STORE_PIPELINE, checkScholarship, runPipeline } from "./validation/index.js";
+import { recordVersion } from "./historyService.js";
+import { attachToProgram } from "./programService.js";
+import {
+  amountDetailsOf,
+  defaultDisplayCurrency,
+  describeAmount,
+  normalizeAmount,
+  syncAmountDetails,
+  toUsd,
+} from "./amountService.js";
+
+// Scholarships the duplicate handling accepts: fetched or imported
+type StoreCandidate = ParsedScholarship | InsertScholarship;
+
+/**
+ * A write rejected because of the values given (bad link, too short,
+ * past deadline), as opposed to a failure while storing it.
+ */
+export class ScholarshipValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScholarshipValidationError";
+  }
+}
 
 // ── FetchLog Schema ─────────────────────────────────────────────────
 
 const FetchLogSchema = new mongoose.Schema({
   search_queries: { type: [String], required: true },
+  query_set: { type: String }, // Name of the query set the cycle ran
+  // Results per query; the source of query yield statistics
+  query_stats: [
+    {
+      _id: false,
+      query: String,
+      found: Number,
+      added: Number,
+      rejected: Number,
+    },
+  ],
   status: { type: String, enum: ["running", "completed", "failed"], default: "running" },
   scholarships_found: { type: Number, default: 0 },
   scholarships_added: { type: Number, default: 0 },
   error: { type: String },
+  // Validation rejections of the cycle, per rule (see services/validation)
+  rejections: {
+    total: { type: Number, default: 0 },
+    by_rule: { type: Map, of: Number, default: {} },
+    samples: [
+      {
+        _id: false,
+        stage: String,
+        rule: String,
+        reason: String,
+        source: String,
+        title: String,
+        link: String,
+      },
+    ],
+  },
   started_at: { type: Date, default: Date.now },
   completed_at: { type: Date },
 });
 
 const FetchLog = mongoose.model("FetchLog", FetchLogSchema);
 
-// ── Blocked domains (same list used in openaiService) ───────────────
-const BLOCKED_DOMAINS = new Set([
-  "scholarshiptab.com","studentscholarships.org","scholarshipnext.com",
-  "scholaropportunity.com","scholarships.com","fastweb.com","scholarshipowl.com",
-  "scholarshipportal.com","findaid.org","internationalscholarships.com",
-  "scholars4dev.com","afterschool.my","opportunitiesforafricans.com","oyaop.com",
-  "aseanop.com","marj3.com","opportunitydesk.org","scholarshipsads.com",
-  "scholarshipscorner.website","grantfinder.com","scholarshipslab.com",
-  "uscholarships.us","scholarshipau.com","happyfacetravels.com",
-  "worldscholarshipforum.com","scholarshipscafe.com","scholarsme.com",
-  "myschoolscholarship.com",
-  "facebook.com","twitter.com","x.com","linkedin.com","instagram.com",
-  "youtube.com","tiktok.com","reddit.com","quora.com","pinterest.com",
-  "medium.com","wordpress.com","blogspot.com","tumblr.com","substack.com",
-  "wikipedia.org","wikidata.org","bbc.com","cnn.com","theguardian.com",
-  "example.com","example.org","test.com","localhost",
-]);
-
 // ── Private Helpers ─────────────────────────────────────────────────
 
-/**
- * Validate if a URL is a direct, authentic application link.
- * Blocks aggregators, social media, PDFs, and fake domains.
- */
-function isValidApplicationLink(url: string): boolean {
-  if (!url || url.trim() === "") return false;
-  try {
-    const parsed = new URL(url);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
-    // Reject PDFs
-    if (parsed.pathname.toLowerCase().endsWith(".pdf")) return false;
-    // Reject blocked domains
-    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
-    for (const blocked of BLOCKED_DOMAINS) {
-      if (host === blocked || host.endsWith("." + blocked)) return false;
-    }
-    return true;
-  } catch {
-    return false;
-  }
+// Messages for STORE_PIPELINE rules whose reason is not meant for editors;
+// the other reasons are shown as they are
+const RULE_MESSAGES: Record<string, string> = {
+  official_link: "Invalid application link. Must be a direct, official application URL.",
+};
+
+/** Editor-facing message for a STORE_PIPELINE rejection */
+function ruleMessage(rejection: { rule: string; reason: string }): string {
+  const message = RULE_MESSAGES[rejection.rule] ?? rejection.reason;
+  return message.charAt(0).toUpperCase() + message.slice(1);
 }
 
 /**
- * Validate scholarship data completeness and authenticity
+ * Deadline condition for an include mode: future deadlines by default,
+ * any deadline for "expired", past deadlines only for "only-expired";
+ * optionally narrowed to one deadline year.
  */
-function validateScholarshipData(s: ParsedScholarship): { valid: boolean; reason?: string } {
-  // Title validation
-  if (!s.title || s.title.length < 10) {
-    return { valid: false, reason: "Title too short or missing" };
-  }
-  
-  // Organization validation
-  if (!s.organization || s.organization.length < 3) {
-    return { valid: false, reason: "Organization too short or missing" };
-  }
-  
-  // Description validation (must be detailed)
-  if (!s.description || s.description.length < 50) {
-    return { valid: false, reason: "Description too short or missing eligibility criteria" };
-  }
-  
-  // Link validation
-  if (!isValidApplicationLink(s.link)) {
-    return { valid: false, reason: "Invalid or non-direct application link" };
-  }
-  
-  // Deadline validation (must be future date)
-  const deadlineDate = new Date(s.deadline);
+function deadlineCondition(include?: IncludeMode, year?: number): any {
   const now = new Date();
-  if (deadlineDate < now) {
-    return { valid: false, reason: 'Deadline is in the past' };
-  }
-  
-  // Check deadline is not too far in future (max 3 years)
-  const maxDate = new Date(now.getFullYear() + 3, 11, 31);
-  if (deadlineDate > maxDate) {
-    return { valid: false, reason: 'Deadline too far in future' };
+  const condition: any =
+    include === "expired" ? {} : include === "only-expired" ? { $lt: now } : { $gte: now };
+
+  if (year !== undefined && !isNaN(year)) {
+    const start = new Date(Date.UTC(year, 0, 1));
+    const end = new Date(Date.UTC(year + 1, 0, 1));
+    condition.$gte = condition.$gte && condition.$gte > start ? condition.$gte : start;
+    condition.$lt = condition.$lt && condition.$lt < end ? condition.$lt : end;
   }
-  
-  return { valid: true };
+  return Object.keys(condition).length > 0 ? condition : undefined;
 }
 
 // ── Public API ──────────────────────────────────────────────────────
 
 /**
- * Get scholarships with filtering, searching, sorting, and pagination.
+ * Map a lean Scholarship document to its API representation.
  */
-export async function getScholarships(
-  filters: ApiFilters
-): Promise<PaginatedResponse<ScholarshipType>> {
+export function toScholarship(doc: any): ScholarshipType {
+  const amountDetails = amountDetailsOf(doc);
+  // Records reviewed before verification_status existed only have is_verified
+  const verificationStatus = doc.verification_status ?? (doc.is_verified ? "approved" : "pending");
+  return {
+    id: doc._id.toString(),
+    title: doc.title,
+    organization: doc.organization,
+    country: doc.country,
+    level: doc.level,
+    field: doc.field,
+    category: doc.category,
+    deadline: doc.deadline.toISOString().split("T")[0],
+    description: doc.description,
+    link: doc.link,
+    amount: doc.amount ?? undefined,
+    currency: doc.currency ?? undefined,
+    amount_details: amountDetails,
+    amount_normalized: normalizeAmount(amountDetails),
+    eligibility: doc.eligibility ?? undefined,
+    is_verified: verificationStatus === "approved" ? 1 : 0,
+    verification_status: verificationStatus,
+    verification_notes: doc.verification_notes ?? undefined,
+    verified_by: doc.verified_by ?? undefined,
+    verified_at: doc.verified_at?.toISOString(),
+    source: doc.source ?? undefined,
+    program_id: doc.program_id?.toString(),
+    archived_at: doc.archived_at?.toISOString(),
+    trust_tier: doc.link ? getDomainVerdict(doc.link).tier : undefined,
+    created_at: doc.created_at?.toISOString() || new Date().toISOString(),
+    updated_at: doc.updated_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the Mongo query behind the public scholarship listing:
+ * future deadlines (see `include`), not rejected, official links, plus
+ * the given filters.
+ * Shared by every route that should show the same set of scholarships.
+ */
+export function buildScholarshipQuery(filters: ApiFilters): any {
   const {
     country,
     level,
     field,
     category,
     search,
-    page = 1,
-    limit = 20,
-    sort = "deadline",
-    order = "asc",
+    nationality,
+    gpa,
+    age,
+    noLanguageTest,
+    coverage,
+    minAmount,
+    fullyFunded,
+    currency,
+    include,
+    year,
   } = filters;
 
   const query: any = {};
 
-  // Only show scholarships with future deadlines and valid links
-  query.deadline = { $gte: new Date() };
+  // Only show scholarships with future deadlines (unless expired ones
+  // are asked for) and valid links
+  const deadline = deadlineCondition(include, year);
+  if (deadline) query.deadline = deadline;
+
+  // Hide records an admin has rejected
+  query.verification_status = { $ne: "rejected" };
   
-  // Ensure link is present, valid, not an aggregator, and not a PDF
-  query.link = { 
-    $exists: true, 
+  // Ensure link is present and not a PDF
+  query.link = {
+    $exists: true,
     $ne: "",
-    $not: {
-      $regex: /example\.com|placeholder|test\.com|fake|dummy|scholarshiptab|studentscholarships\.org|scholarshipnext|scholaropportunity|linkedin\.com|medium\.com|facebook\.com|twitter\.com|reddit\.com|wikipedia\.org|youtube\.com|uscholarships\.us|scholarshipau\.com|happyfacetravels\.com|\.pdf$/i,
-    },
+    $not: { $regex: /\.pdf$/i },
   };
 
+  // Hide records whose domain the domain policy blocks
+  query.blocked_domain = { $exists: false };
+
+  // Hide records whose link kept failing the scheduled re-checks
+  query["link_health.broken"] = { $ne: true };
+
   if (country && country !== "all") {
     query.country = country;
   }
@@ -151,13 +229,97 @@ export async function getScholarships(
     query.category = category;
   }
   if (search) {
-    query.$or = [
-      { title: { $regex: search, $options: "i" } },
-      { organization: { $regex: search, $options: "i" } },
-      { description: { $regex: search, $options: "i" } },
-    ];
+    const parsed = parseSearchQuery(search);
+    if (hasPositiveTerms(parsed)) {
+      // Weighted text index: title > organization > description.
+      // Mongo handles "phrases" and -negation natively.
+      query.$text = { $search: normalizeSearch(search) };
+    } else if (parsed.negated.length > 0) {
+      // $text matches nothing without a positive term, so exclude directly
+      query.$nor = parsed.negated.flatMap((word) => {
+        const pattern = new RegExp(escapeRegex(word), "i");
+        return [{ title: pattern }, { organization: pattern }, { description: pattern }];
+      });
+    }
   }
 
+  // ── Structured eligibility filters ──────────────────────────────
+  // Records without a stated requirement are kept: unknown ≠ ineligible
+  const eligibilityConditions: any[] = [];
+  if (nationality) {
+    const nationalityRegex = new RegExp(`^${escapeRegex(nationality.trim())}$`, "i");
+    eligibilityConditions.push(
+      {
+        $or: [
+          { "eligibility.allowed_nationalities": { $exists: false } },
+          { "eligibility.allowed_nationalities": { $size: 0 } },
+          { "eligibility.allowed_nationalities": nationalityRegex },
+        ],
+      },
+      { "eligibility.excluded_nationalities": { $not: nationalityRegex } }
+    );
+  }
+  if (gpa !== undefined && !isNaN(gpa)) {
+    eligibilityConditions.push({
+      $or: [{ "eligibility.min_gpa": null }, { "eligibility.min_gpa": { $lte: gpa } }],
+    });
+  }
+  if (age !== undefined && !isNaN(age)) {
+    eligibilityConditions.push(
+      { $or: [{ "eligibility.min_age": null }, { "eligibility.min_age": { $lte: age } }] },
+      { $or: [{ "eligibility.max_age": null }, { "eligibility.max_age": { $gte: age } }] }
+    );
+  }
+  if (noLanguageTest) {
+    if (noLanguageTest.toLowerCase() === "any") {
+      eligibilityConditions.push({ "eligibility.language_test_required": { $ne: true } });
+    } else {
+      eligibilityConditions.push({
+        "eligibility.language_tests.test": {
+          $not: new RegExp(`^${escapeRegex(noLanguageTest.trim())}$`, "i"),
+        },
+      });
+    }
+  }
+  if (coverage && coverage.length > 0) {
+    eligibilityConditions.push({ "eligibility.coverage": { $all: coverage } });
+  }
+  if (eligibilityConditions.length > 0) {
+    query.$and = eligibilityConditions;
+  }
+
+  // ── Amount filters ──────────────────────────────────────────────
+  // Compared on the stored yearly USD value; records without a parsed
+  // value are left out of a minimum-amount search
+  if (minAmount !== undefined && !isNaN(minAmount)) {
+    const minUsd = toUsd(minAmount, currency || defaultDisplayCurrency());
+    if (minUsd !== undefined) query["amount_details.annual_usd"] = { $gte: Math.floor(minUsd) };
+  }
+  if (fullyFunded) {
+    query["amount_details.fully_funded"] = true;
+  }
+
+  return query;
+}
+
+/**
+ * Get scholarships with filtering, searching, sorting, and pagination.
+ */
+export async function getScholarships(
+  filters: ApiFilters
+): Promise<PaginatedResponse<ScholarshipType>> {
+  const {
+    search,
+    page = 1,
+    limit = 20,
+    sort = "deadline",
+    order,
+    currency,
+  } = filters;
+
+  const query = buildScholarshipQuery(filters);
+  const isTextSearch = !!query.$text;
+
   // Validate sort column
   const allowedSorts = [
     "deadline",
@@ -165,40 +327,43 @@ export async function getScholarships(
     "country",
     "created_at",
     "organization",
+    "relevance",
+    "amount",
   ];
   const sortCol = allowedSorts.includes(sort) ? sort : "deadline";
-  const sortOrder = order === "desc" ? -1 : 1;
+  // Largest awards first unless asked otherwise
+  const sortOrder = (order ?? (sortCol === "amount" ? "desc" : "asc")) === "desc" ? -1 : 1;
+
+  // Relevance only exists for text searches; fall back to deadline otherwise
+  const sortSpec: any =
+    sortCol === "relevance"
+      ? isTextSearch
+        ? { score: { $meta: "textScore" }, deadline: 1 }
+        : { deadline: 1 }
+      : sortCol === "amount"
+        ? { "amount_details.annual_usd": sortOrder, deadline: 1 }
+        : { [sortCol]: sortOrder };
 
   // Count total
   const total = await Scholarship.countDocuments(query);
 
   // Fetch page
   const offset = (page - 1) * limit;
-  const data = await Scholarship.find(query)
-    .sort({ [sortCol]: sortOrder })
+  const data = await Scholarship.find(query, isTextSearch ? { score: { $meta: "textScore" } } : {})
+    .sort(sortSpec)
     .skip(offset)
     .limit(limit)
     .lean();
 
-  return {
-    data: data.map((doc: any) => ({
-      id: doc._id.toString(),
-      title: doc.title,
-      organization: doc.organization,
-      country: doc.country,
-      level: doc.level,
-      field: doc.field,
-      category: doc.category,
-      deadline: doc.deadline.toISOString().split("T")[0],
-      description: doc.description,
-      link: doc.link,
-      amount: doc.amount ?? undefined,
-      currency: doc.currency ?? undefined,
-      is_verified: doc.is_verified ? 1 : 0,
-      source: doc.source ?? undefined,
-      created_at: doc.created_at?.toISOString() || new Date().toISOString(),
-      updated_at: doc.updated_at?.toISOString() || new Date().toISOString(),
-    })),
+  const response: PaginatedResponse<ScholarshipType> = {
+    data: data.map((doc) => {
+      const scholarship = toScholarship(doc);
+      // Yearly value in the requested currency instead of DISPLAY_CURRENCY
+      if (currency) {
+        scholarship.amount_normalized = normalizeAmount(scholarship.amount_details, currency);
+      }
+      return scholarship;
+    }),
     pagination: {
       page,
       limit,
@@ -206,12 +371,25 @@ export async function getScholarships(
       totalPages: Math.ceil(total / limit),
     },
   };
+
+  if (isTextSearch && search) {
+    const parsed = parseSearchQuery(search);
+    response.highlights = Object.fromEntries(
+      data.map((doc: any) => [doc._id.toString(), buildHighlights(doc, parsed)])
+    );
+  }
+
+  return response;
 }
 
 /**
  * Get a single scholarship by ID.
  */
-export async function getScholarshipById(id: string): Promise<ScholarshipType | null> {
+export async function getScholarshipById(
+  id: string
+): Promise<
+  (ScholarshipType & { merged_from?: MergedFromRecord[]; link_health?: LinkHealth }) | null
+> {
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return null;
   }
@@ -219,37 +397,66 @@ export async function getScholarshipById(id: string): Promise<ScholarshipType |
   const doc = await Scholarship.findById(id).lean();
   if (!doc) return null;
 
+  // Source snippets, merge provenance and link checks are only returned on the detail view
   return {
-    id: doc._id.toString(),
-    title: doc.title,
-    organization: doc.organization,
-    country: doc.country,
-    level: doc.level,
-    field: doc.field,
-    category: doc.category,
-    deadline: doc.deadline.toISOString().split("T")[0],
-    description: doc.description,
-    link: doc.link,
-    amount: doc.amount ?? undefined,
-    currency: doc.currency ?? undefined,
-    is_verified: doc.is_verified ? 1 : 0,
-    source: doc.source ?? undefined,
-    created_at: doc.created_at?.toISOString() || new Date().toISOString(),
-    updated_at: doc.updated_at?.toISOString() || new Date().toISOString(),
+    ...toScholarship(doc),
+    evidence: doc.evidence ?? undefined,
+    merged_from: doc.merged_from?.map(toMergedFromRecord),
+    link_health: doc.link_health ? toLinkHealth(doc.link_health) : undefined,
   };
 }
 
 /**
- * Get all distinct values for filter dropdowns.
+ * Map stored link check results to their API representation.
  */
-export async function getFilterOptions() {
-  const futureDeadlineQuery = { deadline: { $gte: new Date() } };
+export function toLinkHealth(health: any): LinkHealth {
+  return {
+    last_checked_at: health.last_checked_at?.toISOString(),
+    last_ok_at: health.last_ok_at?.toISOString(),
+    status_code: health.status_code ?? undefined,
+    final_url: health.final_url ?? undefined,
+    consecutive_failures: health.consecutive_failures ?? 0,
+    broken: !!health.broken,
+    broken_since: health.broken_since?.toISOString(),
+    history: (health.history ?? []).map((c: any) => ({
+      checked_at: c.checked_at.toISOString(),
+      ok: c.ok,
+      status_code: c.status_code ?? undefined,
+      final_url: c.final_url ?? undefined,
+      error: c.error ?? undefined,
+    })),
+  };
+}
+
+/**
+ * Map a stored merge provenance entry to its API representation.
+ */
+export function toMergedFromRecord(entry: any): MergedFromRecord {
+  return {
+    scholarship_id: entry.scholarship_id.toString(),
+    title: entry.title,
+    organization: entry.organization,
+    link: entry.link,
+    deadline: entry.deadline?.toISOString().split("T")[0],
+    source: entry.source ?? undefined,
+    merged_by: entry.merged_by,
+    merged_at: entry.merged_at.toISOString(),
+    snapshot: entry.snapshot ?? {},
+  };
+}
+
+/**
+ * Get all distinct values for filter dropdowns, over the records the
+ * listing shows (see buildScholarshipQuery).
+ */
+export async function getFilterOptions(include?: IncludeMode) {
+  const query = buildScholarshipQuery({ include });
 
   const [countries, levels, fields, categories] = await Promise.all([
-    Scholarship.distinct("country", futureDeadlineQuery),
-    Scholarship.distinct("level", futureDeadlineQuery),
-    Scholarship.distinct("field", futureDeadlineQuery),
-    Scholarship.distinct("category", futureDeadlineQuery),
+    Scholarship.distinct("country", query),
+    Scholarship.distinct("level", query),
+    Scholarship.distinct("field", query),
+    Scholarship.distinct("category", query),
   ]);
 
   return {
@@ -261,15 +468,16 @@ export async function getFilterOptions() {
 }
 
 /**
- * Get dashboard stats.
+ * Get dashboard stats, counting the records the listing shows (see
+ * buildScholarshipQuery).
  */
-export async function getStats() {
-  const futureDeadlineQuery = { deadline: { $gte: new Date() } };
+export async function getStats(include?: IncludeMode) {
+  const query = buildScholarshipQuery({ include });
 
   const [total, countries, organizations, lastFetch] = await Promise.all([
-    Scholarship.countDocuments(futureDeadlineQuery),
-    Scholarship.distinct("country", futureDeadlineQuery).then((c: string[]) => c.length),
-    Scholarship.distinct("organization", futureDeadlineQuery).then((o: string[]) => o.length),
+    Scholarship.countDocuments(query),
+    Scholarship.distinct("country", query).then((c: string[]) => c.length),
+    Scholarship.distinct("organization", query).then((o: string[]) => o.length),
     FetchLog.findOne({ status: "completed" })
       .sort({ completed_at: -1 })
       .lean(),
@@ -284,57 +492,83 @@ export async function getStats() {
   };
 }
 
+/**
+ * Year-over-year counts of awards by deadline year, per country and per
+ * level, for every year from `from` to `to` (years without records count
+ * zero). Covers past and current cycles; rejected records are left out.
+ */
+export async function getArchiveStats(options: {
+  from: number;
+  to: number;
+  country?: string;
+  level?: string;
+}): Promise<ArchiveStats> {
+  const { from, to, country, level } = options;
+
+  const match: any = {
+    verification_status: { $ne: "rejected" },
+    deadline: { $gte: new Date(Date.UTC(from, 0, 1)), $lt: new Date(Date.UTC(to + 1, 0, 1)) },
+  };
+  if (country && country !== "all") match.country = country;
+  if (level && level !== "all") match.level = level;
+
+  const groups: { _id: { year: number; country: string; level: string }; count: number }[] =
+    await Scholarship.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { year: { $year: "$deadline" }, country: "$country", level: "$level" },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+  const years: ArchiveStats["years"] = [];
+  for (let year = from; year <= to; year++) {
+    const by_country: Record<string, number> = {};
+    const by_level: Record<string, number> = {};
+    let total = 0;
+    for (const group of groups.filter((g) => g._id.year === year)) {
+      by_country[group._id.country] = (by_country[group._id.country] ?? 0) + group.count;
+      by_level[group._id.level] = (by_level[group._id.level] ?? 0) + group.count;
+      total += group.count;
+    }
+    const previous = years[years.length - 1];
+    years.push({ year, total, change: previous ? total - previous.total : null, by_country, by_level });
+  }
+
+  return { from, to, years };
+}
+
 /**
  * Store newly fetched scholarships from OpenAI.
  * De-duplicates by case-insensitive title+org match AND unique index.
- * Only stores scholarships with valid, authentic data and direct application links.
+ * Only stores scholarships that pass the store validation pipeline.
+ * Inserts and updates are recorded in the change history.
+ * @param batchId - Fetch log of the cycle the scholarships came from
+ * @param query - Search query they came from, recorded on rejections
  */
 export async function storeScholarships(
   scholarships: ParsedScholarship[],
-  source: string
+  source: string,
+  batchId?: string,
+  query?: string
 ): Promise<number> {
+  const changeSource: ChangeSource = { type: "ai", actor: source, ref: batchId };
   let added = 0;
-  let rejected = 0;
   let duped = 0;
 
-  for (const s of scholarships) {
-    // 1. Validate scholarship data before storing
-    const validation = validateScholarshipData(s);
-    if (!validation.valid) {
-      console.warn(`[Store] Rejected "${s.title}": ${validation.reason}`);
-      rejected++;
-      continue;
-    }
+  // 1. Validate scholarship data before storing (rejections are recorded)
+  const valid = runPipeline(STORE_PIPELINE, scholarships, source, query);
+  const rejected = scholarships.length - valid.length;
 
-    // 2. Case-insensitive duplicate check (title + organization)
-    const exists = await Scholarship.findOne({
-      title: { $regex: new RegExp(`^${escapeRegex(s.title.trim())}$`, "i") },
-      organization: { $regex: new RegExp(`^${escapeRegex(s.organization.trim())}$`, "i") },
-    });
-    if (exists) {
-      // Update if new deadline is further out or description is longer
-      const newDeadline = new Date(s.deadline);
-      const oldDeadline = new Date(exists.deadline);
-      if (
-        newDeadline > oldDeadline ||
-        s.description.trim().length > (exists.description?.length ?? 0)
-      ) {
-        await Scholarship.updateOne(
-          { _id: exists._id },
-          {
-            $set: {
-              deadline: newDeadline > oldDeadline ? newDeadline : oldDeadline,
-              description:
-                s.description.trim().length > (exists.description?.length ?? 0)
-                  ? s.description.trim()
-                  : exists.description,
-              link: isValidApplicationLink(s.link) ? s.link.trim() : exists.link,
-              amount: s.amount?.trim() || exists.amount,
-              updated_at: new Date(),
-            },
-          }
-        );
-        console.log(`[Store] Updated existing: ${s.title}`);
+  for (const s of valid) {
+    // 2. Case-insensitive duplicate check (title + organization);
+    //    a match whose cycle has closed makes this the next cycle
+    const exists = await findExisting(s);
+    if (exists && !isNextCycle(s, exists)) {
+      if (shouldUpdateExisting(s, exists)) {
+        await mergeIntoExisting(s, exists, changeSource);
       }
       duped++;
       continue;
@@ -342,21 +576,9 @@ export async function storeScholarships(
 
     // 3. Insert new scholarship
     try {
-      await Scholarship.create({
-        title: s.title.trim(),
-        organization: s.organization.trim(),
-        country: s.country.trim(),
-        level: s.level,
-        field: s.field.trim(),
-        category: s.category,
-        deadline: new Date(s.deadline),
-        description: s.description.trim(),
-        link: s.link.trim(),
-        amount: s.amount?.trim() || "Varies",
-        currency: s.currency || "USD",
-        is_verified: false,
-        source,
-      });
+      const doc = await Scholarship.create(toInsertDoc(s, source));
+      await recordVersion(null, doc, changeSource);
+      await attachToProgram(doc);
       added++;
       console.log(`[Store] ✓ Added: ${s.title} — ${s.organization}`);
     } catch (error: any) {
@@ -374,93 +596,347 @@ export async function storeScholarships(
   return added;
 }
 
+/**
+ * Update the record a new scholarship duplicates: the later deadline,
+ * a longer or grounded description, a valid link, the amount and
+ * (grounded or missing) eligibility. A closed cycle that gets a later
+ * deadline is open again.
+ */
+async function mergeIntoExisting(
+  s: StoreCandidate,
+  exists: any,
+  changeSource: ChangeSource
+): Promise<void> {
+  const newDeadline = new Date(s.deadline);
+  const oldDeadline = new Date(exists.deadline);
+  const grounded = hasEvidence(s);
+  // Candidates passed STORE_PIPELINE, so the link is an official one
+  const link = s.link.trim();
+  const $unset: Record<string, ""> = {};
+  if (exists.archived_at) $unset.archived_at = "";
+  // Link checks belong to the old link; the next scheduled run checks the new one
+  if (link !== exists.link) $unset.link_health = "";
+  const updated = await Scholarship.findByIdAndUpdate(
+    exists._id,
+    {
+      $set: {
+        deadline: newDeadline > oldDeadline ? newDeadline : oldDeadline,
+        description:
+          grounded || s.description.trim().length > (exists.description?.length ?? 0)
+            ? s.description.trim()
+            : exists.description,
+        link,
+        amount: s.amount?.trim() || exists.amount,
+        eligibility:
+          (grounded || !exists.eligibility) && s.eligibility
+            ? s.eligibility
+            : exists.eligibility,
+        ...(hasEvidence(s) && { evidence: s.evidence, evidence_captured_at: new Date() }),
+        updated_at: new Date(),
+      },
+      ...(Object.keys($unset).length > 0 && { $unset }),
+    },
+    { new: true }
+  ).lean();
+  if (updated) await recordVersion(exists, updated, changeSource);
+  if (updated) await syncAmountDetails(updated);
+  if (updated) await syncBlockedDomain(updated);
+  if (updated && exists.archived_at) await attachToProgram(updated);
+  console.log(`[Store] Updated existing: ${s.title}`);
+}
+
+/** New Scholarship document for a validated, fetched scholarship */
+function toInsertDoc(s: ParsedScholarship, source: string) {
+  return {
+    title: s.title.trim(),
+    organization: s.organization.trim(),
+    country: s.country.trim(),
+    level: s.level,
+    field: s.field.trim(),
+    category: s.category,
+    deadline: new Date(s.deadline),
+    description: s.description.trim(),
+    link: s.link.trim(),
+    amount: s.amount?.trim() || "Varies",
+    currency: s.currency || "USD",
+    amount_details: describeAmount({
+      amount: s.amount?.trim() || "Varies",
+      currency: s.currency || "USD",
+      eligibility: s.eligibility,
+    }),
+    eligibility: s.eligibility,
+    is_verified: false,
+    ...(hasEvidence(s) && { evidence: s.evidence, evidence_captured_at: new Date() }),
+    source,
+  };
+}
+
+/**
+ * Keys a record can match on: organization key, initials and link host.
+ * Records sharing none of them cannot be duplicates (see compareScholarships).
+ */
+function matchKeys(s: { organization: string; link: string }): string[] {
+  const orgKey = organizationKey(s.organization);
+  const keys = [`org:${orgKey}`];
+  const initials = acronymOf(s.organization);
+  if (initials.length >= 2 && initials !== orgKey) keys.push(`org:${initials}`);
+  try {
+    keys.push(`host:${new URL(s.link).hostname.toLowerCase().replace(/^www\./, "")}`);
+  } catch {
+    // Unparseable links only match on the organization
+  }
+  return keys;
+}
+
+/**
+ * De-duplication lookup: case-insensitive title + organization first,
+ * then the most similar record with a deadline in the same cycle
+ * (normalised title, organization aliases, same official page). Only
+ * records sharing an organization key or link host are compared, and
+ * only the best match is loaded in full.
+ */
+async function findExisting(s: StoreCandidate) {
+  const exact = await Scholarship.findOne({
+    title: { $regex: new RegExp(`^${escapeRegex(s.title.trim())}$`, "i") },
+    organization: { $regex: new RegExp(`^${escapeRegex(s.organization.trim())}$`, "i") },
+  })
+    .sort({ deadline: -1 })
+    .lean();
+  if (exact) return exact;
+
+  const deadline = new Date(s.deadline);
+  const windowMs = DEADLINE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const nearby = await Scholarship.find({
+    deadline: {
+      $gte: new Date(deadline.getTime() - windowMs),
+      $lte: new Date(deadline.getTime() + windowMs),
+    },
+  })
+    .select({ title: 1, organization: 1, link: 1, deadline: 1 })
+    .lean();
+
+  const keys = new Set(matchKeys(s));
+  let best: (typeof nearby)[number] | null = null;
+  let bestScore = 0;
+  for (const doc of nearby) {
+    if (!matchKeys(doc).some((key) => keys.has(key))) continue;
+    const match = compareScholarships(s, doc);
+    if (match && match.score > bestScore) {
+      best = doc;
+      bestScore = match.score;
+    }
+  }
+  if (!best) return null;
+  console.log(`[Store] Similar to existing "${best.title}" (score ${bestScore}): ${s.title}`);
+  return Scholarship.findById(best._id).lean();
+}
+
+/**
+ * True if the matching record's cycle has closed and the new deadline is
+ * too far from it to be an extension: the award reopened, so the new
+ * cycle becomes its own record instead of overwriting the archived one.
+ */
+function isNextCycle(s: StoreCandidate, exists: { deadline: Date }): boolean {
+  const closed = new Date(exists.deadline);
+  const windowMs = DEADLINE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return closed < new Date() && new Date(s.deadline).getTime() - closed.getTime() > windowMs;
+}
+
+/**
+ * Update an existing record if the new deadline is further out, the
+ * description is longer, or the new data is grounded in the official page
+ */
+function shouldUpdateExisting(
+  s: StoreCandidate,
+  exists: { deadline: Date; description?: string | null }
+): boolean {
+  return (
+    new Date(s.deadline) > new Date(exists.deadline) ||
+    s.description.trim().length > (exists.description?.length ?? 0) ||
+    hasEvidence(s)
+  );
+}
+
+/**
+ * True if the grounded extraction pass attached at least one source
+ * snippet. Manual and imported records never carry evidence.
+ */
+function hasEvidence(s: StoreCandidate): s is ParsedScholarship & { evidence: Record<string, string> } {
+  return "evidence" in s && !!s.evidence && Object.keys(s.evidence).length > 0;
+}
+
 /** Escape special regex chars in a string */
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
 /**
- * Add a scholarship manually (from admin).
- * Validates data before storing.
+ * Dry run of storeScholarships: report what would happen to each
+ * scholarship (insert, update, duplicate or rejected) without writing.
  */
-export async function addScholarship(data: InsertScholarship): Promise<string> {
-  // Validate the link before adding
-  if (!isValidApplicationLink(data.link)) {
-    throw new Error('Invalid application link. Must be a direct, official application URL.');
-  }
-  
-  // Validate basic data requirements
-  if (!data.title || data.title.trim().length < 10) {
-    throw new Error('Title must be at least 10 characters.');
-  }
-  
-  if (!data.description || data.description.trim().length < 50) {
-    throw new Error('Description must be at least 50 characters with eligibility criteria.');
-  }
-  
-  if (!data.organization || data.organization.trim().length < 3) {
-    throw new Error('Organization must be at least 3 characters.');
-  }
-  
-  // Validate deadline is in the future
-  const deadlineDate = new Date(data.deadline);
-  if (deadlineDate < new Date()) {
-    throw new Error('Deadline must be a future date.');
+export async function previewScholarships(
+  scholarships: ParsedScholarship[]
+): Promise<StorePreviewItem[]> {
+  const preview: StorePreviewItem[] = [];
+
+  for (const s of scholarships) {
+    const validation = checkScholarship(STORE_PIPELINE, s);
+    if (!validation.valid) {
+      preview.push({
+        scholarship: s,
+        action: "rejected",
+        rule: validation.rule,
+        reason: validation.reason,
+      });
+      continue;
+    }
+
+    const exists = await findExisting(s);
+    if (!exists || isNextCycle(s, exists)) {
+      preview.push({ scholarship: s, action: "insert" });
+      continue;
+    }
+    preview.push({
+      scholarship: s,
+      action: shouldUpdateExisting(s, exists) ? "update" : "duplicate",
+      existing_id: exists._id.toString(),
+    });
   }
 
+  return preview;
+}
+
+/**
+ * Insert one already-validated scholarship unless a record with the same
+ * title and organization exists. Returns the record id and whether it
+ * was created (false means the id is the existing duplicate).
+ */
+export async function insertParsedScholarship(
+  s: ParsedScholarship,
+  source: string,
+  changeSource: ChangeSource = { type: "ai", actor: source }
+): Promise<{ id: string; created: boolean }> {
+  const exists = await findExisting(s);
+  if (exists && !isNextCycle(s, exists)) return { id: exists._id.toString(), created: false };
+
+  const doc = await Scholarship.create(toInsertDoc(s, source));
+  await recordVersion(null, doc, changeSource);
+  await attachToProgram(doc);
+  console.log(`[Store] ✓ Added: ${s.title} — ${s.organization}`);
+  return { id: doc._id.toString(), created: true };
+}
+
+/**
+ * Problems that keep a manually entered scholarship from being stored:
+ * the STORE_PIPELINE rules (official link, minimum lengths, deadline),
+ * one message per failing field; empty if none.
+ */
+export function checkManualScholarship(data: InsertScholarship): string[] {
+  const fields = Array.from(new Set(STORE_PIPELINE.rules.map((rule) => rule.field)));
+  return fields.flatMap((field) => {
+    const outcome = checkScholarship(STORE_PIPELINE, data, [field]);
+    return outcome.valid ? [] : [ruleMessage(outcome)];
+  });
+}
+
+/** Create a manually entered scholarship that passed checkManualScholarship */
+async function createManualScholarship(
+  data: InsertScholarship,
+  changeSource: ChangeSource
+): Promise<string> {
   const doc: any = await Scholarship.create({
     ...data,
     title: data.title.trim(),
     organization: data.organization.trim(),
     description: data.description.trim(),
     link: data.link.trim(),
-    deadline: deadlineDate,
-    is_verified: Boolean(data.is_verified),
+    deadline: new Date(data.deadline),
+    amount_details: describeAmount(data),
   });
+  await recordVersion(null, doc, changeSource);
+  await attachToProgram(doc);
   return doc._id.toString();
 }
 
+/**
+ * Add a scholarship manually (from admin).
+ * Validates data before storing.
+ */
+export async function addScholarship(
+  data: InsertScholarship,
+  changeSource: ChangeSource = { type: "admin" }
+): Promise<string> {
+  const problems = checkManualScholarship(data);
+  if (problems.length > 0) {
+    throw new ScholarshipValidationError(problems[0]);
+  }
+
+  return createManualScholarship(data, changeSource);
+}
+
+/**
+ * Store one imported scholarship (checked with checkManualScholarship)
+ * with the duplicate handling of storeScholarships: a record it
+ * duplicates is updated when the import adds something, otherwise the
+ * row is skipped. With `dryRun` nothing is written; the action that
+ * would be taken is returned.
+ */
+export async function importScholarship(
+  data: InsertScholarship,
+  changeSource: ChangeSource,
+  dryRun = false
+): Promise<{ action: "insert" | "update" | "duplicate"; id?: string }> {
+  const exists = await findExisting(data);
+  if (exists && !isNextCycle(data, exists)) {
+    const id = exists._id.toString();
+    if (!shouldUpdateExisting(data, exists)) return { action: "duplicate", id };
+    if (!dryRun) await mergeIntoExisting(data, exists, changeSource);
+    return { action: "update", id };
+  }
+
+  if (dryRun) return { action: "insert" };
+  return { action: "insert", id: await createManualScholarship(data, changeSource) };
+}
+
 /**
  * Update a scholarship.
- * Validates data before updating.
+ * Validates data before updating (throws ScholarshipValidationError);
+ * the change is recorded in the history under `changeSource` (who made
+ * it, and through which correction etc.).
  */
 export async function updateScholarship(
   id: string,
-  data: Partial<InsertScholarship>
+  data: Partial<InsertScholarship>,
+  changeSource: ChangeSource = { type: "admin" }
 ): Promise<boolean> {
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return false;
   }
 
-  // Validate link if being updated
-  if (data.link && !isValidApplicationLink(data.link)) {
-    throw new Error('Invalid application link. Must be a direct, official application URL.');
-  }
-  
-  // Validate title if being updated
-  if (data.title && data.title.trim().length < 10) {
-    throw new Error('Title must be at least 10 characters.');
-  }
-  
-  // Validate description if being updated
-  if (data.description && data.description.trim().length < 50) {
-    throw new Error('Description must be at least 50 characters with eligibility criteria.');
-  }
-  
-  // Validate organization if being updated
-  if (data.organization && data.organization.trim().length < 3) {
-    throw new Error('Organization must be at least 3 characters.');
-  }
+  const before = await Scholarship.findById(id).lean();
+  if (!before) return false;
+
+  // Same rules as every other write, for the fields being changed
+  const changed = (["title", "organization", "description", "link", "deadline"] as const).filter(
+    (field) => data[field] !== undefined
+  );
+  const outcome = checkScholarship(
+    STORE_PIPELINE,
+    {
+      title: before.title,
+      organization: before.organization,
+      description: before.description,
+      link: before.link,
+      deadline: before.deadline.toISOString(),
+      ...data,
+    },
+    changed
+  );
+  if (!outcome.valid) throw new ScholarshipValidationError(ruleMessage(outcome));
 
   const updateData: any = { ...data };
-  if (data.deadline) {
-    const deadlineDate = new Date(data.deadline);
-    if (deadlineDate < new Date()) {
-      throw new Error('Deadline must be a future date.');
-    }
-    updateData.deadline = deadlineDate;
-  }
-  
+  if (data.deadline) updateData.deadline = new Date(data.deadline);
+
   // Trim string fields
   if (data.title) updateData.title = data.title.trim();
   if (data.organization) updateData.organization = data.organization.trim();
@@ -469,8 +945,19 @@ export async function updateScholarship(
   
   updateData.updated_at = new Date();
 
-  const result = await Scholarship.updateOne({ _id: id }, { $set: updateData });
-  return result.modifiedCount > 0;
+  // A new link starts without checks, so a fixed link is listed again right away
+  const linkChanged = !!updateData.link && updateData.link !== before.link;
+  const after = await Scholarship.findByIdAndUpdate(
+    id,
+    { $set: updateData, ...(linkChanged && { $unset: { link_health: "" } }) },
+    { new: true }
+  ).lean();
+  if (!after) return false;
+
+  await recordVersion(before, after, changeSource);
+  await syncAmountDetails(after);
+  await syncBlockedDomain(after);
+  return true;
 }
 
 /**
@@ -487,9 +974,10 @@ export async function deleteScholarship(id: string): Promise<boolean> {
 
 // ── Fetch Logging ───────────────────────────────────────────────────
 
-export async function createFetchLog(queries: string[]): Promise<string> {
+export async function createFetchLog(queries: string[], querySet?: string): Promise<string> {
   const doc = await FetchLog.create({
     search_queries: queries,
+    query_set: querySet,
     status: "running",
   });
   return doc._id.toString();
@@ -498,7 +986,9 @@ export async function createFetchLog(queries: string[]): Promise<string> {
 export async function completeFetchLog(
   logId: string,
   found: number,
-  added: number
+  added: number,
+  rejections?: RejectionSummary,
+  queryStats?: QueryRunStats[]
 ): Promise<void> {
   if (!mongoose.Types.ObjectId.isValid(logId)) {
     console.error("[DB] Invalid FetchLog ID:", logId);
@@ -513,6 +1003,8 @@ export async function completeFetchLog(
         status: "completed",
         scholarships_found: found,
         scholarships_added: added,
+        ...(rejections && { rejections }),
+        ...(queryStats && { query_stats: queryStats }),
       },
     }
   );
@@ -545,11 +1037,53 @@ export async function getFetchLogs(limit = 20): Promise<any[]> {
   return logs.map((log: any) => ({
     id: log._id.toString(),
     search_queries: log.search_queries,
+    query_set: log.query_set ?? undefined,
+    query_stats: log.query_stats?.length ? log.query_stats : undefined,
     status: log.status,
     scholarships_found: log.scholarships_found,
     scholarships_added: log.scholarships_added,
     error: log.error,
+    rejections: log.rejections
+      ? {
+          total: log.rejections.total,
+          by_rule: log.rejections.by_rule ?? {},
+          samples: log.rejections.samples ?? [],
+        }
+      : undefined,
     started_at: log.started_at?.toISOString().replace("T", " ").substring(0, 19),
     completed_at: log.completed_at?.toISOString().replace("T", " ").substring(0, 19),
   }));
 }
+
+/**
+ * Results of every query over all completed fetch cycles, by query text.
+ */
+export async function getQueryYields(): Promise<Map<string, QueryYield>> {
+  const rows: any[] = await FetchLog.aggregate([
+    { $match: { status: "completed" } },
+    { $unwind: "$query_stats" },
+    {
+      $group: {
+        _id: "$query_stats.query",
+        runs: { $sum: 1 },
+        found: { $sum: "$query_stats.found" },
+        added: { $sum: "$query_stats.added" },
+        rejected: { $sum: "$query_stats.rejected" },
+        last_run_at: { $max: "$started_at" },
+      },
+    },
+  ]);
+
+  return new Map(
+    rows.map((row) => [
+      row._id,
+      {
+        runs: row.runs,
+        found: row.found,
+        added: row.added,
+        rejected: row.rejected,
+        last_run_at: row.last_run_at?.toISOString(),
+      },
+    ])
+  );
+}
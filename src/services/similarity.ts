@@ -0,0 +1,165 @@
+/**
+ * Similarity between scholarship records, used to catch duplicates that
+ * an exact title + organization match misses ("DAAD EPOS Scholarship 2026"
+ * vs "DAAD EPOS Programme").
+ */
+
+// Deadlines further apart than this are treated as different cycles
+export const DEADLINE_WINDOW_DAYS = 60;
+
+// Minimum title similarity for two records of the same organization
+const TITLE_THRESHOLD = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that say nothing about which award a title refers to
+const TITLE_STOPWORDS = new Set([
+  "a", "an", "the", "of", "for", "and", "in", "at", "to", "on",
+  "scholarship", "scholarships", "programme", "programmes", "program", "programs",
+  "award", "awards", "funding",
+]);
+
+// Canonical organization → names and acronyms it appears under
+const ORGANIZATION_ALIASES: Record<string, string[]> = {
+  daad: ["german academic exchange service", "deutscher akademischer austauschdienst"],
+  fulbright: ["fulbright commission", "fulbright program", "fulbright us student program"],
+  chevening: ["chevening scholarships", "fcdo chevening", "foreign commonwealth and development office"],
+  "erasmus mundus": ["eacea", "european education and culture executive agency", "european commission erasmus"],
+  mext: ["ministry of education culture sports science and technology", "japanese government mext"],
+  "commonwealth scholarship commission": ["cscuk", "csc uk", "commonwealth scholarship commission in the uk"],
+  "gates cambridge": ["gates cambridge trust"],
+  "rhodes trust": ["rhodes house", "rhodes scholarships"],
+};
+
+export interface SimilarityInput {
+  title: string;
+  organization: string;
+  link: string;
+  deadline: Date | string;
+}
+
+export interface SimilarityResult {
+  score: number; // 0–1
+  reasons: string[];
+}
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function normalizeText(text: string): string {
+  return (text || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Jaccard similarity, raised when one title contains the other */
+function titleSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter((t) => setB.has(t)).length;
+  const jaccard = shared / new Set([...a, ...b]).size;
+  const smaller = Math.min(setA.size, setB.size);
+  const containment = smaller >= 2 ? shared / smaller : 0;
+  return Math.max(jaccard, containment * 0.9);
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/** Initials of the significant words, e.g. "German Academic Exchange Service" → "gaes" */
+export function acronymOf(organization: string): string {
+  return normalizeText(organization)
+    .split(" ")
+    .filter((w) => w && !TITLE_STOPWORDS.has(w))
+    .map((w) => w[0])
+    .join("");
+}
+
+/**
+ * Significant title words: no years, punctuation, accents, generic words
+ * ("scholarship", "programme") or words from the organization name.
+ */
+export function normalizeTitle(title: string, organization = ""): string[] {
+  const orgWords = new Set(normalizeText(organization).split(" "));
+  return normalizeText(title.replace(/\b(19|20)\d{2}(\s*[/–-]\s*\d{2,4})?\b/g, " "))
+    .split(" ")
+    .filter((w) => w && !TITLE_STOPWORDS.has(w) && !orgWords.has(w));
+}
+
+/**
+ * Canonical organization key: a known alias resolves to its canonical
+ * name (also when it appears in parentheses), anything else is normalised.
+ */
+export function organizationKey(organization: string): string {
+  const normalized = normalizeText(organization);
+  const words = new Set(normalized.split(" "));
+  const mentions = (phrase: string) =>
+    phrase.includes(" ") ? ` ${normalized} `.includes(` ${phrase} `) : words.has(phrase);
+
+  for (const [canonical, aliases] of Object.entries(ORGANIZATION_ALIASES)) {
+    if (mentions(canonical) || aliases.some(mentions)) return canonical;
+  }
+  return normalized;
+}
+
+/**
+ * Host + path of a link, or null for unparseable links and bare
+ * homepages (many awards share one organization homepage).
+ */
+export function linkKey(link: string): string | null {
+  try {
+    const url = new URL(link);
+    const path = url.pathname.toLowerCase().replace(/\/+$/, "");
+    if (!path) return null;
+    return `${url.hostname.toLowerCase().replace(/^www\./, "")}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decide whether two records describe the same award in the same cycle.
+ * Returns null if not; otherwise a 0–1 score and the matching signals.
+ * Deadlines must be within DEADLINE_WINDOW_DAYS, and either the links
+ * match or the organizations match with similar titles.
+ */
+export function compareScholarships(
+  a: SimilarityInput,
+  b: SimilarityInput
+): SimilarityResult | null {
+  const daysApart =
+    Math.abs(new Date(a.deadline).getTime() - new Date(b.deadline).getTime()) / DAY_MS;
+  if (isNaN(daysApart) || daysApart > DEADLINE_WINDOW_DAYS) return null;
+
+  const keyA = organizationKey(a.organization);
+  const keyB = organizationKey(b.organization);
+  const sameOrganization =
+    keyA === keyB || acronymOf(a.organization) === keyB || acronymOf(b.organization) === keyA;
+
+  const linkA = linkKey(a.link);
+  const sameLink = !!linkA && linkA === linkKey(b.link);
+
+  const wordsA = normalizeTitle(a.title, a.organization);
+  const wordsB = normalizeTitle(b.title, b.organization);
+  // Both titles are just the organization name ("Chevening Scholarships")
+  const similarity =
+    wordsA.length === 0 && wordsB.length === 0 ? 1 : titleSimilarity(wordsA, wordsB);
+
+  if (!sameLink && !(sameOrganization && similarity >= TITLE_THRESHOLD)) return null;
+
+  const reasons: string[] = [];
+  if (similarity > 0) reasons.push(`Titles ${Math.round(similarity * 100)}% similar`);
+  if (sameOrganization) reasons.push("Same organization");
+  if (sameLink) reasons.push("Same official page");
+  reasons.push(daysApart === 0 ? "Same deadline" : `Deadlines ${Math.round(daysApart)} days apart`);
+
+  const score =
+    0.5 * similarity +
+    (sameOrganization ? 0.2 : 0) +
+    (sameLink ? 0.2 : 0) +
+    0.1 * (1 - daysApart / DEADLINE_WINDOW_DAYS);
+  return { score: Math.round(score * 100) / 100, reasons };
+}
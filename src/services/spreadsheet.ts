@@ -0,0 +1,372 @@
+/**
+ * Minimal CSV and XLSX reading/writing for bulk import and export.
+ * XLSX files are written as a single sheet with inline strings and read
+ * from their first sheet; formatting, formulas and other sheets are
+ * ignored. Zip archives are built on node:zlib.
+ */
+import { crc32, deflateRawSync, inflateRawSync } from "node:zlib";
+
+export type Cell = string | number | boolean | null | undefined;
+
+// One row of a parsed sheet, with the row number a spreadsheet app shows
+export interface SheetRow {
+  number: number;
+  cells: string[];
+}
+
+export const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const SHEET_NAME = "Scholarships";
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+/** Text of a cell; a leading ' keeps spreadsheet apps from running =, +, - or @ as a formula */
+function cellText(value: Cell, guardFormulas: boolean): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return guardFormulas && typeof value === "string" && /^[=+\-@]/.test(text) ? `'${text}` : text;
+}
+
+/** Reverse of the formula guard in cellText */
+function unguard(text: string): string {
+  return /^'[=+\-@]/.test(text) ? text.slice(1) : text;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_m, entity: string) => {
+    const named: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+    if (entity[0] !== "#") return named[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+    return String.fromCodePoint(code);
+  });
+}
+
+/** Column letters for a 0-based index (0 → A, 26 → AA) */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(name: string): number {
+  let index = 0;
+  for (const ch of name.toUpperCase()) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Zip the given files (deflated) into one archive */
+function zip(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(0, 10); // Time
+    local.writeUInt16LE(0x21, 12); // Date: 1980-01-01
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/** Most bytes one zip entry may inflate to (XLSX_MAX_ENTRY_MB, default 32) */
+function maxEntryBytes(): number {
+  const fromEnv = parseInt(process.env.XLSX_MAX_ENTRY_MB || "");
+  return (!isNaN(fromEnv) && fromEnv > 0 ? fromEnv : 32) * 1024 * 1024;
+}
+
+/**
+ * Index of a zip archive: a reader per file name; throws if it is not
+ * one. Entries are only inflated when read, and no entry may inflate
+ * past maxEntryBytes, so a small archive cannot expand into gigabytes.
+ */
+function unzip(archive: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a valid XLSX file");
+
+  const files = new Map<string, () => Buffer>();
+  const count = archive.readUInt16LE(end + 10);
+  let pos = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(pos) !== 0x02014b50) throw new Error("Not a valid XLSX file");
+    const method = archive.readUInt16LE(pos + 10);
+    const compressedSize = archive.readUInt32LE(pos + 20);
+    const nameLength = archive.readUInt16LE(pos + 28);
+    const extraLength = archive.readUInt16LE(pos + 30);
+    const commentLength = archive.readUInt16LE(pos + 32);
+    const localOffset = archive.readUInt32LE(pos + 42);
+    const name = archive.toString("utf8", pos + 46, pos + 46 + nameLength);
+
+    // Name and extra field lengths of the local header may differ from the central one
+    const dataStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, () => data);
+    else if (method === 8) {
+      files.set(name, () => {
+        try {
+          return inflateRawSync(data, { maxOutputLength: maxEntryBytes() });
+        } catch (error: any) {
+          if (error instanceof RangeError || error.code === "ERR_BUFFER_TOO_LARGE") {
+            throw new Error(`XLSX part ${name} is larger than ${maxEntryBytes() / 1024 / 1024} MB`);
+          }
+          throw new Error(`Not a valid XLSX file: ${name} cannot be read`);
+        }
+      });
+    }
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+/** Concatenated <t> runs of a shared or inline string (phonetic hints dropped) */
+function stringItemText(xml: string): string {
+  const runs = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g);
+  return [...runs].map((m) => unescapeXml(m[1])).join("");
+}
+
+/** Path of the first worksheet, from the workbook and its relationships */
+function firstSheetPath(files: Map<string, () => Buffer>): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = files.get("xl/workbook.xml")?.().toString("utf8");
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.().toString("utf8");
+  const relId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (!rels || !relId) return fallback;
+
+  for (const rel of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (rel[0].match(/\bId="([^"]+)"/)?.[1] !== relId) continue;
+    const target = rel[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (!target) break;
+    return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  return fallback;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * CSV text (RFC 4180, CRLF line ends) with a UTF-8 byte order mark so
+ * Excel detects the encoding.
+ */
+export function toCsv(header: string[], rows: Cell[][]): string {
+  const line = (cells: Cell[]) =>
+    cells
+      .map((value) => {
+        const text = cellText(value, true);
+        return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",");
+  return "\uFEFF" + [line(header), ...rows.map(line)].join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text. The delimiter (comma or semicolon, as written by
+ * European Excel versions) is detected from the header line. Blank
+ * lines are skipped.
+ */
+export function parseCsv(text: string): SheetRow[] {
+  const input = text.replace(/^\uFEFF/, "");
+  const headerLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter =
+    (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: SheetRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let number = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) rows.push({ number, cells: cells.map(unguard) });
+    cells = [];
+    cell = "";
+    number++;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * An XLSX workbook with one sheet: a header row, then the rows. Numbers
+ * and booleans keep their type; everything else is stored as text.
+ */
+export function toXlsx(header: string[], rows: Cell[][]): Buffer {
+  const cellXml = (value: Cell, ref: string): string => {
+    if (value === null || value === undefined || value === "") return "";
+    if (typeof value === "number" && isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    if (typeof value === "boolean") return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    const text = escapeXml(cellText(value, false)); // Inline strings never run as formulas
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+  };
+  const rowXml = (cells: Cell[], index: number): string =>
+    `<row r="${index + 1}">${cells.map((v, c) => cellXml(v, `${columnName(c)}${index + 1}`)).join("")}</row>`;
+
+  const sheet =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<worksheet xmlns="${MAIN_NS}"><sheetData>` +
+    [header, ...rows].map(rowXml).join("") +
+    `</sheetData></worksheet>`;
+
+  const files: Record<string, string> = {
+    "[Content_Types].xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `</Types>`,
+    "_rels/.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+    "xl/workbook.xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${SHEET_NAME}" sheetId="1" r:id="rId1"/></sheets>` +
+      `</workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `</Relationships>`,
+    "xl/worksheets/sheet1.xml": sheet,
+  };
+
+  return zip(Object.entries(files).map(([name, xml]) => ({ name, data: Buffer.from(xml, "utf8") })));
+}
+
+/**
+ * Parse the first sheet of an XLSX workbook into text cells (numbers as
+ * written, booleans as "true"/"false"). Empty rows are skipped. Only the
+ * workbook, its relationships, the sheet and the shared strings are
+ * unpacked. Throws if the file is not a readable workbook or has a cell
+ * beyond the first `maxColumns` columns.
+ */
+export function parseXlsx(archive: Buffer, maxColumns: number): SheetRow[] {
+  const files = unzip(archive);
+  const sheet = files.get(firstSheetPath(files))?.().toString("utf8");
+  if (!sheet) throw new Error("Not a valid XLSX file: no worksheet found");
+
+  const sharedXml = files.get("xl/sharedStrings.xml")?.().toString("utf8") ?? "";
+  const shared = [...sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map((m) => stringItemText(m[1]));
+
+  const rows: SheetRow[] = [];
+  let nextNumber = 1;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const number = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? "") || nextNumber;
+    nextNumber = number + 1;
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = attrs.match(/\br="([A-Z]+)\d+"/i)?.[1];
+      const column = ref ? columnIndex(ref) : nextColumn;
+      if (column >= maxColumns) {
+        throw new Error(`Cell ${ref ?? columnName(column)}${number} is outside the first ${maxColumns} columns`);
+      }
+      nextColumn = column + 1;
+
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s") value = shared[parseInt(raw ?? "")] ?? "";
+      else if (type === "inlineStr") value = stringItemText(body);
+      else if (type === "b") value = raw === "1" ? "true" : "false";
+      else if (raw !== undefined) value = unescapeXml(raw);
+
+      while (cells.length < column) cells.push("");
+      cells[column] = unguard(value);
+    }
+    if (cells.some((c) => c.trim() !== "")) rows.push({ number, cells });
+  }
+  return rows;
+}
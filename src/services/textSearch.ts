@@ -0,0 +1,133 @@
+import type { SearchHighlight } from "../types/index.js";
+
+// Characters of context kept either side of the first description match
+const SNIPPET_CONTEXT = 80;
+
+// Longest search string passed to Mongo
+const MAX_SEARCH_LENGTH = 200;
+
+export interface ParsedSearch {
+  terms: string[];
+  phrases: string[];
+  negated: string[];
+}
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Crude stem so "scholarships" also highlights "Scholarship". */
+function stemRoot(term: string): string {
+  const root = term.replace(/(ies|es|s|ing|ed)$/i, "");
+  return root.length >= 3 ? root : term;
+}
+
+/**
+ * One regex matching any positive term (with word-ending variations,
+ * roughly following Mongo's stemming) or phrase.
+ */
+function buildMatcher(parsed: ParsedSearch): RegExp | null {
+  const parts = [
+    ...parsed.phrases.map((p) => escapeRegex(p)),
+    ...parsed.terms.map((t) => `${escapeRegex(stemRoot(t))}\\w*`),
+  ];
+  if (parts.length === 0) return null;
+  return new RegExp(`\\b(?:${parts.join("|")})`, "gi");
+}
+
+/** HTML-escape text and wrap every match in <mark>. */
+function markMatches(text: string, matcher: RegExp): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(matcher)) {
+    const index = match.index ?? 0;
+    result += escapeHtml(text.slice(last, index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    last = index + match[0].length;
+  }
+  return result + escapeHtml(text.slice(last));
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Normalise a user search string for Mongo's $text operator.
+ * Supports "exact phrases" and -negated words or -"phrases".
+ */
+export function normalizeSearch(search: string): string {
+  return search.trim().substring(0, MAX_SEARCH_LENGTH);
+}
+
+/**
+ * Split a search string into positive terms, phrases and negations,
+ * using the same syntax as Mongo's $text operator.
+ */
+export function parseSearchQuery(search: string): ParsedSearch {
+  const parsed: ParsedSearch = { terms: [], phrases: [], negated: [] };
+  const tokenPattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+
+  for (const match of normalizeSearch(search).matchAll(tokenPattern)) {
+    if (match[2] !== undefined) {
+      const phrase = match[2].trim();
+      if (!phrase) continue;
+      (match[1] ? parsed.negated : parsed.phrases).push(phrase);
+    } else {
+      const word = match[4].replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+      if (!word) continue;
+      (match[3] ? parsed.negated : parsed.terms).push(word);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * True if the search has something to match on. Mongo's $text returns
+ * nothing for negation-only searches.
+ */
+export function hasPositiveTerms(parsed: ParsedSearch): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0;
+}
+
+/**
+ * Build highlighted snippets for a matched scholarship.
+ * Title and organization are returned whole; the description is cut to
+ * a window around its first match.
+ */
+export function buildHighlights(
+  doc: { title: string; organization: string; description: string },
+  parsed: ParsedSearch
+): SearchHighlight[] {
+  const matcher = buildMatcher(parsed);
+  if (!matcher) return [];
+
+  const highlights: SearchHighlight[] = [];
+  for (const field of ["title", "organization"] as const) {
+    const text = doc[field] || "";
+    if (text.search(matcher) !== -1) {
+      highlights.push({ field, snippet: markMatches(text, matcher) });
+    }
+  }
+
+  const description = doc.description || "";
+  const first = description.search(matcher);
+  if (first !== -1) {
+    const start = Math.max(0, first - SNIPPET_CONTEXT);
+    const end = Math.min(description.length, first + SNIPPET_CONTEXT * 2);
+    const snippet =
+      (start > 0 ? "…" : "") +
+      markMatches(description.slice(start, end), matcher) +
+      (end < description.length ? "…" : "");
+    highlights.push({ field: "description", snippet });
+  }
+
+  return highlights;
+}
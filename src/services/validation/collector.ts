@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Rejection, RejectionSummary } from "../../types/index.js";
+
+// Rejections kept verbatim in a summary; the rest are only counted
+const MAX_SAMPLES = 50;
+
+// Rejections of the run in progress. AsyncLocalStorage keeps concurrent
+// runs (e.g. a cron cycle and an admin dry run) from mixing.
+const storage = new AsyncLocalStorage<Rejection[]>();
+
+/**
+ * Run `fn` and collect every rejection recorded while it runs,
+ * including inside providers and nested async calls.
+ */
+export async function collectRejections<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; rejections: Rejection[] }> {
+  const rejections: Rejection[] = [];
+  const result = await storage.run(rejections, fn);
+  return { result, rejections };
+}
+
+/**
+ * Record a rejection for the current run. Always logged; only collected
+ * when running inside collectRejections.
+ */
+export function recordRejection(rejection: Rejection): void {
+  const label = rejection.source ? `[${rejection.source}] ` : "";
+  console.warn(
+    `${label}[Validate] ${rejection.rule}: ${rejection.reason}${rejection.title ? ` — ${rejection.title}` : ""}`
+  );
+  storage.getStore()?.push(rejection);
+}
+
+/**
+ * Count rejections per rule and keep the first few as samples
+ */
+export function summarizeRejections(rejections: Rejection[]): RejectionSummary {
+  const byRule: Record<string, number> = {};
+  for (const r of rejections) {
+    byRule[r.rule] = (byRule[r.rule] ?? 0) + 1;
+  }
+  return {
+    total: rejections.length,
+    by_rule: byRule,
+    samples: rejections.slice(0, MAX_SAMPLES).map(({ candidate, ...rest }) => rest),
+  };
+}
@@ -0,0 +1,115 @@
+import { ParsedScholarship, ParsedScholarshipSchema } from "../../types/index.js";
+import {
+  CheckedScholarship,
+  ValidationOutcome,
+  ValidationPipeline,
+  ValidationRule,
+} from "./types.js";
+import { deadlineWithin, futureDeadline, minLength, officialLink } from "./rules.js";
+import { recordRejection } from "./collector.js";
+
+/**
+ * Build a pipeline from named rules, run in order
+ */
+export function createPipeline(name: string, rules: ValidationRule[]): ValidationPipeline {
+  return { name, rules };
+}
+
+// ── Pipelines ───────────────────────────────────────────────────────
+
+/** Checks applied to every item a provider returns */
+export const PROVIDER_PIPELINE = createPipeline("provider", [
+  officialLink(),
+  futureDeadline(),
+  deadlineWithin(3),
+]);
+
+/** Stricter checks applied before anything is written to the database */
+export const STORE_PIPELINE = createPipeline("store", [
+  minLength("title", 10),
+  minLength("organization", 3),
+  minLength("description", 50),
+  ...PROVIDER_PIPELINE.rules,
+]);
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Check one scholarship against a pipeline without recording anything.
+ * The first failing rule decides the outcome. With `fields`, only rules
+ * on those fields run (for partial updates).
+ */
+export function checkScholarship<T extends CheckedScholarship>(
+  pipeline: ValidationPipeline,
+  scholarship: T,
+  fields?: (keyof CheckedScholarship)[]
+): ValidationOutcome<T> {
+  for (const rule of pipeline.rules) {
+    if (fields && !fields.includes(rule.field)) continue;
+    const reason = rule.check(scholarship);
+    if (reason) return { valid: false, rule: rule.name, field: rule.field, reason };
+  }
+  return { valid: true, scholarship };
+}
+
+/**
+ * Validate raw items: the Zod schema first (rule "schema"), then each
+ * rule of the pipeline. Every rejected item is recorded with the rule
+ * that rejected it; the valid ones are returned.
+ * @param source - Provider (or caller) that produced the items
+ * @param query - Search query the items came from, when known
+ */
+export function runPipeline(
+  pipeline: ValidationPipeline,
+  items: unknown[],
+  source: string,
+  query?: string
+): ParsedScholarship[] {
+  const valid: ParsedScholarship[] = [];
+
+  for (const item of items) {
+    const parsed = ParsedScholarshipSchema.safeParse(item);
+    if (!parsed.success) {
+      const raw = (item ?? {}) as { title?: unknown; link?: unknown };
+      recordRejection({
+        stage: pipeline.name,
+        rule: "schema",
+        reason: parsed.error.issues.map((i) => `${i.path.join(".") || "item"}: ${i.message}`).join("; "),
+        source,
+        query,
+        title: typeof raw.title === "string" ? raw.title : undefined,
+        link: typeof raw.link === "string" ? raw.link : undefined,
+        candidate: item,
+      });
+      continue;
+    }
+
+    const outcome = checkScholarship(pipeline, parsed.data);
+    if (!outcome.valid) {
+      recordRejection({
+        stage: pipeline.name,
+        rule: outcome.rule,
+        reason: outcome.reason,
+        source,
+        query,
+        title: parsed.data.title,
+        link: parsed.data.link,
+        candidate: item,
+      });
+      continue;
+    }
+
+    valid.push(outcome.scholarship);
+  }
+
+  return valid;
+}
+
+export type {
+  CheckedScholarship,
+  ValidationOutcome,
+  ValidationPipeline,
+  ValidationRule,
+} from "./types.js";
+export { collectRejections, recordRejection, summarizeRejections } from "./collector.js";
+export * as rules from "./rules.js";
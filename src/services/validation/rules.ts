@@ -0,0 +1,65 @@
+import { isOfficialDirectLink } from "../ai/utils.js";
+import { ValidationRule } from "./types.js";
+
+/**
+ * Link must be an official, direct page (no aggregators, social media,
+ * blogs or PDFs)
+ */
+export function officialLink(): ValidationRule {
+  return {
+    name: "official_link",
+    field: "link",
+    check: (s) =>
+      isOfficialDirectLink(s.link) ? null : `Blocked or non-direct link: ${s.link}`,
+  };
+}
+
+/**
+ * Deadline must be a valid date that has not passed
+ */
+export function futureDeadline(): ValidationRule {
+  return {
+    name: "deadline_past",
+    field: "deadline",
+    check: (s) => {
+      const deadline = new Date(s.deadline);
+      if (isNaN(deadline.getTime())) return `Invalid deadline: ${s.deadline}`;
+      return deadline < new Date() ? `Deadline has passed: ${s.deadline}` : null;
+    },
+  };
+}
+
+/**
+ * Deadline must be at most `years` from now; anything further out is
+ * almost always a hallucinated or mistyped date
+ */
+export function deadlineWithin(years: number): ValidationRule {
+  return {
+    name: "deadline_too_far",
+    field: "deadline",
+    check: (s) => {
+      const maxDate = new Date();
+      maxDate.setFullYear(maxDate.getFullYear() + years);
+      return new Date(s.deadline) > maxDate
+        ? `Deadline more than ${years} years away: ${s.deadline}`
+        : null;
+    },
+  };
+}
+
+/**
+ * A text field must have at least `min` characters after trimming
+ */
+export function minLength(
+  field: "title" | "organization" | "description",
+  min: number
+): ValidationRule {
+  return {
+    name: `${field}_too_short`,
+    field,
+    check: (s) => {
+      const length = (s[field] || "").trim().length;
+      return length < min ? `${field} has ${length} characters, needs ${min}` : null;
+    },
+  };
+}
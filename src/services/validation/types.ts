@@ -0,0 +1,44 @@
+import { ParsedScholarship } from "../../types/index.js";
+
+/**
+ * Fields the rules look at. Fetched, imported and manually entered
+ * records all have them, so every write can run the same pipeline.
+ */
+export type CheckedScholarship = Pick<
+  ParsedScholarship,
+  "title" | "organization" | "description" | "link" | "deadline"
+>;
+
+/**
+ * A single named check on a scholarship
+ * Rules are small and stateless so pipelines can be composed from them
+ */
+export interface ValidationRule {
+  /** Recorded with every rejection, e.g. "deadline_past" */
+  name: string;
+
+  /** Field the rule checks, so partial updates only run the rules they touch */
+  field: keyof CheckedScholarship;
+
+  /**
+   * Check a scholarship
+   * @returns null if it passes, otherwise the reason it was rejected
+   */
+  check(scholarship: CheckedScholarship): string | null;
+}
+
+/**
+ * An ordered list of rules; the first failing rule rejects the item
+ */
+export interface ValidationPipeline {
+  /** Stage name stored on rejections, e.g. "provider" or "store" */
+  name: string;
+  rules: ValidationRule[];
+}
+
+/**
+ * Result of running a pipeline over a single item
+ */
+export type ValidationOutcome<T extends CheckedScholarship = ParsedScholarship> =
+  | { valid: true; scholarship: T }
+  | { valid: false; rule: string; field: keyof CheckedScholarship; reason: string };
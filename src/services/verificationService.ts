@@ -0,0 +1,161 @@
+import mongoose from "mongoose";
+import { Scholarship } from "../db/Scholarship.js";
+import { VerificationEvent } from "../db/VerificationEvent.js";
+import { toScholarship, updateScholarship } from "./scholarshipService.js";
+import type {
+  Scholarship as ScholarshipType,
+  PaginatedResponse,
+  ReviewAction,
+  ReviewDecision,
+  VerificationEventRecord,
+  VerificationStatus,
+} from "../types/index.js";
+
+// Status a scholarship ends up in after each review action
+const STATUS_FOR_ACTION: Record<ReviewAction, VerificationStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  request_changes: "changes_requested",
+};
+
+// ── Private Helpers ─────────────────────────────────────────────────
+
+function toEventRecord(doc: any): VerificationEventRecord {
+  return {
+    id: doc._id.toString(),
+    scholarship_id: doc.scholarship_id.toString(),
+    action: doc.action,
+    reviewer: doc.reviewer,
+    notes: doc.notes ?? undefined,
+    changes: doc.changes ?? undefined,
+    previous_status: doc.previous_status ?? undefined,
+    new_status: doc.new_status,
+    created_at: doc.created_at.toISOString(),
+  };
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Get unverified scholarships awaiting review, nearest deadline first.
+ * Covers both never-reviewed records and ones sent back for changes;
+ * pass `status` to narrow to one of them.
+ */
+export async function getReviewQueue(options: {
+  status?: "pending" | "changes_requested";
+  page?: number;
+  limit?: number;
+}): Promise<PaginatedResponse<ScholarshipType>> {
+  const { status, page = 1, limit = 20 } = options;
+
+  const query: any = {
+    is_verified: { $ne: true },
+    deadline: { $gte: new Date() },
+  };
+  if (status === "pending") {
+    // Records created before the workflow existed have no status yet
+    query.verification_status = { $in: ["pending", null] };
+  } else if (status) {
+    query.verification_status = status;
+  } else {
+    query.verification_status = { $nin: ["approved", "rejected"] };
+  }
+
+  const offset = (page - 1) * limit;
+  const [total, data] = await Promise.all([
+    Scholarship.countDocuments(query),
+    Scholarship.find(query)
+      .sort({ deadline: 1 })
+      .skip(offset)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    data: data.map(toScholarship),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Record an admin review decision on a scholarship.
+ * Approvals may carry field fixes, which are applied through
+ * updateScholarship (and its validation) before the status changes.
+ * Returns null if the scholarship does not exist.
+ */
+export async function reviewScholarship(
+  id: string,
+  action: ReviewAction,
+  decision: ReviewDecision
+): Promise<VerificationEventRecord | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const existing = await Scholarship.findById(id).lean();
+  if (!existing) return null;
+
+  const changes =
+    action === "approve" && decision.changes && Object.keys(decision.changes).length > 0
+      ? decision.changes
+      : undefined;
+  if (changes) {
+    await updateScholarship(id, changes, { type: "review", actor: decision.reviewer });
+  }
+
+  const newStatus = STATUS_FOR_ACTION[action];
+  const now = new Date();
+
+  await Scholarship.updateOne(
+    { _id: existing._id },
+    {
+      $set: {
+        verification_status: newStatus,
+        is_verified: action === "approve",
+        verification_notes: decision.notes,
+        verified_by: decision.reviewer,
+        verified_at: now,
+        updated_at: now,
+      },
+    }
+  );
+
+  const event = await VerificationEvent.create({
+    scholarship_id: existing._id,
+    action,
+    reviewer: decision.reviewer,
+    notes: decision.notes,
+    changes,
+    previous_status: existing.verification_status ?? (existing.is_verified ? "approved" : "pending"),
+    new_status: newStatus,
+    created_at: now,
+  });
+
+  console.log(`[Review] ${decision.reviewer} → ${action}: ${existing.title}`);
+  return toEventRecord(event.toObject());
+}
+
+/**
+ * Get the verification history of a scholarship, newest first.
+ * Returns null if the scholarship does not exist.
+ */
+export async function getVerificationHistory(
+  id: string
+): Promise<VerificationEventRecord[] | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const exists = await Scholarship.exists({ _id: id });
+  if (!exists) return null;
+
+  const events = await VerificationEvent.find({ scholarship_id: id })
+    .sort({ created_at: -1 })
+    .lean();
+  return events.map(toEventRecord);
+}
@@ -1,5 +1,61 @@
 import { z } from "zod";
 
+// ── Eligibility Schema ──────────────────────────────────────────────
+export const COVERAGE_ITEMS = [
+  "tuition",
+  "stipend",
+  "travel",
+  "insurance",
+  "accommodation",
+] as const;
+
+// Words naming each coverage item in free text ("tuition fees", "monthly living allowance")
+const COVERAGE_SYNONYMS: Record<(typeof COVERAGE_ITEMS)[number], string[]> = {
+  tuition: ["tuition"],
+  stipend: ["stipend", "allowance", "living", "maintenance"],
+  travel: ["travel", "flight", "airfare"],
+  insurance: ["insurance"],
+  accommodation: ["accommodation", "housing", "lodging"],
+};
+
+/**
+ * Map free-text coverage values onto COVERAGE_ITEMS and drop the rest,
+ * so one unexpected value does not reject the whole record.
+ */
+function toCoverageItems(value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+  const items = new Set<string>();
+  for (const entry of value) {
+    if (typeof entry !== "string") continue;
+    const text = entry.toLowerCase();
+    // An item named outright wins over a synonym ("travel allowance" is travel)
+    const item =
+      COVERAGE_ITEMS.find((c) => text.includes(c)) ??
+      COVERAGE_ITEMS.find((c) => COVERAGE_SYNONYMS[c].some((word) => text.includes(word)));
+    if (item) items.add(item);
+  }
+  return Array.from(items);
+}
+
+export const LanguageTestRequirementSchema = z.object({
+  test: z.string().min(2), // IELTS, TOEFL, DELF, JLPT, ...
+  min_score: z.number().nullish(),
+});
+
+export const EligibilitySchema = z.object({
+  allowed_nationalities: z.array(z.string()).default([]), // [] = open to all nationalities
+  excluded_nationalities: z.array(z.string()).default([]),
+  min_gpa: z.number().min(0).max(5).nullish(), // On a 4.0 scale
+  language_test_required: z.boolean().nullish(), // null = not stated
+  language_tests: z.array(LanguageTestRequirementSchema).default([]),
+  min_age: z.number().int().nullish(),
+  max_age: z.number().int().nullish(),
+  required_documents: z.array(z.string()).default([]),
+  coverage: z.preprocess(toCoverageItems, z.array(z.enum(COVERAGE_ITEMS))).default([]),
+});
+
+export type Eligibility = z.infer<typeof EligibilitySchema>;
+
 // ── Scholarship Schema ──────────────────────────────────────────────
 export const ScholarshipSchema = z.object({
   id: z.string(), // MongoDB ObjectId as string
@@ -14,17 +70,39 @@ export const ScholarshipSchema = z.object({
   link: z.string().url(),
   amount: z.string().optional(),
   currency: z.string().optional(),
+  eligibility: EligibilitySchema.optional(),
   is_verified: z.number().optional().default(0),
+  verification_status: z.string().optional(),
+  verification_notes: z.string().optional(),
+  verified_by: z.string().optional(),
+  verified_at: z.string().optional(),
+  evidence: z.record(z.string()).optional(), // field → verbatim snippet from the official page
   source: z.string().optional(),
+  program_id: z.string().optional(), // Recurring program this cycle belongs to
+  archived_at: z.string().optional(), // Set once the deadline has passed
+  trust_tier: z.string().optional(), // From the domain policy, for the link's domain
+  amount_details: z.custom<AmountDetails>().optional(), // `amount` parsed into components
+  amount_normalized: z.custom<NormalizedAmount>().optional(), // Yearly value in the display currency
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
 
 export type Scholarship = z.infer<typeof ScholarshipSchema>;
 
-// Schema for inserting (no id, no timestamps)
+// Schema for inserting (no id, no timestamps, no review or cycle state)
 export const InsertScholarshipSchema = ScholarshipSchema.omit({
   id: true,
+  is_verified: true, // Derived from verification_status; only the review queue sets it
+  verification_status: true,
+  verification_notes: true,
+  verified_by: true,
+  evidence: true, // Only the grounding pass quotes the official page
+  verified_at: true,
+  program_id: true,
+  archived_at: true,
+  trust_tier: true,
+  amount_details: true,
+  amount_normalized: true,
   created_at: true,
   updated_at: true,
 });
@@ -60,11 +138,771 @@ export const ParsedScholarshipSchema = z.object({
     "CNY", "KRW", "TRY", "SEK", "NOK", "DKK", 
     "CHF", "NZD", "SGD", "HKD", "INR", "Other"
   ]).default("USD"),
+  eligibility: EligibilitySchema.optional(),
+  // Filled by the grounded extraction pass: field → verbatim quote from the page
+  evidence: z.record(z.string()).optional(),
 });
 
 export type ParsedScholarship = z.infer<typeof ParsedScholarshipSchema>;
 
+// What storeScholarships would do with a scholarship (dry runs)
+export interface StorePreviewItem {
+  scholarship: ParsedScholarship;
+  action: "insert" | "update" | "duplicate" | "rejected";
+  rule?: string;
+  reason?: string;
+  existing_id?: string;
+}
+
+// ── Admin Verification ──────────────────────────────────────────────
+export const VerificationStatusSchema = z.enum([
+  "pending",
+  "approved",
+  "rejected",
+  "changes_requested",
+]);
+
+export type VerificationStatus = z.infer<typeof VerificationStatusSchema>;
+
+export type ReviewAction = "approve" | "reject" | "request_changes";
+
+// Body of approve / reject / request-changes calls (reviewer comes from the API key)
+export const ReviewDecisionSchema = z.object({
+  notes: z.string().trim().optional(),
+  // Field fixes applied together with an approval (replaces one-off fix scripts)
+  changes: InsertScholarshipSchema.partial().optional(),
+});
+
+export type ReviewDecision = z.infer<typeof ReviewDecisionSchema> & { reviewer: string };
+
+export interface VerificationEventRecord {
+  id: string;
+  scholarship_id: string;
+  action: ReviewAction;
+  reviewer: string;
+  notes?: string;
+  changes?: Record<string, unknown>;
+  previous_status?: string;
+  new_status: string;
+  created_at: string;
+}
+
+// ── Crowdsourced Corrections ────────────────────────────────────────
+export const CORRECTABLE_FIELDS = [
+  "title",
+  "organization",
+  "country",
+  "level",
+  "field",
+  "category",
+  "deadline",
+  "description",
+  "link",
+  "amount",
+  "currency",
+] as const;
+
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number];
+
+// Fields whose proposed value must be one of a fixed set
+export const CORRECTION_OPTIONS: Partial<Record<CorrectableField, readonly string[]>> = {
+  level: ParsedScholarshipSchema.shape.level.options,
+  category: ParsedScholarshipSchema.shape.category.options,
+};
+
+export const CorrectionSubmissionSchema = z
+  .object({
+    field: z.enum(CORRECTABLE_FIELDS),
+    proposed_value: z.string().trim().min(1, "Proposed value must be specified"),
+    evidence_quote: z.string().trim().min(10, "Evidence quote must be at least 10 characters").optional(),
+    evidence_url: z.string().url("Evidence URL must be a valid URL").optional(),
+    submitter_name: z.string().trim().max(100).optional(),
+    submitter_email: z.string().email().optional(),
+  })
+  .refine((c) => c.evidence_quote || c.evidence_url, {
+    message: "Provide an evidence quote or URL from the official page",
+    path: ["evidence_quote"],
+  })
+  .refine(
+    (c) => CORRECTION_OPTIONS[c.field]?.includes(c.proposed_value) ?? true,
+    (c) => ({
+      message: `${c.field} must be one of: ${CORRECTION_OPTIONS[c.field]?.join(", ")}`,
+      path: ["proposed_value"],
+    })
+  );
+
+export type CorrectionSubmission = z.infer<typeof CorrectionSubmissionSchema>;
+
+export interface CorrectionRecord {
+  id: string;
+  scholarship_id: string;
+  field: CorrectableField;
+  current_value?: string;
+  proposed_value: string;
+  evidence_quote?: string;
+  evidence_url?: string;
+  submitter_name?: string;
+  status: "pending" | "accepted" | "rejected";
+  reviewer?: string;
+  review_notes?: string;
+  reviewed_at?: string;
+  created_at: string;
+}
+
+export interface CorrectionDiff {
+  correction: CorrectionRecord;
+  field: CorrectableField;
+  submitted_value?: string; // What the record said when the user reported it
+  live_value?: string; // What the record says now
+  proposed_value: string;
+  stale: boolean; // Record changed since submission
+}
+
+// ── AI Provider Management ──────────────────────────────────────────
+export const SwitchProviderSchema = z.object({
+  provider: z.string().trim().min(1, "Provider must be specified"),
+});
+
+export const SetProviderModelSchema = z.object({
+  model: z.string().trim().min(1, "Model must be specified"),
+});
+
+export const TestProviderSchema = z.object({
+  query: z.string().trim().min(3, "Query must be at least 3 characters"),
+});
+
+// ── Search Query Sets ───────────────────────────────────────────────
+export const QuerySetTagsSchema = z.object({
+  regions: z.array(z.string().trim().min(1)).default([]),
+  levels: z.array(z.string().trim().min(1)).default([]),
+  fields: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const QuerySetSchema = z.object({
+  name: z.string().trim().min(3, "Name must be at least 3 characters"),
+  tags: QuerySetTagsSchema.default({}),
+  enabled: z.boolean().default(true),
+  queries: z
+    .array(
+      z.object({
+        text: z.string().trim().min(5, "Query must be at least 5 characters"),
+        enabled: z.boolean().default(true),
+      })
+    )
+    .min(1, "At least one query is required"),
+});
+
+export const UpdateQuerySetSchema = QuerySetSchema.partial();
+
+export type QuerySetInput = z.infer<typeof QuerySetSchema>;
+export type UpdateQuerySet = z.infer<typeof UpdateQuerySetSchema>;
+
+// How to pick the next set: least recently run, or the weakest coverage
+export const QUERY_STRATEGIES = ["rotation", "coverage"] as const;
+
+export type QueryStrategy = (typeof QUERY_STRATEGIES)[number];
+
+// One query's results in one fetch cycle
+export interface QueryRunStats {
+  query: string;
+  found: number; // Passed provider validation and the link check
+  added: number;
+  rejected: number;
+}
+
+// A query's results over every completed fetch cycle
+export interface QueryYield {
+  runs: number;
+  found: number;
+  added: number;
+  rejected: number;
+  last_run_at?: string;
+}
+
+export interface QuerySetRecord {
+  id: string;
+  name: string;
+  tags: { regions: string[]; levels: string[]; fields: string[] };
+  enabled: boolean;
+  queries: { text: string; enabled: boolean; stats: QueryYield }[];
+  stats: QueryYield; // Totals over the set's queries
+  run_count: number;
+  last_run_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// The set picked for a fetch cycle, with its enabled queries
+export interface ClaimedQuerySet {
+  id: string;
+  name: string;
+  queries: string[];
+  strategy: QueryStrategy;
+}
+
+// ── Domain Policy ───────────────────────────────────────────────────
+export const DOMAIN_ACTIONS = ["block", "allow"] as const;
+
+export type DomainAction = (typeof DOMAIN_ACTIONS)[number];
+
+// Most to least trusted; domains without an allow rule are "neutral"
+export const TRUST_TIERS = ["official", "trusted", "neutral", "low"] as const;
+
+export type TrustTier = (typeof TRUST_TIERS)[number];
+
+// `example.com` (and its subdomains), `*.example.com` (subdomains only)
+// or `.edu` / `.ac.uk` (any domain ending with it)
+const DOMAIN_PATTERN = /^(\*\.|\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+export const DomainRuleSchema = z.object({
+  pattern: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((p) => p.replace(/^www\./, ""))
+    .refine((p) => DOMAIN_PATTERN.test(p), "Pattern must look like example.com, *.example.com or .edu"),
+  action: z.enum(DOMAIN_ACTIONS),
+  tier: z.enum(TRUST_TIERS).optional(), // Allow rules only; defaults to "trusted"
+  note: z.string().trim().max(500).optional(),
+});
+
+export const UpdateDomainRuleSchema = DomainRuleSchema.omit({ pattern: true }).partial();
+
+export type DomainRuleInput = z.infer<typeof DomainRuleSchema>;
+export type UpdateDomainRule = z.infer<typeof UpdateDomainRuleSchema>;
+
+export interface DomainRuleRecord {
+  id: string;
+  pattern: string;
+  kind: "domain" | "wildcard" | "suffix";
+  action: DomainAction;
+  tier?: TrustTier;
+  note?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// How the policy treats one link
+export interface DomainVerdict {
+  host: string;
+  blocked: boolean;
+  tier?: TrustTier; // Only when not blocked
+  rule?: string; // Pattern of the deciding rule, if any
+}
+
+// Stored records re-checked after a rule changed
+export interface DomainReevaluation {
+  checked: number;
+  blocked: number; // Newly hidden
+  unblocked: number; // Listed again
+}
+
+// ── Amounts & Exchange Rates ────────────────────────────────────────
+export const AMOUNT_PERIODS = ["one_off", "per_month", "per_year"] as const;
+
+export type AmountPeriod = (typeof AMOUNT_PERIODS)[number];
+
+export const AMOUNT_COMPONENT_TYPES = ["full_tuition", "partial_tuition", "stipend", "award"] as const;
+
+export type AmountComponentType = (typeof AMOUNT_COMPONENT_TYPES)[number];
+
+// Overall coverage of an award, most generous first
+export const AMOUNT_COVERAGES = ["full_tuition", "partial", "stipend", "unknown"] as const;
+
+export type AmountCoverage = (typeof AMOUNT_COVERAGES)[number];
+
+// One part of a free-text amount, e.g. "€934/month stipend"
+export interface AmountComponent {
+  type: AmountComponentType;
+  min?: number; // A single value sets min and max
+  max?: number; // "up to X" sets max only
+  currency?: string;
+  period: AmountPeriod;
+  percent?: number; // Share of tuition covered
+}
+
+// `amount` parsed into components (stored on the record)
+export interface AmountDetails {
+  components: AmountComponent[];
+  coverage: AmountCoverage;
+  fully_funded: boolean;
+  annual_usd?: number; // Yearly cash value in USD (lower bound), for filtering and sorting
+  one_off_usd?: number; // One-off payments in USD (lower bound), not part of annual_usd
+}
+
+// Yearly cash value in a display currency
+export interface NormalizedAmount {
+  annual_min?: number;
+  annual_max?: number;
+  one_off_min?: number; // Paid once, so not part of the yearly value
+  one_off_max?: number;
+  currency: string;
+}
+
+export interface ExchangeRateRecord {
+  currency: string;
+  per_usd: number; // Units of the currency for 1 USD
+  updated_by?: string;
+  updated_at: string;
+}
+
+export const UpdateExchangeRatesSchema = z.object({
+  rates: z
+    .record(
+      z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code"),
+      z.number().positive("Rate must be positive")
+    )
+    .refine((r) => Object.keys(r).length > 0, "At least one rate is required")
+    .refine((r) => r.USD === undefined || r.USD === 1, "USD is the base currency (always 1)"),
+});
+
+export type UpdateExchangeRates = z.infer<typeof UpdateExchangeRatesSchema>;
+
+// ── Import & Export ─────────────────────────────────────────────────
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// What one imported row did (or would do, in a dry run)
+export interface ImportRowResult {
+  row: number; // Row in the file (the header is row 1); position for JSON
+  action: "insert" | "update" | "duplicate" | "error";
+  title?: string;
+  id?: string; // Created record, or the existing record it duplicates
+  duplicate_of_row?: number; // Dry run: an earlier row of the same file
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  total: number;
+  inserted: number;
+  updated: number;
+  duplicates: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+// ── Feeds ───────────────────────────────────────────────────────────
+export const FEED_FORMATS = ["rss", "atom", "json"] as const;
+
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+// Filters a feed of new and updated scholarships accepts
+export type FeedFilters = Pick<ApiFilters, "country" | "level" | "field" | "category">;
+
+// ── Validation ──────────────────────────────────────────────────────
+export interface Rejection {
+  stage: string; // Pipeline that rejected the item, e.g. "provider", "store", "link_check"
+  rule: string; // Name of the rule that failed, e.g. "deadline_past"
+  reason: string;
+  source?: string; // Provider or caller that produced the item
+  query?: string; // Search query the item came from, when known
+  title?: string;
+  link?: string;
+  candidate?: unknown; // The rejected item itself, kept for quarantine
+}
+
+export interface RejectionSummary {
+  total: number;
+  by_rule: Record<string, number>;
+  samples: Omit<Rejection, "candidate">[]; // First rejections of the run, capped
+}
+
+// ── Quarantine ──────────────────────────────────────────────────────
+export interface QuarantineFailure {
+  stage: string;
+  rule: string;
+  reason: string;
+  source?: string;
+  query?: string;
+  failed_at: string;
+}
+
+export interface QuarantineRecord {
+  id: string;
+  candidate: Record<string, unknown>;
+  title?: string;
+  organization?: string;
+  link?: string;
+  failures: QuarantineFailure[];
+  failure_count: number;
+  status: "quarantined" | "promoted";
+  promoted_scholarship_id?: string;
+  promoted_by?: string;
+  promoted_at?: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Field fixes applied to the candidate before it is validated and stored
+export const PromoteCandidateSchema = z.object({
+  changes: ParsedScholarshipSchema.omit({ evidence: true }).partial().default({}),
+});
+
+export type PromoteCandidate = z.infer<typeof PromoteCandidateSchema>;
+
+// ── Duplicates & Merging ────────────────────────────────────────────
+export interface DuplicatePair {
+  a: string; // Scholarship ids
+  b: string;
+  score: number; // 0–1
+  reasons: string[];
+}
+
+export interface DuplicateCluster {
+  members: Scholarship[];
+  pairs: DuplicatePair[];
+  score: number; // Highest pair score in the cluster
+  suggested_keep: string; // Approved, then grounded, then oldest record
+}
+
+// Fields whose value is picked from one of the merged records
+export const MERGEABLE_FIELDS = [
+  "title",
+  "organization",
+  "country",
+  "level",
+  "field",
+  "category",
+  "deadline",
+  "description",
+  "link",
+  "amount",
+  "currency",
+  "eligibility",
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+export const MergeDuplicatesSchema = z.object({
+  keep_id: z.string().min(1, "keep_id is required"),
+  merge_ids: z.array(z.string().min(1)).min(1, "At least one record to merge is required"),
+  // Field → id of the record whose value should win (overrides the automatic pick)
+  fields: z.record(z.enum(MERGEABLE_FIELDS), z.string()).optional(),
+});
+
+export type MergeDuplicates = z.infer<typeof MergeDuplicatesSchema>;
+
+export interface MergedFromRecord {
+  scholarship_id: string;
+  title: string;
+  organization: string;
+  link: string;
+  deadline: string;
+  source?: string;
+  merged_by: string;
+  merged_at: string;
+  snapshot: Record<string, unknown>; // The merged record as it was
+}
+
+export interface MergeResult {
+  scholarship: Scholarship & { merged_from?: MergedFromRecord[] };
+  winners: Record<MergeableField, string>; // Field → id the value came from
+  merged_ids: string[];
+}
+
+// ── Change History ──────────────────────────────────────────────────
+// Fields whose changes are versioned (and restored by a revert)
+export const VERSIONED_FIELDS = [...MERGEABLE_FIELDS, "evidence"] as const;
+
+export type VersionedField = (typeof VERSIONED_FIELDS)[number];
+
+// Who or what changed a record. "initial" is the state of a record
+// created before history was kept, captured the first time it changes.
+export const CHANGE_SOURCE_TYPES = [
+  "initial",
+  "ai",
+  "admin",
+  "correction",
+  "review",
+  "merge",
+  "quarantine",
+  "revert",
+  "import",
+] as const;
+
+export type ChangeSourceType = (typeof CHANGE_SOURCE_TYPES)[number];
+
+export interface ChangeSource {
+  type: ChangeSourceType;
+  actor?: string; // Admin user, or the provider batch for AI changes
+  ref?: string; // Fetch log id, correction id, candidate id or reverted version
+}
+
+export interface FieldChange {
+  field: VersionedField;
+  from: unknown; // null when the field was not set
+  to: unknown;
+}
+
+export interface ScholarshipVersionRecord {
+  id: string;
+  scholarship_id: string;
+  version: number;
+  changes: FieldChange[];
+  source: ChangeSource;
+  created_at: string;
+}
+
+export interface RevertResult {
+  scholarship: Scholarship;
+  version: ScholarshipVersionRecord | null; // null when already at that version
+}
+
+// ── Link Health ─────────────────────────────────────────────────────
+export interface LinkProbe {
+  ok: boolean; // 2xx/3xx
+  status_code?: number;
+  final_url?: string; // Where redirects ended, if not the link itself
+  error?: string; // Network error or timeout
+}
+
+export interface LinkCheck extends LinkProbe {
+  checked_at: string;
+}
+
+export interface LinkHealth {
+  last_checked_at?: string;
+  last_ok_at?: string;
+  status_code?: number;
+  final_url?: string;
+  consecutive_failures: number;
+  broken: boolean; // Too many consecutive failures; hidden from listings until it recovers
+  broken_since?: string;
+  history: LinkCheck[]; // Oldest first
+}
+
+export const LINK_REPORT_STATUSES = ["broken", "failing", "redirected"] as const;
+
+export type LinkReportStatus = (typeof LINK_REPORT_STATUSES)[number];
+
+export interface BrokenLinkEntry {
+  scholarship: Scholarship;
+  link_health: LinkHealth;
+}
+
+export interface LinkCheckSummary {
+  checked: number;
+  ok: number;
+  failed: number;
+  flagged: number; // Newly marked broken
+  recovered: number; // Broken links that work again
+}
+
+// ── Recurring Programs ──────────────────────────────────────────────
+export const PROGRAM_STATUSES = ["open", "expected_to_reopen"] as const;
+
+export type ProgramStatus = (typeof PROGRAM_STATUSES)[number];
+
+export interface ProgramRecord {
+  id: string;
+  name: string;
+  organization: string;
+  country?: string;
+  link?: string;
+  status: ProgramStatus;
+  current_scholarship_id?: string; // Latest cycle
+  cycle_count: number;
+  last_deadline?: string;
+  expected_open_from?: string; // Typical opening window, while expected to reopen
+  expected_open_to?: string;
+  expected_deadline?: string;
+  last_checked_at?: string; // Last targeted search for the next cycle
+  check_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProgramDetail extends ProgramRecord {
+  cycles: Scholarship[]; // Latest first
+}
+
+export interface RolloverSummary {
+  archived: number; // Cycles archived
+  programs: number; // Programs whose cycles were archived
+}
+
+// ── Archive ─────────────────────────────────────────────────────────
+export interface ArchiveYearStats {
+  year: number; // Deadline year
+  total: number;
+  change: number | null; // Difference from the previous year (null for the first)
+  by_country: Record<string, number>;
+  by_level: Record<string, number>;
+}
+
+export interface ArchiveStats {
+  from: number;
+  to: number;
+  years: ArchiveYearStats[]; // Oldest first, every year in the range
+}
+
+// ── Authentication ──────────────────────────────────────────────────
+export const ROLES = ["viewer", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface AuthContext {
+  keyId: string;
+  name: string;
+  role: Role;
+}
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  role: z.enum(ROLES),
+});
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_prefix: string;
+  role: Role;
+  created_by?: string;
+  last_used_at?: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+// ── Student Matching ────────────────────────────────────────────────
+export const StudentProfileSchema = z.object({
+  nationality: z.string().trim().min(2).optional(),
+  level: z.enum(["Bachelor", "Master", "PhD", "Postdoctoral"]),
+  field: z.string().trim().min(2).optional(),
+  gpa: z.number().min(0).max(5).optional(), // On a 4.0 scale
+  age: z.number().int().min(10).max(100).optional(),
+  language_scores: z
+    .array(z.object({ test: z.string().min(2), score: z.number() }))
+    .default([]),
+  countries: z.array(z.string()).default([]), // Preferred study destinations
+  category: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export type StudentProfile = z.infer<typeof StudentProfileSchema>;
+
+export interface MatchCriterion {
+  criterion: "level" | "field" | "country" | "nationality" | "gpa" | "language" | "age";
+  outcome: "match" | "partial" | "unknown" | "mismatch" | "excluded";
+  points: number;
+  reason: string;
+}
+
+export interface ScholarshipMatch {
+  scholarship: Scholarship;
+  score: number; // 0–100
+  criteria: MatchCriterion[];
+}
+
+export interface MatchResponse {
+  matches: ScholarshipMatch[];
+  excluded: ScholarshipMatch[];
+  considered: number;
+}
+
+// ── Saved Searches & Notifications ──────────────────────────────────
+export const SavedSearchFiltersSchema = z.object({
+  country: z.string().optional(),
+  level: z.string().optional(),
+  field: z.string().optional(),
+  category: z.string().optional(),
+  search: z.string().optional(),
+  nationality: z.string().optional(),
+  gpa: z.number().optional(),
+  age: z.number().optional(),
+  noLanguageTest: z.string().optional(),
+  coverage: z.array(z.string()).optional(),
+  minAmount: z.number().positive().optional(),
+  fullyFunded: z.boolean().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/).optional(),
+});
+
+export const CreateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(2, "Name must be at least 2 characters"),
+    filters: SavedSearchFiltersSchema.default({}),
+    // Webhooks need an API key; file/console delivery is not offered publicly
+    channel: z.enum(["email", "webhook"]),
+    target: z.string().trim().min(3, "Target must be specified"),
+    reminder_offsets: z.array(z.number().int().min(1).max(365)).max(5).optional(),
+  })
+  .refine(
+    (s) => s.channel !== "email" || z.string().email().safeParse(s.target).success,
+    { message: "Target must be an email address", path: ["target"] }
+  )
+  .refine(
+    (s) => s.channel !== "webhook" || /^https?:\/\//.test(s.target),
+    { message: "Target must be an http(s) URL", path: ["target"] }
+  );
+
+export type CreateSavedSearch = z.infer<typeof CreateSavedSearchSchema>;
+
+export interface SavedSearchRecord {
+  id: string;
+  name: string;
+  filters: Omit<ApiFilters, "page" | "limit" | "sort" | "order">;
+  channel: string;
+  target: string;
+  reminder_offsets: number[];
+  followed_scholarships: string[];
+  active: boolean;
+  confirmed: boolean;
+  last_digest_at?: string;
+  created_at: string;
+}
+
+// ── Jobs ────────────────────────────────────────────────────────────
+export const JOB_TYPES = [
+  "fetch_cycle",
+  "link_check",
+  "deadline_reminders",
+  "amount_normalization",
+] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface JobProgress {
+  current: number;
+  total: number;
+  message?: string;
+}
+
+export interface JobRecord {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string; // Not picked up before this (retry backoff)
+  progress?: JobProgress;
+  result?: unknown;
+  error?: string; // Last failure, kept while retrying
+  cancel_requested: boolean;
+  requested_by?: string; // API key name, or "cron"
+  started_at?: string;
+  finished_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Enqueueing returns the job already queued or running for the same work instead of a second one
+export interface EnqueueResult {
+  job: JobRecord;
+  created: boolean;
+}
+
 // ── API Response Types ──────────────────────────────────────────────
+export interface SearchHighlight {
+  field: "title" | "organization" | "description";
+  snippet: string; // HTML-escaped text with matches wrapped in <mark>
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -73,14 +911,31 @@ export interface PaginatedResponse<T> {
     total: number;
     totalPages: number;
   };
+  // Present when a search was given: scholarship id → matched snippets
+  highlights?: Record<string, SearchHighlight[]>;
 }
 
+// Whether listings show scholarships whose deadline has passed
+export const INCLUDE_MODES = ["expired", "only-expired"] as const;
+
+export type IncludeMode = (typeof INCLUDE_MODES)[number];
+
 export interface ApiFilters {
   country?: string;
   level?: string;
   field?: string;
   category?: string;
   search?: string;
+  nationality?: string; // Open to citizens of this country
+  gpa?: number; // Student GPA on a 4.0 scale; excludes higher minimums
+  age?: number;
+  noLanguageTest?: string; // A test name (e.g. "IELTS") that must not be required, or "any"
+  coverage?: string[]; // Coverage items that must all be included
+  minAmount?: number; // Minimum yearly value, in `currency`
+  fullyFunded?: boolean;
+  currency?: string; // Display currency (also the currency of minAmount)
+  include?: IncludeMode; // Past deadlines are hidden unless set
+  year?: number; // Deadline year
   page?: number;
   limit?: number;
   sort?: string;
@@ -96,4 +951,7 @@ export interface FetchLog {
   scholarships_added: number;
   error: string | null;
   search_queries: string | null;
+  query_set?: string; // Name of the query set the cycle ran
+  query_stats?: QueryRunStats[];
+  rejections?: RejectionSummary;
 }